@@ -0,0 +1,133 @@
+import { GraphAnalyzer } from '../src/services/graphAnalyzer';
+
+/**
+ * Benchmarks GraphAnalyzer on synthetic graphs of 10k–100k services.
+ * Run with `npm run bench`; exits non-zero when a step exceeds its time limit
+ * or the process exceeds the peak memory limit (see README "Performance").
+ */
+
+type GraphData = Parameters<GraphAnalyzer['calculateMetrics']>[0];
+
+interface Step {
+  name: string;
+  limitMs: (nodeCount: number) => number;
+  run: (analyzer: GraphAnalyzer, graph: GraphData, largestScc: string[]) => unknown;
+}
+
+const SIZES = [10_000, 50_000, 100_000];
+const PEAK_RSS_LIMIT_MB = 1536;
+const CYCLE_BUDGET = { limit: 50, maxCycles: 10_000, timeBudgetMs: 1000 };
+
+// Limits scale linearly with graph size
+const perTenThousandNodes = (ms: number) => (nodeCount: number) => (ms * nodeCount) / 10_000;
+// Cycle enumeration stops at its time budget, plus linear setup work
+const withinCycleBudget = (nodeCount: number) => CYCLE_BUDGET.timeBudgetMs + perTenThousandNodes(500)(nodeCount);
+
+const STEPS: Step[] = [
+  { name: 'calculateMetrics', limitMs: perTenThousandNodes(300), run: (a, g) => a.calculateMetrics(g) },
+  { name: 'buildCondensation', limitMs: perTenThousandNodes(300), run: (a, g) => a.buildCondensation(g) },
+  { name: 'detectTinyCycles', limitMs: perTenThousandNodes(300), run: (a, g, scc) => a.detectTinyCycles(g, scc) },
+  { name: 'calculateServiceMetrics', limitMs: perTenThousandNodes(1500), run: (a, g) => a.calculateServiceMetrics(g) },
+  { name: 'detectCommunities', limitMs: perTenThousandNodes(1000), run: (a, g) => a.detectCommunities(g) },
+  { name: 'findSinglePointsOfFailure', limitMs: perTenThousandNodes(300), run: (a, g) => a.findSinglePointsOfFailure(g, ['svc_0']) },
+  { name: 'findFeedbackArcSet', limitMs: perTenThousandNodes(500), run: (a, g) => a.findFeedbackArcSet(g) },
+  { name: 'findElementaryCycles', limitMs: withinCycleBudget, run: (a, g, scc) => a.findElementaryCycles(g, scc, CYCLE_BUDGET) },
+  { name: 'rankCycleCriticality', limitMs: withinCycleBudget, run: (a, g, scc) => a.rankCycleCriticality(g, scc, CYCLE_BUDGET) },
+];
+
+// Small deterministic PRNG (mulberry32) so every run sees the same graphs
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const createGraph = (nodeCount: number, edges: Array<[number, number]>): GraphData => ({
+  nodes: Array.from({ length: nodeCount }, (_, i) => ({
+    id: `svc_${i}`,
+    type: 'default',
+    position: { x: 0, y: 0 },
+    data: { label: `service-${i}` },
+  })),
+  edges: edges.map(([source, target], i) => ({
+    id: `e_${i}`,
+    source: `svc_${source}`,
+    target: `svc_${target}`,
+    label: 'calls',
+  })),
+});
+
+/**
+ * One cycle through every service plus random shortcuts: a single SCC whose
+ * DFS goes nodeCount deep, the case that overflowed the recursive traversals
+ */
+const ringGraph = (nodeCount: number, random: () => number): GraphData => {
+  const edges: Array<[number, number]> = [];
+  for (let i = 0; i < nodeCount; i++) {
+    edges.push([i, (i + 1) % nodeCount]);
+    edges.push([i, Math.floor(random() * nodeCount)]);
+  }
+  return createGraph(nodeCount, edges);
+};
+
+/**
+ * Mostly layered dependencies with a few back edges, closer to a real system
+ */
+const layeredGraph = (nodeCount: number, random: () => number): GraphData => {
+  const edges: Array<[number, number]> = [];
+  for (let i = 0; i < nodeCount - 1; i++) {
+    for (let k = 0; k < 3; k++) {
+      const target = i + 1 + Math.floor(random() * Math.min(200, nodeCount - i - 1));
+      edges.push(random() < 0.02 ? [target, i] : [i, target]);
+    }
+  }
+  return createGraph(nodeCount, edges);
+};
+
+const peakRssMb = () => process.resourceUsage().maxRSS / 1024;
+
+const main = () => {
+  const analyzer = new GraphAnalyzer();
+  const failures: string[] = [];
+
+  for (const [shape, build] of [['ring', ringGraph], ['layered', layeredGraph]] as const) {
+    for (const size of SIZES) {
+      const graph = build(size, createRandom(size));
+      const largestScc = analyzer
+        .findStronglyConnectedComponents(graph)
+        .reduce<string[]>((largest, scc) => (scc.length > largest.length ? scc : largest), []);
+
+      console.log(`\n${shape} graph: ${size} nodes, ${graph.edges.length} edges, largest SCC ${largestScc.length}`);
+
+      for (const step of STEPS) {
+        const limitMs = step.limitMs(size);
+        const startedAt = performance.now();
+        step.run(analyzer, graph, largestScc);
+        const elapsedMs = performance.now() - startedAt;
+
+        const status = elapsedMs <= limitMs ? 'ok' : 'SLOW';
+        console.log(
+          `  ${step.name.padEnd(26)} ${elapsedMs.toFixed(0).padStart(6)} ms  (limit ${limitMs.toFixed(0)} ms)  ${status}`
+        );
+        if (status === 'SLOW') {
+          failures.push(`${shape}/${size}/${step.name}: ${elapsedMs.toFixed(0)} ms > ${limitMs.toFixed(0)} ms`);
+        }
+      }
+    }
+  }
+
+  const peak = peakRssMb();
+  console.log(`\nPeak RSS: ${peak.toFixed(0)} MB (limit ${PEAK_RSS_LIMIT_MB} MB)`);
+  if (peak > PEAK_RSS_LIMIT_MB) {
+    failures.push(`peak RSS ${peak.toFixed(0)} MB > ${PEAK_RSS_LIMIT_MB} MB`);
+  }
+
+  if (failures.length > 0) {
+    console.error('\nBenchmark limits exceeded:');
+    failures.forEach(failure => console.error(`  ${failure}`));
+    process.exit(1);
+  }
+};
+
+main();
@@ -0,0 +1,209 @@
+import { EdgeKind, GraphAnalyzer } from '../services/graphAnalyzer';
+
+/**
+ * Storage for graphs and their versions. Routes only talk to this
+ * interface; the backend picks an implementation at startup (see
+ * repository.ts), so it can run against Neo4j or with no database at all.
+ */
+
+// A service as the editor saves it. Other fields, such as ReactFlow styling, are stored as they come.
+export interface GraphNode {
+  id: string;
+  type?: string;
+  position: { x: number; y: number };
+  data: { label: string; [key: string]: unknown };
+}
+
+// A dependency of `source` on `target`
+export interface GraphEdge {
+  id: string;
+  source: string;
+  target: string;
+  label?: string;
+  type?: string;
+  kind?: EdgeKind;
+  data?: Record<string, unknown>;
+}
+
+export interface GraphData {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+// Descriptive fields users edit alongside the name
+export interface GraphMetadata {
+  description: string;
+  tags: string[];
+  ownerTeam: string;
+}
+
+// Cached on every save so the graph list can show and sort by them without loading graphs
+export interface GraphStats {
+  nodeCount: number;
+  edgeCount: number;
+  // Strongly connected components with more than one service, i.e. dependency cycles
+  sccCount: number;
+}
+
+export interface GraphSummary extends GraphMetadata {
+  id: string;
+  name: string;
+  createdAt: string;
+  // Last change to the data or the metadata
+  updatedAt: string;
+  stats: GraphStats;
+}
+
+export type GraphSortField = 'name' | 'createdAt' | 'updatedAt' | 'nodeCount' | 'edgeCount' | 'sccCount';
+
+export const GRAPH_SORT_FIELDS: GraphSortField[] = ['name', 'createdAt', 'updatedAt', 'nodeCount', 'edgeCount', 'sccCount'];
+
+export interface GraphQuery {
+  // Case-insensitive match on name, description, tags and owner team
+  search?: string;
+  // Graphs must carry all of these tags
+  tags?: string[];
+  ownerTeam?: string;
+  sort: GraphSortField;
+  order: 'asc' | 'desc';
+  limit: number;
+  // Keyset position: sort value and id of the last graph of the previous page
+  after?: { value: string | number; id: string };
+}
+
+export interface GraphPage {
+  graphs: GraphSummary[];
+  // Graphs matching the filters, across all pages
+  total: number;
+  hasMore: boolean;
+}
+
+export interface StoredGraph extends GraphSummary {
+  // Number of the latest version, 0 before the first save
+  revision: number;
+  data: GraphData;
+}
+
+export interface GraphVersionSummary {
+  version: number;
+  author: string;
+  message: string;
+  createdAt: string;
+  nodeCount: number;
+  edgeCount: number;
+}
+
+export interface GraphVersion extends GraphVersionSummary {
+  data: GraphData;
+}
+
+export type AnalysisKind = 'analyze' | 'find-cycles' | 'detect-tiny-cycles';
+
+export interface AnalysisRunSummary {
+  id: string;
+  kind: AnalysisKind;
+  // Hash of the services and dependencies the analysis ran on (see analysisRuns.ts)
+  contentHash: string;
+  // Request parameters, e.g. the edge filter or the cycle page
+  parameters: Record<string, unknown>;
+  // Graph revision at the time of the run
+  revision: number;
+  createdAt: string;
+  durationMs: number;
+  // Headline numbers of the result, e.g. sccCount, for charting runs over time
+  summary: Record<string, number>;
+  // False for results cut short by a time budget, which are never served from the cache
+  cacheable: boolean;
+}
+
+export interface AnalysisRun extends AnalysisRunSummary {
+  // Left out of runs that are not cacheable, which are kept for their summary only
+  result?: unknown;
+}
+
+// Runs kept per graph and kind; recording one more drops the oldest
+export const MAX_ANALYSIS_RUNS_PER_KIND = 100;
+
+export type SaveResult =
+  | { status: 'saved'; version: number }
+  // Someone saved since the expected revision; `revision` is the current one
+  | { status: 'conflict'; revision: number }
+  | { status: 'not-found' };
+
+export interface GraphRepository {
+  // One page of the graphs matching the query, ordered by the sort field then id
+  listGraphs(query: GraphQuery): Promise<GraphPage>;
+  createGraph(name: string, metadata: GraphMetadata): Promise<GraphSummary>;
+  /**
+   * Create a graph with `data` as its first version. Creating and saving are
+   * atomic, so a failed save never leaves an empty graph behind.
+   */
+  createGraphWithData(
+    name: string,
+    metadata: GraphMetadata,
+    data: GraphData,
+    author: string,
+    message: string
+  ): Promise<StoredGraph>;
+  // Rename or change the metadata of a graph, or null if it does not exist
+  updateGraph(graphId: string, changes: Partial<GraphMetadata> & { name?: string }): Promise<GraphSummary | null>;
+  getGraph(graphId: string): Promise<StoredGraph | null>;
+  getGraphData(graphId: string): Promise<GraphData | null>;
+  /**
+   * Replace the graph's data and record it as the next version, provided the
+   * graph is still at `expectedRevision` ('*' for any). The check and the
+   * write are atomic.
+   */
+  saveGraph(
+    graphId: string,
+    data: GraphData,
+    expectedRevision: number | '*',
+    author: string,
+    message: string
+  ): Promise<SaveResult>;
+  deleteGraph(graphId: string): Promise<boolean>;
+  // Versions newest first, or null if the graph does not exist
+  listVersions(graphId: string): Promise<GraphVersionSummary[] | null>;
+  getVersion(graphId: string, version: number): Promise<GraphVersion | null>;
+  // Latest cacheable run of the kind on this content with these parameters
+  findAnalysisRun(
+    graphId: string,
+    kind: AnalysisKind,
+    contentHash: string,
+    parameters: Record<string, unknown>
+  ): Promise<AnalysisRun | null>;
+  // Store a run; false if the graph does not exist
+  recordAnalysisRun(graphId: string, run: AnalysisRun): Promise<boolean>;
+  // Runs newest first, optionally of one kind, or null if the graph does not exist
+  listAnalysisRuns(graphId: string, kind: AnalysisKind | undefined, limit: number): Promise<AnalysisRunSummary[] | null>;
+  getAnalysisRun(graphId: string, runId: string): Promise<AnalysisRun | null>;
+  close(): Promise<void>;
+}
+
+export const newGraphId = () => `graph_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+
+const analyzer = new GraphAnalyzer();
+
+export const EMPTY_GRAPH_STATS: GraphStats = { nodeCount: 0, edgeCount: 0, sccCount: 0 };
+
+export const summarizeGraph = (data: GraphData): GraphStats => ({
+  nodeCount: data.nodes.length,
+  edgeCount: data.edges.length,
+  sccCount: analyzer.findStronglyConnectedComponents(data).length,
+});
+
+/**
+ * The value a graph is ordered by for a sort field. Names sort
+ * case-insensitively. Both stores order and page by this value.
+ */
+export const graphSortValue = (graph: GraphSummary, sort: GraphSortField): string | number => {
+  switch (sort) {
+    case 'name':
+      return graph.name.toLowerCase();
+    case 'createdAt':
+    case 'updatedAt':
+      return graph[sort];
+    default:
+      return graph.stats[sort];
+  }
+};
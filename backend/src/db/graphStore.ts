@@ -0,0 +1,593 @@
+import neo4j, { Integer, ManagedTransaction, Session } from 'neo4j-driver';
+import { stableStringify } from '../services/analysisRuns';
+import { EdgeKind } from '../services/graphAnalyzer';
+import {
+  AnalysisKind,
+  AnalysisRun,
+  AnalysisRunSummary,
+  GraphData,
+  GraphEdge,
+  GraphMetadata,
+  GraphNode,
+  GraphPage,
+  GraphQuery,
+  GraphSortField,
+  GraphSummary,
+  GraphVersion,
+  GraphVersionSummary,
+  MAX_ANALYSIS_RUNS_PER_KIND,
+  StoredGraph,
+  summarizeGraph,
+} from './graphRepository';
+
+/**
+ * Graphs are stored natively: each service is a (:Service {graphId, id})
+ * node linked from its (:Graph) by [:HAS_SERVICE], and each dependency is a
+ * [:DEPENDS_ON {id}] relationship between two services of the same graph.
+ * Fields the analysis needs are plain properties; rendering-only fields
+ * (ReactFlow styling, markers, offsets) round-trip as JSON in `attributes`.
+ */
+
+type QueryRunner = Session | ManagedTransaction;
+
+// Counters computed in Cypher come back as neo4j Integers
+const toNumber = (value: Integer | number): number => (neo4j.isInt(value) ? value.toNumber() : value);
+
+// Graphs created before metadata existed have none of the optional properties until they are saved
+interface GraphProperties {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt?: string;
+  description?: string;
+  tags?: string[];
+  ownerTeam?: string;
+  nodeCount?: Integer | number;
+  edgeCount?: Integer | number;
+  sccCount?: Integer | number;
+}
+
+interface ServiceProperties {
+  id: string;
+  label: string | null;
+  type: string | null;
+  x: number;
+  y: number;
+  order: Integer | number;
+  // JSON of the rendering-only fields, including data fields other than label
+  attributes: string | null;
+}
+
+interface DependencyProperties {
+  id: string;
+  label: string | null;
+  type: string | null;
+  kind: EdgeKind | null;
+  order: Integer | number;
+  attributes: string | null;
+}
+
+// Listing projects runs without graphId and result
+interface AnalysisRunProperties {
+  id: string;
+  kind: AnalysisKind;
+  contentHash: string;
+  parameters: string;
+  revision: Integer | number;
+  createdAt: string;
+  durationMs: Integer | number;
+  summary: string;
+  cacheable: boolean;
+  graphId?: string;
+  result?: string;
+}
+
+const fromGraphProperties = (properties: GraphProperties): GraphSummary => ({
+  id: properties.id,
+  name: properties.name,
+  createdAt: properties.createdAt,
+  updatedAt: properties.updatedAt ?? properties.createdAt,
+  description: properties.description ?? '',
+  tags: properties.tags ?? [],
+  ownerTeam: properties.ownerTeam ?? '',
+  stats: {
+    nodeCount: toNumber(properties.nodeCount ?? 0),
+    edgeCount: toNumber(properties.edgeCount ?? 0),
+    sccCount: toNumber(properties.sccCount ?? 0),
+  },
+});
+
+// Same ordering as graphSortValue, which builds the cursors
+const SORT_EXPRESSIONS: Record<GraphSortField, string> = {
+  name: 'toLower(g.name)',
+  createdAt: 'g.createdAt',
+  updatedAt: 'coalesce(g.updatedAt, g.createdAt)',
+  nodeCount: 'coalesce(g.nodeCount, 0)',
+  edgeCount: 'coalesce(g.edgeCount, 0)',
+  sccCount: 'coalesce(g.sccCount, 0)',
+};
+
+const toServiceProperties = (node: GraphNode, order: number): { id: string; properties: Omit<ServiceProperties, 'id'> } => {
+  const { id, type, position, data, ...rest } = node;
+  const { label, ...otherData } = data || {};
+  const attributes: Record<string, unknown> = { ...rest, ...(Object.keys(otherData).length > 0 && { data: otherData }) };
+
+  return {
+    id: String(id),
+    properties: {
+      label: label ?? null,
+      type: type ?? null,
+      x: position?.x ?? 0,
+      y: position?.y ?? 0,
+      order,
+      attributes: Object.keys(attributes).length > 0 ? JSON.stringify(attributes) : null,
+    },
+  };
+};
+
+const toDependencyProperties = (
+  edge: GraphEdge,
+  order: number
+): { id: string; source: string; target: string; properties: Omit<DependencyProperties, 'id'> } => {
+  const { id, source, target, label, type, kind, ...rest } = edge;
+
+  return {
+    id: String(id),
+    source: String(source),
+    target: String(target),
+    properties: {
+      label: label ?? null,
+      type: type ?? null,
+      kind: kind ?? null,
+      order,
+      attributes: Object.keys(rest).length > 0 ? JSON.stringify(rest) : null,
+    },
+  };
+};
+
+const parseAttributes = (attributes: string | null): Record<string, unknown> => (attributes ? JSON.parse(attributes) : {});
+
+const fromServiceProperties = (properties: ServiceProperties): GraphNode => {
+  const { data, ...attributes } = parseAttributes(properties.attributes);
+
+  return {
+    ...attributes,
+    id: properties.id,
+    ...(properties.type != null && { type: properties.type }),
+    position: { x: properties.x, y: properties.y },
+    data: {
+      ...(typeof data === 'object' && data !== null ? data : {}),
+      // Only services saved before labels were validated can lack one
+      label: properties.label ?? '',
+    },
+  };
+};
+
+const fromDependencyProperties = (source: string, target: string, properties: DependencyProperties): GraphEdge => ({
+  ...parseAttributes(properties.attributes),
+  id: properties.id,
+  source,
+  target,
+  ...(properties.label != null && { label: properties.label }),
+  ...(properties.type != null && { type: properties.type }),
+  ...(properties.kind != null && { kind: properties.kind }),
+});
+
+/**
+ * One page of the graphs matching a query
+ */
+export const listGraphs = async (runner: QueryRunner, query: GraphQuery): Promise<GraphPage> => {
+  const conditions: string[] = [];
+  if (query.search) {
+    conditions.push(
+      `(toLower(g.name) CONTAINS $search
+        OR toLower(coalesce(g.description, '')) CONTAINS $search
+        OR toLower(coalesce(g.ownerTeam, '')) CONTAINS $search
+        OR any(tag IN coalesce(g.tags, []) WHERE toLower(tag) CONTAINS $search))`
+    );
+  }
+  if (query.tags?.length) {
+    conditions.push('all(tag IN $tags WHERE tag IN coalesce(g.tags, []))');
+  }
+  if (query.ownerTeam) {
+    conditions.push('g.ownerTeam = $ownerTeam');
+  }
+  const filters = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  const params = { search: query.search?.toLowerCase(), tags: query.tags, ownerTeam: query.ownerTeam };
+
+  const totalResult = await runner.run(`MATCH (g:Graph) ${filters} RETURN count(g) as total`, params);
+
+  // Sort field and direction come from whitelists, so they can be spliced into the query
+  const direction = query.order === 'asc' ? 'ASC' : 'DESC';
+  const comparison = query.order === 'asc' ? '>' : '<';
+  const pageResult = await runner.run(
+    `MATCH (g:Graph) ${filters}
+     WITH g, ${SORT_EXPRESSIONS[query.sort]} as sortValue
+     ${query.after
+       ? `WHERE sortValue ${comparison} $after.value OR (sortValue = $after.value AND g.id ${comparison} $after.id)`
+       : ''}
+     RETURN properties(g) as graph
+     ORDER BY sortValue ${direction}, g.id ${direction}
+     LIMIT $limit`,
+    { ...params, after: query.after ?? null, limit: neo4j.int(query.limit + 1) }
+  );
+
+  const graphs = pageResult.records.map(record => fromGraphProperties(record.get('graph')));
+  return {
+    graphs: graphs.slice(0, query.limit),
+    total: toNumber(totalResult.records[0].get('total')),
+    hasMore: graphs.length > query.limit,
+  };
+};
+
+/**
+ * Create an empty graph
+ */
+export const createGraph = async (runner: QueryRunner, graph: GraphSummary): Promise<void> => {
+  const { stats, ...properties } = graph;
+  await runner.run('CREATE (g:Graph) SET g = $properties', { properties: { ...properties, ...stats } });
+};
+
+/**
+ * Rename a graph or change its metadata, or null if it does not exist
+ */
+export const updateGraphMetadata = async (
+  runner: QueryRunner,
+  graphId: string,
+  changes: Partial<GraphMetadata> & { name?: string }
+): Promise<GraphSummary | null> => {
+  const result = await runner.run(
+    `MATCH (g:Graph {id: $graphId})
+     SET g += $changes, g.updatedAt = $updatedAt
+     RETURN properties(g) as graph`,
+    { graphId, changes, updatedAt: new Date().toISOString() }
+  );
+
+  return result.records.length > 0 ? fromGraphProperties(result.records[0].get('graph')) : null;
+};
+
+/**
+ * Load a graph with its services and dependencies, or null if it does not exist
+ */
+export const loadGraph = async (runner: QueryRunner, graphId: string): Promise<StoredGraph | null> => {
+  const graphResult = await runner.run(
+    'MATCH (g:Graph {id: $graphId}) RETURN properties(g) as graph, coalesce(g.versionCount, 0) as revision',
+    { graphId }
+  );
+  if (graphResult.records.length === 0) {
+    return null;
+  }
+
+  const servicesResult = await runner.run(
+    `MATCH (:Graph {id: $graphId})-[:HAS_SERVICE]->(s:Service)
+     RETURN properties(s) as properties ORDER BY s.order`,
+    { graphId }
+  );
+  const dependenciesResult = await runner.run(
+    `MATCH (:Graph {id: $graphId})-[:HAS_SERVICE]->(a:Service)-[d:DEPENDS_ON]->(b:Service)
+     RETURN a.id as source, b.id as target, properties(d) as properties ORDER BY d.order`,
+    { graphId }
+  );
+
+  const record = graphResult.records[0];
+  return {
+    ...fromGraphProperties(record.get('graph')),
+    revision: toNumber(record.get('revision')),
+    data: {
+      nodes: servicesResult.records.map(service => fromServiceProperties(service.get('properties'))),
+      edges: dependenciesResult.records.map(dependency =>
+        fromDependencyProperties(dependency.get('source'), dependency.get('target'), dependency.get('properties'))
+      ),
+    },
+  };
+};
+
+/**
+ * Load just the GraphData of a graph, or null if it does not exist
+ */
+export const loadGraphData = async (runner: QueryRunner, graphId: string): Promise<GraphData | null> => {
+  const graph = await loadGraph(runner, graphId);
+  return graph ? graph.data : null;
+};
+
+/**
+ * Replace the services and dependencies of a graph with `data` and refresh
+ * its cached stats. Only what changed is deleted or rewritten. Dependencies
+ * whose endpoints are not services of the graph are dropped. Returns false
+ * if the graph does not exist.
+ */
+export const saveGraphData = async (tx: ManagedTransaction, graphId: string, data: GraphData): Promise<boolean> => {
+  const graphResult = await tx.run(
+    'MATCH (g:Graph {id: $graphId}) SET g += $stats, g.updatedAt = $updatedAt RETURN g.id as id',
+    { graphId, stats: summarizeGraph(data), updatedAt: new Date().toISOString() }
+  );
+  if (graphResult.records.length === 0) {
+    return false;
+  }
+
+  const services = data.nodes.map(toServiceProperties);
+  const dependencies = data.edges.map(toDependencyProperties);
+  const endpoints = Object.fromEntries(dependencies.map(dependency => [dependency.id, [dependency.source, dependency.target]]));
+
+  await tx.run(
+    `MATCH (:Graph {id: $graphId})-[:HAS_SERVICE]->(s:Service)
+     WHERE NOT s.id IN $serviceIds
+     DETACH DELETE s`,
+    { graphId, serviceIds: services.map(service => service.id) }
+  );
+
+  // A rerouted dependency keeps its id but needs a new relationship
+  await tx.run(
+    `MATCH (:Graph {id: $graphId})-[:HAS_SERVICE]->(a:Service)-[d:DEPENDS_ON]->(b:Service)
+     WHERE $endpoints[d.id] IS NULL OR $endpoints[d.id] <> [a.id, b.id]
+     DELETE d`,
+    { graphId, endpoints }
+  );
+
+  await tx.run(
+    `MATCH (g:Graph {id: $graphId})
+     UNWIND $services AS service
+     MERGE (s:Service {graphId: $graphId, id: service.id})
+     MERGE (g)-[:HAS_SERVICE]->(s)
+     SET s += service.properties`,
+    { graphId, services }
+  );
+
+  await tx.run(
+    `UNWIND $dependencies AS dependency
+     MATCH (a:Service {graphId: $graphId, id: dependency.source})
+     MATCH (b:Service {graphId: $graphId, id: dependency.target})
+     MERGE (a)-[d:DEPENDS_ON {id: dependency.id}]->(b)
+     SET d += dependency.properties`,
+    { graphId, dependencies }
+  );
+
+  return true;
+};
+
+/**
+ * Take the write lock on a graph for the rest of the transaction and return
+ * its revision, or null if it does not exist. Reading the revision under the
+ * lock is what makes compare-and-save safe against concurrent saves.
+ */
+export const lockGraph = async (tx: ManagedTransaction, graphId: string): Promise<number | null> => {
+  await tx.run('MATCH (g:Graph {id: $graphId}) SET g._lock = true', { graphId });
+  const result = await tx.run(
+    'MATCH (g:Graph {id: $graphId}) REMOVE g._lock RETURN coalesce(g.versionCount, 0) as revision',
+    { graphId }
+  );
+
+  return result.records.length > 0 ? toNumber(result.records[0].get('revision')) : null;
+};
+
+/**
+ * Record a save as the next immutable version of a graph and return its
+ * number, which becomes the graph's revision. Call lockGraph first in the
+ * same transaction. Versions are snapshots that are only ever read back
+ * whole, so they keep the GraphData as JSON rather than as services and
+ * dependencies.
+ */
+export const recordVersion = async (
+  tx: ManagedTransaction,
+  graphId: string,
+  data: GraphData,
+  author: string,
+  message: string
+): Promise<number> => {
+  const result = await tx.run(
+    `MATCH (g:Graph {id: $graphId})
+     SET g.versionCount = coalesce(g.versionCount, 0) + 1
+     CREATE (g)-[:HAS_VERSION]->(v:GraphVersion {
+       graphId: $graphId,
+       version: g.versionCount,
+       author: $author,
+       message: $message,
+       createdAt: $createdAt,
+       nodeCount: $nodeCount,
+       edgeCount: $edgeCount,
+       data: $data
+     })
+     RETURN v.version as version`,
+    {
+      graphId,
+      author,
+      message,
+      createdAt: new Date().toISOString(),
+      nodeCount: data.nodes.length,
+      edgeCount: data.edges.length,
+      data: JSON.stringify(data),
+    }
+  );
+
+  return toNumber(result.records[0].get('version'));
+};
+
+/**
+ * Versions of a graph, newest first, or null if the graph does not exist
+ */
+export const listVersions = async (runner: QueryRunner, graphId: string): Promise<GraphVersionSummary[] | null> => {
+  const result = await runner.run(
+    `MATCH (g:Graph {id: $graphId})
+     OPTIONAL MATCH (g)-[:HAS_VERSION]->(v:GraphVersion)
+     RETURN v { .version, .author, .message, .createdAt, .nodeCount, .edgeCount } as version
+     ORDER BY v.version DESC`,
+    { graphId }
+  );
+  if (result.records.length === 0) {
+    return null;
+  }
+
+  return result.records
+    .map(record => record.get('version'))
+    .filter(version => version !== null)
+    .map(version => ({
+      ...version,
+      version: toNumber(version.version),
+      nodeCount: toNumber(version.nodeCount),
+      edgeCount: toNumber(version.edgeCount),
+    }));
+};
+
+/**
+ * One version of a graph with its snapshot, or null if it does not exist
+ */
+export const loadVersion = async (runner: QueryRunner, graphId: string, version: number): Promise<GraphVersion | null> => {
+  const result = await runner.run(
+    `MATCH (:Graph {id: $graphId})-[:HAS_VERSION]->(v:GraphVersion {version: $version})
+     RETURN properties(v) as version`,
+    { graphId, version: neo4j.int(version) }
+  );
+  if (result.records.length === 0) {
+    return null;
+  }
+
+  const { data, graphId: _graphId, ...summary } = result.records[0].get('version');
+  return {
+    ...summary,
+    version: toNumber(summary.version),
+    nodeCount: toNumber(summary.nodeCount),
+    edgeCount: toNumber(summary.edgeCount),
+    data: JSON.parse(data),
+  };
+};
+
+/**
+ * Delete a graph with its services, dependencies and versions. Returns false
+ * if it does not exist.
+ */
+export const deleteGraph = async (tx: ManagedTransaction, graphId: string): Promise<boolean> => {
+  await tx.run(
+    'MATCH (:Graph {id: $graphId})-[:HAS_VERSION]->(v:GraphVersion) DETACH DELETE v',
+    { graphId }
+  );
+  await tx.run(
+    'MATCH (:Graph {id: $graphId})-[:HAS_ANALYSIS_RUN]->(r:AnalysisRun) DETACH DELETE r',
+    { graphId }
+  );
+
+  const result = await tx.run(
+    `MATCH (g:Graph {id: $graphId})
+     OPTIONAL MATCH (g)-[:HAS_SERVICE]->(s:Service)
+     DETACH DELETE s
+     WITH DISTINCT g
+     DETACH DELETE g
+     RETURN count(g) as deleted`,
+    { graphId }
+  );
+
+  return result.records[0].get('deleted').toNumber() > 0;
+};
+
+// Parameters, summary and result are stored as JSON strings; parameters with sorted keys so equal ones match
+const fromAnalysisRunProperties = ({ graphId, result, ...properties }: AnalysisRunProperties): AnalysisRun => ({
+  ...properties,
+  parameters: JSON.parse(properties.parameters),
+  summary: JSON.parse(properties.summary),
+  revision: toNumber(properties.revision),
+  durationMs: toNumber(properties.durationMs),
+  result: result === undefined ? undefined : JSON.parse(result),
+});
+
+/**
+ * Record an analysis run of a graph, dropping the oldest runs of its kind past
+ * MAX_ANALYSIS_RUNS_PER_KIND. Returns false if the graph does not exist.
+ */
+export const recordAnalysisRun = async (runner: QueryRunner, graphId: string, run: AnalysisRun): Promise<boolean> => {
+  const { result: runResult, ...properties } = run;
+  const result = await runner.run(
+    `MATCH (g:Graph {id: $graphId})
+     CREATE (g)-[:HAS_ANALYSIS_RUN]->(r:AnalysisRun)
+     SET r = $properties
+     RETURN r.id as id`,
+    {
+      graphId,
+      properties: {
+        ...properties,
+        graphId,
+        parameters: stableStringify(run.parameters),
+        summary: JSON.stringify(run.summary),
+        revision: neo4j.int(run.revision),
+        durationMs: neo4j.int(run.durationMs),
+        ...(runResult !== undefined && { result: JSON.stringify(runResult) }),
+      },
+    }
+  );
+  if (result.records.length === 0) {
+    return false;
+  }
+
+  await runner.run(
+    `MATCH (:Graph {id: $graphId})-[:HAS_ANALYSIS_RUN]->(r:AnalysisRun {kind: $kind})
+     WITH r ORDER BY r.createdAt DESC
+     SKIP $keep
+     DETACH DELETE r`,
+    { graphId, kind: run.kind, keep: neo4j.int(MAX_ANALYSIS_RUNS_PER_KIND) }
+  );
+  return true;
+};
+
+/**
+ * Latest cacheable run of a kind on the given content and parameters
+ */
+export const findAnalysisRun = async (
+  runner: QueryRunner,
+  graphId: string,
+  kind: AnalysisKind,
+  contentHash: string,
+  parameters: Record<string, unknown>
+): Promise<AnalysisRun | null> => {
+  const result = await runner.run(
+    `MATCH (:Graph {id: $graphId})-[:HAS_ANALYSIS_RUN]->(r:AnalysisRun)
+     WHERE r.kind = $kind AND r.contentHash = $contentHash AND r.parameters = $parameters AND r.cacheable
+     RETURN properties(r) as run
+     ORDER BY r.createdAt DESC
+     LIMIT 1`,
+    { graphId, kind, contentHash, parameters: stableStringify(parameters) }
+  );
+
+  return result.records.length > 0 ? fromAnalysisRunProperties(result.records[0].get('run')) : null;
+};
+
+/**
+ * Analysis runs of a graph newest first, without their results, or null if
+ * the graph does not exist
+ */
+export const listAnalysisRuns = async (
+  runner: QueryRunner,
+  graphId: string,
+  kind: AnalysisKind | undefined,
+  limit: number
+): Promise<AnalysisRunSummary[] | null> => {
+  const result = await runner.run(
+    `MATCH (g:Graph {id: $graphId})
+     OPTIONAL MATCH (g)-[:HAS_ANALYSIS_RUN]->(r:AnalysisRun)
+     WHERE $kind IS NULL OR r.kind = $kind
+     RETURN r { .id, .kind, .contentHash, .parameters, .revision, .createdAt, .durationMs, .summary, .cacheable } as run
+     ORDER BY r.createdAt DESC
+     LIMIT $limit`,
+    { graphId, kind: kind ?? null, limit: neo4j.int(limit) }
+  );
+  if (result.records.length === 0) {
+    return null;
+  }
+
+  return result.records
+    .map(record => record.get('run'))
+    .filter(run => run !== null)
+    .map(run => {
+      const { result, ...summary } = fromAnalysisRunProperties(run);
+      return summary;
+    });
+};
+
+/**
+ * One analysis run with its result, or null if it does not exist
+ */
+export const loadAnalysisRun = async (runner: QueryRunner, graphId: string, runId: string): Promise<AnalysisRun | null> => {
+  const result = await runner.run(
+    'MATCH (:Graph {id: $graphId})-[:HAS_ANALYSIS_RUN]->(r:AnalysisRun {id: $runId}) RETURN properties(r) as run',
+    { graphId, runId }
+  );
+
+  return result.records.length > 0 ? fromAnalysisRunProperties(result.records[0].get('run')) : null;
+};
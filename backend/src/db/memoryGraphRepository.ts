@@ -0,0 +1,358 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { stableStringify } from '../services/analysisRuns';
+import {
+  AnalysisKind,
+  AnalysisRun,
+  AnalysisRunSummary,
+  EMPTY_GRAPH_STATS,
+  GraphData,
+  GraphMetadata,
+  GraphPage,
+  GraphQuery,
+  GraphRepository,
+  GraphSummary,
+  GraphVersion,
+  GraphVersionSummary,
+  MAX_ANALYSIS_RUNS_PER_KIND,
+  SaveResult,
+  StoredGraph,
+  graphSortValue,
+  newGraphId,
+  summarizeGraph,
+} from './graphRepository';
+
+interface MemoryGraph extends GraphSummary {
+  data: GraphData;
+  versions: GraphVersion[];
+  analysisRuns: AnalysisRun[];
+}
+
+interface StoreFile {
+  graphs: MemoryGraph[];
+}
+
+// Callers get copies, so mutating a result never changes the store
+const copy = <T>(value: T): T => structuredClone(value);
+
+const newMemoryGraph = (name: string, metadata: GraphMetadata): MemoryGraph => {
+  const createdAt = new Date().toISOString();
+  return {
+    id: newGraphId(),
+    name,
+    createdAt,
+    updatedAt: createdAt,
+    ...copy(metadata),
+    stats: EMPTY_GRAPH_STATS,
+    data: { nodes: [], edges: [] },
+    versions: [],
+    analysisRuns: [],
+  };
+};
+
+const toVersionSummary = ({ data, ...summary }: GraphVersion): GraphVersionSummary => summary;
+
+const toSummary = ({ data, versions, analysisRuns, ...summary }: MemoryGraph): GraphSummary => copy(summary);
+
+const toRunSummary = ({ result, ...summary }: AnalysisRun): AnalysisRunSummary => copy(summary);
+
+// Files written before graphs had metadata and stats
+const upgradeGraph = (graph: MemoryGraph): MemoryGraph => ({
+  ...graph,
+  updatedAt: graph.updatedAt ?? graph.createdAt,
+  description: graph.description ?? '',
+  tags: graph.tags ?? [],
+  ownerTeam: graph.ownerTeam ?? '',
+  stats: graph.stats ?? summarizeGraph(graph.data),
+  analysisRuns: graph.analysisRuns ?? [],
+});
+
+const matchesQuery = (graph: GraphSummary, query: GraphQuery) => {
+  const search = query.search?.toLowerCase();
+  if (
+    search &&
+    ![graph.name, graph.description, graph.ownerTeam, ...graph.tags].some(text => text.toLowerCase().includes(search))
+  ) {
+    return false;
+  }
+
+  return (
+    (!query.tags || query.tags.every(tag => graph.tags.includes(tag))) &&
+    (!query.ownerTeam || graph.ownerTeam === query.ownerTeam)
+  );
+};
+
+const compareValues = (a: string | number, b: string | number) => (a < b ? -1 : a > b ? 1 : 0);
+
+// Changes replace the graphs they touch rather than mutating them, so identity tells what changed
+const hasChanged = (before: Map<string, MemoryGraph>, after: Map<string, MemoryGraph>) =>
+  before.size !== after.size || Array.from(after).some(([id, graph]) => before.get(id) !== graph);
+
+/**
+ * Graphs kept in process memory, for running the API without a database.
+ * With a file path the store is loaded from that JSON file at startup and
+ * written back after every change; without one it starts empty and is lost
+ * on exit.
+ */
+export class MemoryGraphRepository implements GraphRepository {
+  private graphs = new Map<string, MemoryGraph>();
+  // Changes are chained so they apply, and land in the file, in order
+  private pendingChange: Promise<unknown> = Promise.resolve();
+
+  private constructor(private filePath?: string) {}
+
+  static async open(filePath?: string): Promise<MemoryGraphRepository> {
+    const repository = new MemoryGraphRepository(filePath);
+
+    if (filePath) {
+      try {
+        const store: StoreFile = JSON.parse(await fs.readFile(filePath, 'utf8'));
+        store.graphs.forEach(graph => repository.graphs.set(graph.id, upgradeGraph(graph)));
+      } catch (error) {
+        // A missing file is a fresh store; anything else would lose data if we carried on
+        if (!(error instanceof Error && 'code' in error && error.code === 'ENOENT')) {
+          throw error;
+        }
+      }
+    }
+
+    return repository;
+  }
+
+  async listGraphs(query: GraphQuery): Promise<GraphPage> {
+    const direction = query.order === 'asc' ? 1 : -1;
+    // Ordered by sort value then id, like the Neo4j store
+    const position = (graph: GraphSummary, value: string | number, after: { value: string | number; id: string }) =>
+      direction * (compareValues(value, after.value) || compareValues(graph.id, after.id));
+
+    const matching = Array.from(this.graphs.values())
+      .filter(graph => matchesQuery(graph, query))
+      .map(graph => ({ graph, value: graphSortValue(graph, query.sort) }))
+      .sort((a, b) => position(a.graph, a.value, { value: b.value, id: b.graph.id }));
+    const after = query.after;
+    const remaining = after ? matching.filter(({ graph, value }) => position(graph, value, after) > 0) : matching;
+
+    return {
+      graphs: remaining.slice(0, query.limit).map(({ graph }) => toSummary(graph)),
+      total: matching.length,
+      hasMore: remaining.length > query.limit,
+    };
+  }
+
+  async createGraph(name: string, metadata: GraphMetadata): Promise<GraphSummary> {
+    const graph = newMemoryGraph(name, metadata);
+    await this.change(graphs => graphs.set(graph.id, graph));
+    return toSummary(graph);
+  }
+
+  async createGraphWithData(
+    name: string,
+    metadata: GraphMetadata,
+    data: GraphData,
+    author: string,
+    message: string
+  ): Promise<StoredGraph> {
+    const graph = newMemoryGraph(name, metadata);
+    graph.data = copy(data);
+    graph.stats = summarizeGraph(data);
+    graph.versions.push({
+      version: 1,
+      author,
+      message,
+      createdAt: graph.createdAt,
+      nodeCount: data.nodes.length,
+      edgeCount: data.edges.length,
+      data: copy(data),
+    });
+    await this.change(graphs => graphs.set(graph.id, graph));
+
+    const { versions, analysisRuns, ...stored } = graph;
+    return copy({ ...stored, revision: versions.length });
+  }
+
+  async updateGraph(graphId: string, changes: Partial<GraphMetadata> & { name?: string }): Promise<GraphSummary | null> {
+    return this.change(graphs => {
+      const graph = graphs.get(graphId);
+      if (!graph) {
+        return null;
+      }
+
+      const updated = { ...graph, ...copy(changes), updatedAt: new Date().toISOString() };
+      graphs.set(graphId, updated);
+      return toSummary(updated);
+    });
+  }
+
+  async getGraph(graphId: string): Promise<StoredGraph | null> {
+    const graph = this.graphs.get(graphId);
+    if (!graph) {
+      return null;
+    }
+
+    const { versions, analysisRuns, ...stored } = graph;
+    return copy({ ...stored, revision: versions.length });
+  }
+
+  async getGraphData(graphId: string): Promise<GraphData | null> {
+    const graph = this.graphs.get(graphId);
+    return graph ? copy(graph.data) : null;
+  }
+
+  async saveGraph(
+    graphId: string,
+    data: GraphData,
+    expectedRevision: number | '*',
+    author: string,
+    message: string
+  ): Promise<SaveResult> {
+    // Changes run one at a time, so the revision check and the save are atomic
+    return this.change((graphs): SaveResult => {
+      const graph = graphs.get(graphId);
+      if (!graph) {
+        return { status: 'not-found' };
+      }
+      if (expectedRevision !== '*' && graph.versions.length !== expectedRevision) {
+        return { status: 'conflict', revision: graph.versions.length };
+      }
+
+      const version = graph.versions.length + 1;
+      const savedAt = new Date().toISOString();
+      graphs.set(graphId, {
+        ...graph,
+        data: copy(data),
+        stats: summarizeGraph(data),
+        updatedAt: savedAt,
+        versions: [
+          ...graph.versions,
+          {
+            version,
+            author,
+            message,
+            createdAt: savedAt,
+            nodeCount: data.nodes.length,
+            edgeCount: data.edges.length,
+            data: copy(data),
+          },
+        ],
+      });
+      return { status: 'saved', version };
+    });
+  }
+
+  async deleteGraph(graphId: string): Promise<boolean> {
+    return this.change(graphs => graphs.delete(graphId));
+  }
+
+  async listVersions(graphId: string): Promise<GraphVersionSummary[] | null> {
+    const graph = this.graphs.get(graphId);
+    return graph ? graph.versions.map(toVersionSummary).reverse() : null;
+  }
+
+  async getVersion(graphId: string, version: number): Promise<GraphVersion | null> {
+    const snapshot = this.graphs.get(graphId)?.versions[version - 1];
+    return snapshot ? copy(snapshot) : null;
+  }
+
+  async findAnalysisRun(
+    graphId: string,
+    kind: AnalysisKind,
+    contentHash: string,
+    parameters: Record<string, unknown>
+  ): Promise<AnalysisRun | null> {
+    const key = stableStringify(parameters);
+    const runs = this.graphs.get(graphId)?.analysisRuns ?? [];
+    // Runs are appended, so search from the newest
+    for (let i = runs.length - 1; i >= 0; i--) {
+      const run = runs[i];
+      if (
+        run.kind === kind &&
+        run.contentHash === contentHash &&
+        run.cacheable &&
+        stableStringify(run.parameters) === key
+      ) {
+        return copy(run);
+      }
+    }
+    return null;
+  }
+
+  async recordAnalysisRun(graphId: string, run: AnalysisRun): Promise<boolean> {
+    return this.change(graphs => {
+      const graph = graphs.get(graphId);
+      if (!graph) {
+        return false;
+      }
+
+      let analysisRuns = [...graph.analysisRuns, copy(run)];
+      // Every change rewrites the whole file, so keep the runs bounded
+      const runsOfKind = analysisRuns.filter(candidate => candidate.kind === run.kind);
+      if (runsOfKind.length > MAX_ANALYSIS_RUNS_PER_KIND) {
+        const dropped = new Set(runsOfKind.slice(0, runsOfKind.length - MAX_ANALYSIS_RUNS_PER_KIND));
+        analysisRuns = analysisRuns.filter(candidate => !dropped.has(candidate));
+      }
+      graphs.set(graphId, { ...graph, analysisRuns });
+      return true;
+    });
+  }
+
+  async listAnalysisRuns(
+    graphId: string,
+    kind: AnalysisKind | undefined,
+    limit: number
+  ): Promise<AnalysisRunSummary[] | null> {
+    const graph = this.graphs.get(graphId);
+    if (!graph) {
+      return null;
+    }
+
+    return graph.analysisRuns
+      .filter(run => !kind || run.kind === kind)
+      .slice(-limit)
+      .reverse()
+      .map(toRunSummary);
+  }
+
+  async getAnalysisRun(graphId: string, runId: string): Promise<AnalysisRun | null> {
+    const run = this.graphs.get(graphId)?.analysisRuns.find(candidate => candidate.id === runId);
+    return run ? copy(run) : null;
+  }
+
+  async close(): Promise<void> {
+    // A failed change has already been reported to its caller
+    await this.pendingChange.catch(() => undefined);
+  }
+
+  /**
+   * Apply a change to a copy of the graphs and make it current only once it
+   * is written, so a failed write leaves the store as it was. The change must
+   * replace any graph it modifies rather than mutate it.
+   */
+  private change<T>(apply: (graphs: Map<string, MemoryGraph>) => T): Promise<T> {
+    const result = this.pendingChange
+      .catch(() => undefined)
+      .then(async () => {
+        const graphs = new Map(this.graphs);
+        const value = apply(graphs);
+        if (hasChanged(this.graphs, graphs)) {
+          await this.persist(graphs);
+          this.graphs = graphs;
+        }
+        return value;
+      });
+    this.pendingChange = result;
+    return result;
+  }
+
+  // Write the whole store to a temporary file and rename it, so a crash never leaves half a file
+  private async persist(graphs: Map<string, MemoryGraph>): Promise<void> {
+    const filePath = this.filePath;
+    if (!filePath) {
+      return;
+    }
+
+    const contents = JSON.stringify({ graphs: Array.from(graphs.values()) } as StoreFile);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(`${filePath}.tmp`, contents);
+    await fs.rename(`${filePath}.tmp`, filePath);
+  }
+}
@@ -0,0 +1,29 @@
+import { Migration } from './migration';
+
+const CONSTRAINTS = [
+  'CREATE CONSTRAINT graph_id IF NOT EXISTS FOR (g:Graph) REQUIRE g.id IS UNIQUE',
+  'CREATE CONSTRAINT service_id IF NOT EXISTS FOR (s:Service) REQUIRE (s.graphId, s.id) IS UNIQUE',
+  'CREATE CONSTRAINT graph_version_number IF NOT EXISTS FOR (v:GraphVersion) REQUIRE (v.graphId, v.version) IS UNIQUE',
+  'CREATE CONSTRAINT analysis_run_id IF NOT EXISTS FOR (r:AnalysisRun) REQUIRE r.id IS UNIQUE',
+];
+
+/**
+ * Ids are unique per graph (services, versions) or globally (graphs, runs).
+ * Each constraint also backs an index, so lookups by id stop scanning labels.
+ */
+const migration: Migration = {
+  version: 1,
+  name: 'graph_constraints',
+  up: async ({ driver }) => {
+    const session = driver.session();
+    try {
+      for (const constraint of CONSTRAINTS) {
+        await session.run(constraint);
+      }
+    } finally {
+      await session.close();
+    }
+  },
+};
+
+export default migration;
@@ -0,0 +1,27 @@
+import { Migration } from './migration';
+
+const INDEXES = [
+  // Graph list filters and sort orders
+  'CREATE INDEX graph_created_at IF NOT EXISTS FOR (g:Graph) ON (g.createdAt)',
+  'CREATE INDEX graph_updated_at IF NOT EXISTS FOR (g:Graph) ON (g.updatedAt)',
+  'CREATE INDEX graph_owner_team IF NOT EXISTS FOR (g:Graph) ON (g.ownerTeam)',
+  // Cached result lookup
+  'CREATE INDEX analysis_run_content IF NOT EXISTS FOR (r:AnalysisRun) ON (r.graphId, r.kind, r.contentHash)',
+];
+
+const migration: Migration = {
+  version: 2,
+  name: 'graph_indexes',
+  up: async ({ driver }) => {
+    const session = driver.session();
+    try {
+      for (const index of INDEXES) {
+        await session.run(index);
+      }
+    } finally {
+      await session.close();
+    }
+  },
+};
+
+export default migration;
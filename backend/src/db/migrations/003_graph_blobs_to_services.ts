@@ -0,0 +1,38 @@
+import { GraphData } from '../graphRepository';
+import { saveGraphData } from '../graphStore';
+import { Migration } from './migration';
+
+/**
+ * Move graphs saved as a JSON string in `g.data` to services and
+ * dependencies
+ */
+const migration: Migration = {
+  version: 3,
+  name: 'graph_blobs_to_services',
+  up: async ({ driver, log }) => {
+    const session = driver.session();
+
+    try {
+      const result = await session.run(
+        'MATCH (g:Graph) WHERE g.data IS NOT NULL RETURN g.id as id, g.data as data'
+      );
+
+      for (const record of result.records) {
+        const graphId = record.get('id');
+        const data: GraphData = JSON.parse(record.get('data'));
+        await session.executeWrite(async tx => {
+          await saveGraphData(tx, graphId, data);
+          await tx.run('MATCH (g:Graph {id: $graphId}) REMOVE g.data', { graphId });
+        });
+      }
+
+      if (result.records.length > 0) {
+        log(`Moved ${result.records.length} graphs from JSON blobs to services and dependencies`);
+      }
+    } finally {
+      await session.close();
+    }
+  },
+};
+
+export default migration;
@@ -0,0 +1,34 @@
+import { summarizeGraph } from '../graphRepository';
+import { loadGraphData } from '../graphStore';
+import { Migration } from './migration';
+
+/**
+ * Compute the cached stats of graphs saved before they existed
+ */
+const migration: Migration = {
+  version: 4,
+  name: 'graph_stats',
+  up: async ({ driver, log }) => {
+    const session = driver.session();
+
+    try {
+      const result = await session.run('MATCH (g:Graph) WHERE g.nodeCount IS NULL RETURN g.id as id');
+
+      for (const record of result.records) {
+        const graphId = record.get('id');
+        const data = await loadGraphData(session, graphId);
+        if (data) {
+          await session.run('MATCH (g:Graph {id: $graphId}) SET g += $stats', { graphId, stats: summarizeGraph(data) });
+        }
+      }
+
+      if (result.records.length > 0) {
+        log(`Computed stats for ${result.records.length} graphs`);
+      }
+    } finally {
+      await session.close();
+    }
+  },
+};
+
+export default migration;
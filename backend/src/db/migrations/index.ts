@@ -0,0 +1,13 @@
+import { Migration } from './migration';
+import graphConstraints from './001_graph_constraints';
+import graphIndexes from './002_graph_indexes';
+import graphBlobsToServices from './003_graph_blobs_to_services';
+import graphStats from './004_graph_stats';
+
+export type { Migration, MigrationContext } from './migration';
+
+/**
+ * Every migration, in version order. Add new ones at the end with the next
+ * version; never renumber or edit one that has shipped.
+ */
+export const MIGRATIONS: Migration[] = [graphConstraints, graphIndexes, graphBlobsToServices, graphStats];
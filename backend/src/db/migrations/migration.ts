@@ -0,0 +1,19 @@
+import { Driver } from 'neo4j-driver';
+
+export interface MigrationContext {
+  driver: Driver;
+  log: (message: string) => void;
+}
+
+/**
+ * One step of the Neo4j schema. Versions are applied once, in increasing
+ * order, and recorded as (:Migration) nodes. Schema commands cannot share a
+ * transaction with data changes, so a migration that fails halfway is run
+ * again from the start: write every step so that repeating it is harmless
+ * (`IF NOT EXISTS`, `WHERE ... IS NULL`, MERGE).
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  up: (context: MigrationContext) => Promise<void>;
+}
@@ -0,0 +1,156 @@
+import os from 'os';
+import neo4j, { Driver, Neo4jError, Session } from 'neo4j-driver';
+import { MIGRATIONS, Migration } from './migrations';
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  appliedAt: string;
+  durationMs: number;
+}
+
+export interface MigrationStatus {
+  applied: AppliedMigration[];
+  pending: Migration[];
+  // Applied by a newer backend than this one
+  unknown: AppliedMigration[];
+}
+
+const LOCK_NAME = 'migrations';
+
+const describeMigration = ({ version, name }: { version: number; name: string }) => `${version} ${name}`;
+
+// The runner's own schema, so it can record migrations and hold its lock
+const bootstrap = async (session: Session) => {
+  await session.run('CREATE CONSTRAINT migration_version IF NOT EXISTS FOR (m:Migration) REQUIRE m.version IS UNIQUE');
+  await session.run('CREATE CONSTRAINT migration_lock_name IF NOT EXISTS FOR (l:MigrationLock) REQUIRE l.name IS UNIQUE');
+};
+
+const loadStatus = async (session: Session): Promise<MigrationStatus> => {
+  const result = await session.run(
+    'MATCH (m:Migration) RETURN m { .version, .name, .appliedAt, .durationMs } as migration ORDER BY m.version'
+  );
+  const applied: AppliedMigration[] = result.records.map(record => {
+    const migration = record.get('migration');
+    return {
+      ...migration,
+      version: neo4j.integer.toNumber(migration.version),
+      durationMs: neo4j.integer.toNumber(migration.durationMs),
+    };
+  });
+  const appliedVersions = new Set(applied.map(migration => migration.version));
+  const knownVersions = new Set(MIGRATIONS.map(migration => migration.version));
+
+  return {
+    applied,
+    pending: MIGRATIONS.filter(migration => !appliedVersions.has(migration.version)),
+    unknown: applied.filter(migration => !knownVersions.has(migration.version)),
+  };
+};
+
+/**
+ * Which migrations the database has and which it still needs
+ */
+export const getMigrationStatus = async (driver: Driver): Promise<MigrationStatus> => {
+  const session = driver.session();
+
+  try {
+    return await loadStatus(session);
+  } finally {
+    await session.close();
+  }
+};
+
+/**
+ * Apply pending migrations in version order and return the ones applied.
+ * A (:MigrationLock) node keeps two backends starting at once from migrating
+ * together; the loser fails instead of waiting. Refuses to run against a
+ * database migrated by a newer backend.
+ */
+export const runMigrations = async (
+  driver: Driver,
+  log: (message: string) => void = console.log
+): Promise<AppliedMigration[]> => {
+  const session = driver.session();
+  const owner = `${os.hostname()}:${process.pid}`;
+
+  try {
+    await bootstrap(session);
+
+    const { pending, unknown } = await loadStatus(session);
+    if (unknown.length > 0) {
+      throw new Error(
+        `Database has migrations this backend does not know (${unknown.map(describeMigration).join(', ')}); upgrade the backend`
+      );
+    }
+    if (pending.length === 0) {
+      return [];
+    }
+
+    try {
+      await session.run('CREATE (:MigrationLock {name: $name, owner: $owner, lockedAt: $lockedAt})', {
+        name: LOCK_NAME,
+        owner,
+        lockedAt: new Date().toISOString(),
+      });
+    } catch (error) {
+      if (!(error instanceof Neo4jError) || error.code !== 'Neo.ClientError.Schema.ConstraintValidationFailed') {
+        throw error;
+      }
+      const lock = await session.run('MATCH (l:MigrationLock {name: $name}) RETURN l.owner as owner, l.lockedAt as lockedAt', {
+        name: LOCK_NAME,
+      });
+      const holder = lock.records[0];
+      throw new Error(
+        `Migrations are locked by ${holder?.get('owner')} since ${holder?.get('lockedAt')}. ` +
+          'If no other backend is migrating, release the lock with `npm run migrate -- unlock`'
+      );
+    }
+
+    try {
+      // Another backend may have finished migrating while we took the lock
+      const { pending: remaining } = await loadStatus(session);
+      const applied: AppliedMigration[] = [];
+
+      for (const migration of remaining) {
+        log(`Applying migration ${describeMigration(migration)}`);
+        const startedAt = Date.now();
+        await migration.up({ driver, log });
+
+        const record: AppliedMigration = {
+          version: migration.version,
+          name: migration.name,
+          appliedAt: new Date().toISOString(),
+          durationMs: Date.now() - startedAt,
+        };
+        await session.run('CREATE (m:Migration) SET m = $record', {
+          record: { ...record, version: neo4j.int(record.version), durationMs: neo4j.int(record.durationMs) },
+        });
+        applied.push(record);
+      }
+
+      return applied;
+    } finally {
+      await session.run('MATCH (l:MigrationLock {name: $name, owner: $owner}) DELETE l', { name: LOCK_NAME, owner });
+    }
+  } finally {
+    await session.close();
+  }
+};
+
+/**
+ * Remove the migration lock left by a backend that died while migrating.
+ * Returns false if there was no lock.
+ */
+export const releaseMigrationLock = async (driver: Driver): Promise<boolean> => {
+  const session = driver.session();
+
+  try {
+    const result = await session.run('MATCH (l:MigrationLock {name: $name}) DELETE l RETURN count(l) as released', {
+      name: LOCK_NAME,
+    });
+    return neo4j.integer.toNumber(result.records[0].get('released')) > 0;
+  } finally {
+    await session.close();
+  }
+};
@@ -0,0 +1,156 @@
+import { Driver, Session } from 'neo4j-driver';
+import {
+  AnalysisKind,
+  AnalysisRun,
+  AnalysisRunSummary,
+  EMPTY_GRAPH_STATS,
+  GraphData,
+  GraphMetadata,
+  GraphPage,
+  GraphQuery,
+  GraphRepository,
+  GraphSummary,
+  GraphVersion,
+  GraphVersionSummary,
+  SaveResult,
+  StoredGraph,
+  newGraphId,
+} from './graphRepository';
+import {
+  listGraphs,
+  createGraph,
+  updateGraphMetadata,
+  loadGraph,
+  loadGraphData,
+  saveGraphData,
+  deleteGraph,
+  lockGraph,
+  recordVersion,
+  listVersions,
+  loadVersion,
+  findAnalysisRun,
+  recordAnalysisRun,
+  listAnalysisRuns,
+  loadAnalysisRun,
+} from './graphStore';
+
+/**
+ * Graphs stored in Neo4j as services and dependencies (see graphStore.ts).
+ * Each call runs in its own session.
+ */
+export class Neo4jGraphRepository implements GraphRepository {
+  constructor(private driver: Driver) {}
+
+  listGraphs(query: GraphQuery): Promise<GraphPage> {
+    return this.withSession(session => listGraphs(session, query));
+  }
+
+  async createGraph(name: string, metadata: GraphMetadata): Promise<GraphSummary> {
+    const createdAt = new Date().toISOString();
+    const graph = { id: newGraphId(), name, createdAt, updatedAt: createdAt, ...metadata, stats: EMPTY_GRAPH_STATS };
+    await this.withSession(session => createGraph(session, graph));
+    return graph;
+  }
+
+  async createGraphWithData(
+    name: string,
+    metadata: GraphMetadata,
+    data: GraphData,
+    author: string,
+    message: string
+  ): Promise<StoredGraph> {
+    const createdAt = new Date().toISOString();
+    const graph = { id: newGraphId(), name, createdAt, updatedAt: createdAt, ...metadata, stats: EMPTY_GRAPH_STATS };
+    return this.withSession(session =>
+      session.executeWrite(async (tx): Promise<StoredGraph> => {
+        await createGraph(tx, graph);
+        await saveGraphData(tx, graph.id, data);
+        await recordVersion(tx, graph.id, data, author, message);
+        return (await loadGraph(tx, graph.id)) as StoredGraph;
+      })
+    );
+  }
+
+  updateGraph(graphId: string, changes: Partial<GraphMetadata> & { name?: string }): Promise<GraphSummary | null> {
+    return this.withSession(session => updateGraphMetadata(session, graphId, changes));
+  }
+
+  getGraph(graphId: string): Promise<StoredGraph | null> {
+    return this.withSession(session => loadGraph(session, graphId));
+  }
+
+  getGraphData(graphId: string): Promise<GraphData | null> {
+    return this.withSession(session => loadGraphData(session, graphId));
+  }
+
+  saveGraph(
+    graphId: string,
+    data: GraphData,
+    expectedRevision: number | '*',
+    author: string,
+    message: string
+  ): Promise<SaveResult> {
+    return this.withSession(session =>
+      session.executeWrite(async (tx): Promise<SaveResult> => {
+        const revision = await lockGraph(tx, graphId);
+        if (revision === null) {
+          return { status: 'not-found' };
+        }
+        if (expectedRevision !== '*' && revision !== expectedRevision) {
+          return { status: 'conflict', revision };
+        }
+
+        // The version is recorded in the same transaction, so neither exists without the other
+        await saveGraphData(tx, graphId, data);
+        return { status: 'saved', version: await recordVersion(tx, graphId, data, author, message) };
+      })
+    );
+  }
+
+  deleteGraph(graphId: string): Promise<boolean> {
+    return this.withSession(session => session.executeWrite(tx => deleteGraph(tx, graphId)));
+  }
+
+  listVersions(graphId: string): Promise<GraphVersionSummary[] | null> {
+    return this.withSession(session => listVersions(session, graphId));
+  }
+
+  getVersion(graphId: string, version: number): Promise<GraphVersion | null> {
+    return this.withSession(session => loadVersion(session, graphId, version));
+  }
+
+  findAnalysisRun(
+    graphId: string,
+    kind: AnalysisKind,
+    contentHash: string,
+    parameters: Record<string, unknown>
+  ): Promise<AnalysisRun | null> {
+    return this.withSession(session => findAnalysisRun(session, graphId, kind, contentHash, parameters));
+  }
+
+  recordAnalysisRun(graphId: string, run: AnalysisRun): Promise<boolean> {
+    return this.withSession(session => session.executeWrite(tx => recordAnalysisRun(tx, graphId, run)));
+  }
+
+  listAnalysisRuns(graphId: string, kind: AnalysisKind | undefined, limit: number): Promise<AnalysisRunSummary[] | null> {
+    return this.withSession(session => listAnalysisRuns(session, graphId, kind, limit));
+  }
+
+  getAnalysisRun(graphId: string, runId: string): Promise<AnalysisRun | null> {
+    return this.withSession(session => loadAnalysisRun(session, graphId, runId));
+  }
+
+  close(): Promise<void> {
+    return this.driver.close();
+  }
+
+  private async withSession<T>(work: (session: Session) => Promise<T>): Promise<T> {
+    const session = this.driver.session();
+
+    try {
+      return await work(session);
+    } finally {
+      await session.close();
+    }
+  }
+}
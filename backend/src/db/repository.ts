@@ -0,0 +1,65 @@
+import { GraphRepository } from './graphRepository';
+import { Neo4jGraphRepository } from './neo4jGraphRepository';
+import { MemoryGraphRepository } from './memoryGraphRepository';
+import { connectNeo4j } from './neo4j';
+import { getMigrationStatus, runMigrations } from './migrator';
+
+export type StorageBackend = 'neo4j' | 'memory' | 'file';
+
+const STORAGE_BACKENDS: StorageBackend[] = ['neo4j', 'memory', 'file'];
+
+let repository: GraphRepository | null = null;
+
+/**
+ * Open the storage selected by STORAGE: `neo4j` (default), `memory`, or
+ * `file`, which keeps the memory store in the JSON file at STORAGE_FILE.
+ * Neo4j is migrated first, unless MIGRATE_ON_STARTUP is `false`; then the
+ * server only starts against a database that is already migrated.
+ */
+export const initRepository = async (): Promise<GraphRepository> => {
+  const storage = (process.env.STORAGE || 'neo4j') as StorageBackend;
+  if (!STORAGE_BACKENDS.includes(storage)) {
+    throw new Error(`STORAGE must be one of: ${STORAGE_BACKENDS.join(', ')}`);
+  }
+
+  if (storage === 'neo4j') {
+    const driver = await connectNeo4j();
+    console.log('Connected to Neo4j');
+
+    if (process.env.MIGRATE_ON_STARTUP === 'false') {
+      const { pending, unknown } = await getMigrationStatus(driver);
+      if (pending.length > 0 || unknown.length > 0) {
+        throw new Error('Database schema is not up to date; run `npm run migrate -- status` for details');
+      }
+    } else {
+      const applied = await runMigrations(driver);
+      if (applied.length > 0) {
+        console.log(`Applied ${applied.length} migrations`);
+      }
+    }
+
+    repository = new Neo4jGraphRepository(driver);
+  } else if (storage === 'file') {
+    const filePath = process.env.STORAGE_FILE || 'data/graphs.json';
+    repository = await MemoryGraphRepository.open(filePath);
+    console.log(`Storing graphs in ${filePath}`);
+  } else {
+    repository = await MemoryGraphRepository.open();
+    console.log('Storing graphs in memory; they are lost on restart');
+  }
+
+  return repository;
+};
+
+export const getRepository = (): GraphRepository => {
+  if (!repository) {
+    throw new Error('Graph repository not initialized');
+  }
+  return repository;
+};
+
+export const closeRepository = async () => {
+  if (repository) {
+    await repository.close();
+  }
+};
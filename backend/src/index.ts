@@ -2,7 +2,7 @@ import express, { Request, Response, NextFunction } from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
 import graphRoutes from './routes/graphs';
-import { connectNeo4j } from './db/neo4j';
+import { initRepository, closeRepository } from './db/repository';
 
 dotenv.config();
 
@@ -10,8 +10,10 @@ const app = express();
 const PORT = process.env.PORT || 3001;
 
 // Middleware
-app.use(cors());
-app.use(express.json());
+// Expose ETag so browser clients can read graph revisions
+app.use(cors({ exposedHeaders: ['ETag'] }));
+// Imports upload whole manifest directories, well past the 100kb default
+app.use(express.json({ limit: '10mb' }));
 
 // Routes
 app.use('/api/graphs', graphRoutes);
@@ -30,9 +32,8 @@ app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
 // Start server
 const startServer = async () => {
   try {
-    await connectNeo4j();
-    console.log('Connected to Neo4j');
-    
+    await initRepository();
+
     app.listen(PORT, () => {
       console.log(`Server is running on port ${PORT}`);
     });
@@ -47,5 +48,6 @@ startServer();
 // Graceful shutdown
 process.on('SIGINT', async () => {
   console.log('Shutting down gracefully...');
+  await closeRepository();
   process.exit(0);
 });
@@ -0,0 +1,49 @@
+import dotenv from 'dotenv';
+import { connectNeo4j, closeDriver } from './db/neo4j';
+import { getMigrationStatus, releaseMigrationLock, runMigrations } from './db/migrator';
+
+/**
+ * Neo4j migrations from the command line: `npm run migrate` applies pending
+ * migrations, `npm run migrate -- status` lists them, and
+ * `npm run migrate -- unlock` releases the lock of a run that died.
+ */
+
+const COMMANDS = ['up', 'status', 'unlock'];
+
+const main = async () => {
+  dotenv.config();
+
+  const command = process.argv[2] || 'up';
+  if (!COMMANDS.includes(command)) {
+    throw new Error(`Unknown command "${command}"; use one of: ${COMMANDS.join(', ')}`);
+  }
+  if ((process.env.STORAGE || 'neo4j') !== 'neo4j') {
+    console.log(`Nothing to migrate: migrations only apply to Neo4j storage, and STORAGE is ${process.env.STORAGE}`);
+    return;
+  }
+
+  const driver = await connectNeo4j();
+  try {
+    if (command === 'status') {
+      const { applied, pending, unknown } = await getMigrationStatus(driver);
+      applied.forEach(migration => console.log(`applied  ${migration.version} ${migration.name} (${migration.appliedAt})`));
+      pending.forEach(migration => console.log(`pending  ${migration.version} ${migration.name}`));
+      unknown.forEach(migration => console.log(`unknown  ${migration.version} ${migration.name}: applied by a newer backend`));
+      if (pending.length === 0 && unknown.length === 0) {
+        console.log('Database is up to date');
+      }
+    } else if (command === 'unlock') {
+      console.log((await releaseMigrationLock(driver)) ? 'Released the migration lock' : 'Migrations were not locked');
+    } else {
+      const applied = await runMigrations(driver);
+      console.log(applied.length > 0 ? `Applied ${applied.length} migrations` : 'Database is up to date');
+    }
+  } finally {
+    await closeDriver();
+  }
+};
+
+main().catch(error => {
+  console.error('Migration failed:', error.message ?? error);
+  process.exit(1);
+});
@@ -1,151 +1,723 @@
 import { Router, Request, Response } from 'express';
-import { getDriver } from '../db/neo4j';
-import { GraphAnalyzer } from '../services/graphAnalyzer';
+import { getRepository } from '../db/repository';
+import {
+  AnalysisKind,
+  GraphMetadata,
+  GraphQuery,
+  GraphRepository,
+  GraphSortField,
+  GraphSummary,
+  GRAPH_SORT_FIELDS,
+  StoredGraph,
+  graphSortValue,
+} from '../db/graphRepository';
+import { GraphAnalyzer, EdgeFilter, EdgeKind, EDGE_KINDS } from '../services/graphAnalyzer';
+import { GraphSimulator } from '../services/graphSimulator';
+import { diffGraphs } from '../services/graphDiff';
+import { validateGraphData, SchemaViolation } from '../services/graphSchema';
+import { cloneGraphData, mergeGraphs, MergeSource } from '../services/graphMerge';
+import { runCachedAnalysis, CachedAnalysis } from '../services/analysisRuns';
+import { GraphImportResult, ImportFile } from '../services/graphImport';
+import { importComposeFiles } from '../services/composeImport';
+import { importKubernetesManifests } from '../services/kubernetesImport';
 import aiSuggestionService from '../services/aiSuggestionService';
+import fixRecommender from '../services/fixRecommender';
 
 const router = Router();
 const analyzer = new GraphAnalyzer();
+const simulator = new GraphSimulator(analyzer);
 
-interface GraphData {
-  nodes: any[];
-  edges: any[];
+const MAX_CYCLE_PAGE_SIZE = 500;
+const MAX_CYCLE_TIME_BUDGET_MS = 30000;
+const MAX_BOUNDED_CYCLE_LENGTH = 8;
+const MAX_DEPENDENCY_PATHS = 20;
+const MAX_COMMUNITY_RESOLUTION = 10;
+const MAX_VERSION_MESSAGE_LENGTH = 500;
+const DEFAULT_VERSION_AUTHOR = 'anonymous';
+const MAX_SCHEMA_VIOLATIONS = 100;
+const DEFAULT_GRAPH_PAGE_SIZE = 50;
+const MAX_GRAPH_PAGE_SIZE = 200;
+const MAX_GRAPH_NAME_LENGTH = 200;
+const MAX_DESCRIPTION_LENGTH = 2000;
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 50;
+const MAX_OWNER_TEAM_LENGTH = 100;
+const MAX_MERGED_GRAPHS = 20;
+const MAX_IMPORT_FILES = 500;
+const DEFAULT_ANALYSIS_RUNS_PAGE_SIZE = 50;
+const MAX_ANALYSIS_RUNS_PAGE_SIZE = 200;
+const ANALYSIS_KINDS: AnalysisKind[] = ['analyze', 'find-cycles', 'detect-tiny-cycles'];
+
+const isNonNegativeInteger = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+// Returns an error message when the cycle enumeration budget is malformed
+const validateCycleBudget = (maxCycles: unknown, timeBudgetMs: unknown): string | null => {
+  if (maxCycles !== undefined && (!isNonNegativeInteger(maxCycles) || maxCycles === 0)) {
+    return 'maxCycles must be a positive integer';
+  }
+
+  if (
+    timeBudgetMs !== undefined &&
+    (!isNonNegativeInteger(timeBudgetMs) || timeBudgetMs > MAX_CYCLE_TIME_BUDGET_MS)
+  ) {
+    return `timeBudgetMs must be an integer between 0 and ${MAX_CYCLE_TIME_BUDGET_MS}`;
+  }
+
+  return null;
+};
+
+// Version numbers arrive as path or query strings
+const parseVersion = (value: unknown): number | null => {
+  const version = Number(value);
+  return typeof value === 'string' && Number.isInteger(version) && version > 0 ? version : null;
+};
+
+// 422 body for GraphData that fails the schema; a badly broken graph can have thousands of violations
+const invalidGraphBody = (violations: SchemaViolation[]) => ({
+  error: 'Graph data is invalid',
+  violations: violations.slice(0, MAX_SCHEMA_VIOLATIONS),
+  violationCount: violations.length,
+});
+
+// Graph revisions are exchanged as strong ETags, e.g. "3"
+const revisionTag = (revision: number) => `"${revision}"`;
+
+// Expected revision from an If-Match header: one ETag, or * for any revision
+const parseIfMatch = (header: string | undefined): number | '*' | null => {
+  const value = header?.trim();
+  if (value === '*') {
+    return value;
+  }
+
+  const match = value?.match(/^"(\d+)"$/);
+  return match ? Number(match[1]) : null;
+};
+
+// Returns an error message when the author or message of a save is malformed
+const validateVersionInfo = (author: unknown, message: unknown): string | null => {
+  if (author !== undefined && (typeof author !== 'string' || author.trim() === '')) {
+    return 'author must be a non-empty string';
+  }
+
+  if (message !== undefined && (typeof message !== 'string' || message.length > MAX_VERSION_MESSAGE_LENGTH)) {
+    return `message must be a string of at most ${MAX_VERSION_MESSAGE_LENGTH} characters`;
+  }
+
+  return null;
+};
+
+// Name and metadata fields present in a create or update body, trimmed; tags are also deduplicated
+const parseGraphMetadata = (
+  body: Record<string, unknown>
+): { changes?: Partial<GraphMetadata> & { name?: string }; error?: string } => {
+  const { name, description, tags, ownerTeam } = body;
+  const changes: Partial<GraphMetadata> & { name?: string } = {};
+
+  if (name !== undefined) {
+    if (typeof name !== 'string' || name.trim() === '' || name.length > MAX_GRAPH_NAME_LENGTH) {
+      return { error: `name must be a non-empty string of at most ${MAX_GRAPH_NAME_LENGTH} characters` };
+    }
+    changes.name = name.trim();
+  }
+
+  if (description !== undefined) {
+    if (typeof description !== 'string' || description.length > MAX_DESCRIPTION_LENGTH) {
+      return { error: `description must be a string of at most ${MAX_DESCRIPTION_LENGTH} characters` };
+    }
+    changes.description = description.trim();
+  }
+
+  if (tags !== undefined) {
+    if (
+      !Array.isArray(tags) ||
+      !tags.every(tag => typeof tag === 'string' && tag.trim() !== '' && tag.length <= MAX_TAG_LENGTH)
+    ) {
+      return { error: `tags must be an array of non-empty strings of at most ${MAX_TAG_LENGTH} characters` };
+    }
+    changes.tags = Array.from(new Set(tags.map((tag: string) => tag.trim())));
+    if (changes.tags.length > MAX_TAGS) {
+      return { error: `A graph can have at most ${MAX_TAGS} tags` };
+    }
+  }
+
+  if (ownerTeam !== undefined) {
+    if (typeof ownerTeam !== 'string' || ownerTeam.length > MAX_OWNER_TEAM_LENGTH) {
+      return { error: `ownerTeam must be a string of at most ${MAX_OWNER_TEAM_LENGTH} characters` };
+    }
+    changes.ownerTeam = ownerTeam.trim();
+  }
+
+  return { changes };
+};
+
+interface GraphCursor {
+  sort: GraphSortField;
+  order: 'asc' | 'desc';
+  value: string | number;
+  id: string;
 }
 
-// Get all graphs
-router.get('/', async (req: Request, res: Response) => {
-  const driver = getDriver();
-  const session = driver.session();
+// Cursors are opaque to clients: base64url JSON of the ordering and the last graph of the page
+const encodeCursor = (cursor: GraphCursor) => Buffer.from(JSON.stringify(cursor)).toString('base64url');
 
+const decodeCursor = (cursor: string): GraphCursor | null => {
   try {
-    const result = await session.run(
-      'MATCH (g:Graph) RETURN g.id as id, g.name as name, g.createdAt as createdAt ORDER BY g.createdAt DESC'
-    );
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    const validValue = typeof decoded?.value === 'string' || typeof decoded?.value === 'number';
+    return validValue && typeof decoded.id === 'string' ? decoded : null;
+  } catch {
+    return null;
+  }
+};
+
+// Parameters of GET /api/graphs; a request with none of them gets the unpaged list
+const GRAPH_LIST_PARAMETERS = ['q', 'tags', 'ownerTeam', 'sort', 'order', 'limit', 'cursor'];
+
+// Every graph, newest first, as GET /api/graphs returned before it was paged
+const listAllGraphs = async (repository: GraphRepository): Promise<GraphSummary[]> => {
+  const query: GraphQuery = { sort: 'createdAt', order: 'desc', limit: MAX_GRAPH_PAGE_SIZE };
+  const graphs: GraphSummary[] = [];
+  for (;;) {
+    const page = await repository.listGraphs(query);
+    graphs.push(...page.graphs);
+    const last = page.graphs[page.graphs.length - 1];
+    if (!page.hasMore || !last) {
+      return graphs;
+    }
+    query.after = { value: graphSortValue(last, query.sort), id: last.id };
+  }
+};
+
+// Builds the list query from GET /api/graphs parameters
+const parseGraphQuery = (query: Request['query']): { graphQuery?: GraphQuery; error?: string } => {
+  const { q, tags, ownerTeam, sort = 'createdAt', order = 'desc', cursor } = query;
+  const limit = query.limit === undefined ? DEFAULT_GRAPH_PAGE_SIZE : Number(query.limit);
+
+  if (!GRAPH_SORT_FIELDS.includes(sort as GraphSortField)) {
+    return { error: `sort must be one of: ${GRAPH_SORT_FIELDS.join(', ')}` };
+  }
+  if (order !== 'asc' && order !== 'desc') {
+    return { error: 'order must be asc or desc' };
+  }
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_GRAPH_PAGE_SIZE) {
+    return { error: `limit must be an integer between 1 and ${MAX_GRAPH_PAGE_SIZE}` };
+  }
+  if ([q, tags, ownerTeam, cursor].some(value => value !== undefined && typeof value !== 'string')) {
+    return { error: 'q, tags, ownerTeam and cursor must be single values' };
+  }
+
+  const graphQuery: GraphQuery = { sort: sort as GraphSortField, order, limit };
+  if (typeof q === 'string' && q.trim()) {
+    graphQuery.search = q.trim();
+  }
+  if (typeof tags === 'string') {
+    const tagList = tags.split(',').map(tag => tag.trim()).filter(Boolean);
+    if (tagList.length > 0) {
+      graphQuery.tags = tagList;
+    }
+  }
+  if (typeof ownerTeam === 'string' && ownerTeam.trim()) {
+    graphQuery.ownerTeam = ownerTeam.trim();
+  }
 
-    const graphs = result.records.map(record => ({
-      id: record.get('id'),
-      name: record.get('name'),
-      createdAt: record.get('createdAt'),
-    }));
+  if (typeof cursor === 'string') {
+    const after = decodeCursor(cursor);
+    // A cursor only makes sense for the ordering it was issued for
+    if (!after || after.sort !== graphQuery.sort || after.order !== graphQuery.order) {
+      return { error: 'cursor is invalid or does not match sort and order' };
+    }
+    graphQuery.after = { value: after.value, id: after.id };
+  }
 
-    res.json(graphs);
+  return { graphQuery };
+};
+
+// Response for a graph created with data: its summary with the stats and revision of the first save
+const createdGraphBody = ({ data, ...summary }: StoredGraph) => summary;
+
+// Uploaded files of an import body: an array of {name, content}
+const parseImportFiles = (files: unknown): { files?: ImportFile[]; error?: string } => {
+  if (
+    !Array.isArray(files) ||
+    files.length === 0 ||
+    files.length > MAX_IMPORT_FILES ||
+    !files.every(file => typeof file?.name === 'string' && file.name.trim() !== '' && typeof file.content === 'string')
+  ) {
+    return { error: `files must be an array of 1 to ${MAX_IMPORT_FILES} {name, content} objects` };
+  }
+
+  return { files: files.map(({ name, content }) => ({ name: name.trim(), content })) };
+};
+
+/**
+ * Shared by the import routes: validate the body, parse the files with
+ * `importFiles` and either preview the graph (dryRun) or create it with the
+ * import as its first version
+ */
+const importGraph = async (
+  req: Request,
+  res: Response,
+  source: string,
+  importFiles: (files: ImportFile[]) => { result?: GraphImportResult; error?: string }
+) => {
+  const { author, dryRun = false } = req.body;
+
+  const { files, error: filesError } = parseImportFiles(req.body.files);
+  if (!files) {
+    return res.status(400).json({ error: filesError });
+  }
+  if (typeof dryRun !== 'boolean') {
+    return res.status(400).json({ error: 'dryRun must be a boolean' });
+  }
+  if (!dryRun && !req.body.name) {
+    return res.status(400).json({ error: 'Name is required' });
+  }
+
+  const { changes, error: metadataError } = parseGraphMetadata(req.body);
+  if (!changes) {
+    return res.status(400).json({ error: metadataError });
+  }
+
+  const versionError = validateVersionInfo(author, undefined);
+  if (versionError) {
+    return res.status(400).json({ error: versionError });
+  }
+
+  const { result, error: importError } = importFiles(files);
+  if (!result) {
+    return res.status(400).json({ error: importError });
+  }
+  const violations = validateGraphData(result.data);
+  if (violations.length > 0) {
+    return res.status(422).json(invalidGraphBody(violations));
+  }
+
+  if (dryRun) {
+    return res.json(result);
+  }
+
+  const message = `Imported from ${source} files ${files.map(file => file.name).join(', ')}`;
+  const graph = await getRepository().createGraphWithData(
+    changes.name as string,
+    {
+      description: changes.description ?? message.slice(0, MAX_DESCRIPTION_LENGTH),
+      tags: changes.tags ?? [],
+      ownerTeam: changes.ownerTeam ?? '',
+    },
+    result.data,
+    author?.trim() || DEFAULT_VERSION_AUTHOR,
+    message.slice(0, MAX_VERSION_MESSAGE_LENGTH)
+  );
+
+  res.status(201).json({ graph: createdGraphBody(graph), warnings: result.warnings });
+};
+
+// Added to cached analysis responses: which run the result came from and whether it was just computed
+const runInfo = ({ run, cached }: CachedAnalysis<unknown>) => ({
+  id: run.id,
+  createdAt: run.createdAt,
+  contentHash: run.contentHash,
+  cached,
+});
+
+// Builds the optional edge-kind filter shared by the analysis routes
+const parseEdgeFilter = (
+  edgeKinds: unknown,
+  includeUntyped: unknown
+): { filter?: EdgeFilter; error?: string } => {
+  if (edgeKinds === undefined) {
+    return {};
+  }
+
+  if (
+    !Array.isArray(edgeKinds) ||
+    edgeKinds.length === 0 ||
+    !edgeKinds.every(kind => EDGE_KINDS.includes(kind))
+  ) {
+    return { error: `edgeKinds must be a non-empty array of: ${EDGE_KINDS.join(', ')}` };
+  }
+
+  if (includeUntyped !== undefined && typeof includeUntyped !== 'boolean') {
+    return { error: 'includeUntyped must be a boolean' };
+  }
+
+  return { filter: { kinds: edgeKinds as EdgeKind[], includeUntyped } };
+};
+
+// Same filter for GET routes, where edgeKinds is a comma-separated query parameter
+const parseEdgeFilterQuery = (query: Request['query']) =>
+  parseEdgeFilter(
+    typeof query.edgeKinds === 'string' ? query.edgeKinds.split(',') : query.edgeKinds,
+    query.includeUntyped === undefined ? undefined : query.includeUntyped === 'true'
+  );
+
+// List graphs, filtered, sorted and one page at a time
+router.get('/', async (req: Request, res: Response) => {
+  if (!GRAPH_LIST_PARAMETERS.some(name => req.query[name] !== undefined)) {
+    try {
+      return res.json(await listAllGraphs(getRepository()));
+    } catch (error) {
+      console.error('Error fetching graphs:', error);
+      return res.status(500).json({ error: 'Failed to fetch graphs' });
+    }
+  }
+
+  const { graphQuery, error: queryError } = parseGraphQuery(req.query);
+  if (!graphQuery) {
+    return res.status(400).json({ error: queryError });
+  }
+
+  try {
+    const { graphs, total, hasMore } = await getRepository().listGraphs(graphQuery);
+    const last = graphs[graphs.length - 1];
+
+    res.json({
+      graphs,
+      total,
+      nextCursor:
+        hasMore && last
+          ? encodeCursor({
+              sort: graphQuery.sort,
+              order: graphQuery.order,
+              value: graphSortValue(last, graphQuery.sort),
+              id: last.id,
+            })
+          : null,
+    });
   } catch (error) {
     console.error('Error fetching graphs:', error);
     res.status(500).json({ error: 'Failed to fetch graphs' });
-  } finally {
-    await session.close();
   }
 });
 
 // Get a specific graph
 router.get('/:id', async (req: Request, res: Response) => {
   const { id } = req.params;
-  const driver = getDriver();
-  const session = driver.session();
 
   try {
-    const result = await session.run(
-      'MATCH (g:Graph {id: $id}) RETURN g.id as id, g.name as name, g.data as data',
-      { id }
-    );
+    const graph = await getRepository().getGraph(id);
 
-    if (result.records.length === 0) {
+    if (!graph) {
       return res.status(404).json({ error: 'Graph not found' });
     }
 
-    const record = result.records[0];
-    const graph = {
-      id: record.get('id'),
-      name: record.get('name'),
-      data: record.get('data') ? JSON.parse(record.get('data')) : { nodes: [], edges: [] },
-    };
-
+    res.set('ETag', revisionTag(graph.revision));
     res.json(graph);
   } catch (error) {
     console.error('Error fetching graph:', error);
     res.status(500).json({ error: 'Failed to fetch graph' });
-  } finally {
-    await session.close();
   }
 });
 
 // Create a new graph
 router.post('/', async (req: Request, res: Response) => {
-  const { name } = req.body;
+  if (!req.body.name) {
+    return res.status(400).json({ error: 'Name is required' });
+  }
+
+  const { changes, error: metadataError } = parseGraphMetadata(req.body);
+  if (!changes) {
+    return res.status(400).json({ error: metadataError });
+  }
+
+  try {
+    const graph = await getRepository().createGraph(changes.name as string, {
+      description: changes.description ?? '',
+      tags: changes.tags ?? [],
+      ownerTeam: changes.ownerTeam ?? '',
+    });
+
+    res.status(201).json(graph);
+  } catch (error) {
+    console.error('Error creating graph:', error);
+    res.status(500).json({ error: 'Failed to create graph' });
+  }
+});
+
+// Merge graphs into a new one, unifying services with the same label; with dryRun, only preview the result
+router.post('/merge', async (req: Request, res: Response) => {
+  const { graphIds, author, dryRun = false } = req.body;
 
-  if (!name) {
+  if (
+    !Array.isArray(graphIds) ||
+    graphIds.length < 2 ||
+    graphIds.length > MAX_MERGED_GRAPHS ||
+    !graphIds.every(graphId => typeof graphId === 'string')
+  ) {
+    return res.status(400).json({ error: `graphIds must be an array of 2 to ${MAX_MERGED_GRAPHS} graph ids` });
+  }
+  if (new Set(graphIds).size !== graphIds.length) {
+    return res.status(400).json({ error: 'graphIds must not repeat a graph' });
+  }
+  if (typeof dryRun !== 'boolean') {
+    return res.status(400).json({ error: 'dryRun must be a boolean' });
+  }
+  if (!dryRun && !req.body.name) {
     return res.status(400).json({ error: 'Name is required' });
   }
 
-  const driver = getDriver();
-  const session = driver.session();
-  const id = `graph_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+  const { changes, error: metadataError } = parseGraphMetadata(req.body);
+  if (!changes) {
+    return res.status(400).json({ error: metadataError });
+  }
+
+  const versionError = validateVersionInfo(author, undefined);
+  if (versionError) {
+    return res.status(400).json({ error: versionError });
+  }
 
   try {
-    await session.run(
-      'CREATE (g:Graph {id: $id, name: $name, createdAt: $createdAt, data: $data})',
-      {
-        id,
-        name,
-        createdAt: new Date().toISOString(),
-        data: JSON.stringify({ nodes: [], edges: [] }),
+    const repository = getRepository();
+    const sources: MergeSource[] = [];
+    const tags = new Set<string>();
+
+    for (const graphId of graphIds as string[]) {
+      const graph = await repository.getGraph(graphId);
+      if (!graph) {
+        return res.status(404).json({ error: `Graph ${graphId} not found` });
       }
+      sources.push({ graphId, name: graph.name, data: graph.data });
+      graph.tags.forEach(tag => tags.add(tag));
+    }
+
+    const merge = mergeGraphs(sources);
+    const violations = validateGraphData(merge.data);
+    if (violations.length > 0) {
+      return res.status(422).json(invalidGraphBody(violations));
+    }
+
+    if (dryRun) {
+      return res.json(merge);
+    }
+
+    const names = sources.map(source => `"${source.name}"`).join(', ');
+    const graph = await repository.createGraphWithData(
+      changes.name as string,
+      {
+        description: changes.description ?? `Merged from ${names}`.slice(0, MAX_DESCRIPTION_LENGTH),
+        tags: changes.tags ?? Array.from(tags).slice(0, MAX_TAGS),
+        ownerTeam: changes.ownerTeam ?? '',
+      },
+      merge.data,
+      author?.trim() || DEFAULT_VERSION_AUTHOR,
+      `Merged from ${names}`
     );
 
-    res.status(201).json({ id, name });
+    const { data, ...report } = merge;
+    res.status(201).json({ graph: createdGraphBody(graph), ...report });
   } catch (error) {
-    console.error('Error creating graph:', error);
-    res.status(500).json({ error: 'Failed to create graph' });
-  } finally {
-    await session.close();
+    console.error('Error merging graphs:', error);
+    res.status(500).json({ error: 'Failed to merge graphs' });
+  }
+});
+
+// Create a graph from docker-compose files; with dryRun, only preview it
+router.post('/import/compose', async (req: Request, res: Response) => {
+  try {
+    await importGraph(req, res, 'docker-compose', importComposeFiles);
+  } catch (error) {
+    console.error('Error importing docker-compose files:', error);
+    res.status(500).json({ error: 'Failed to import docker-compose files' });
+  }
+});
+
+// Create a graph from Kubernetes manifests or `helm template` output; with dryRun, only preview it
+router.post('/import/kubernetes', async (req: Request, res: Response) => {
+  try {
+    await importGraph(req, res, 'Kubernetes', importKubernetesManifests);
+  } catch (error) {
+    console.error('Error importing Kubernetes manifests:', error);
+    res.status(500).json({ error: 'Failed to import Kubernetes manifests' });
+  }
+});
+
+// Rename a graph or change its description, tags or owner team
+router.patch('/:id', async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { changes, error: metadataError } = parseGraphMetadata(req.body);
+
+  if (!changes) {
+    return res.status(400).json({ error: metadataError });
+  }
+  if (Object.keys(changes).length === 0) {
+    return res.status(400).json({ error: 'Nothing to update: send name, description, tags or ownerTeam' });
+  }
+
+  try {
+    const graph = await getRepository().updateGraph(id, changes);
+
+    if (!graph) {
+      return res.status(404).json({ error: 'Graph not found' });
+    }
+
+    res.json(graph);
+  } catch (error) {
+    console.error('Error updating graph details:', error);
+    res.status(500).json({ error: 'Failed to update graph details' });
   }
 });
 
-// Update a graph
+// Update a graph if it is still at the revision in If-Match
 router.put('/:id', async (req: Request, res: Response) => {
   const { id } = req.params;
-  const { data } = req.body;
+  const { data, author, message } = req.body;
 
   if (!data) {
     return res.status(400).json({ error: 'Data is required' });
   }
 
-  const driver = getDriver();
-  const session = driver.session();
+  const violations = validateGraphData(data);
+  if (violations.length > 0) {
+    return res.status(422).json(invalidGraphBody(violations));
+  }
+
+  const versionError = validateVersionInfo(author, message);
+  if (versionError) {
+    return res.status(400).json({ error: versionError });
+  }
+
+  if (req.get('If-Match') === undefined) {
+    // Clients written before revisions existed end up here; * keeps their last-save-wins behaviour
+    return res.status(428).json({
+      error: 'If-Match header with the graph revision is required: send the ETag of GET /api/graphs/:id, or * to overwrite',
+    });
+  }
+
+  const expectedRevision = parseIfMatch(req.get('If-Match'));
+  if (expectedRevision === null) {
+    return res.status(400).json({ error: 'If-Match must be a graph revision ETag such as "3", or *' });
+  }
 
   try {
-    const result = await session.run(
-      'MATCH (g:Graph {id: $id}) SET g.data = $data RETURN g',
-      { id, data: JSON.stringify(data) }
+    const repository = getRepository();
+    const result = await repository.saveGraph(
+      id,
+      data,
+      expectedRevision,
+      author?.trim() || DEFAULT_VERSION_AUTHOR,
+      message || ''
     );
 
-    if (result.records.length === 0) {
+    if (result.status === 'not-found') {
       return res.status(404).json({ error: 'Graph not found' });
     }
 
-    res.json({ message: 'Graph updated successfully' });
+    if (result.status === 'conflict') {
+      // Someone saved since this client loaded the graph; send what they saved so it can be merged
+      const current = await repository.getGraph(id);
+      if (!current) {
+        return res.status(404).json({ error: 'Graph not found' });
+      }
+      const latest = current.revision > 0 ? await repository.getVersion(id, current.revision) : null;
+
+      res.set('ETag', revisionTag(current.revision));
+      return res.status(409).json({
+        error: 'Graph was modified since it was loaded',
+        revision: current.revision,
+        data: current.data,
+        lastSave: latest && { author: latest.author, message: latest.message, createdAt: latest.createdAt },
+      });
+    }
+
+    res.set('ETag', revisionTag(result.version));
+    res.json({ message: 'Graph updated successfully', version: result.version, revision: result.version });
   } catch (error) {
     console.error('Error updating graph:', error);
     res.status(500).json({ error: 'Failed to update graph' });
-  } finally {
-    await session.close();
+  }
+});
+
+// Copy a graph, or one of its versions, into a new graph with fresh service and dependency ids
+router.post('/:id/clone', async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { author } = req.body;
+  const version = req.body.version === undefined ? undefined : parseVersion(String(req.body.version));
+
+  if (version === null) {
+    return res.status(400).json({ error: 'version must be a positive integer' });
+  }
+
+  const { changes, error: metadataError } = parseGraphMetadata(req.body);
+  if (!changes) {
+    return res.status(400).json({ error: metadataError });
+  }
+
+  const versionError = validateVersionInfo(author, undefined);
+  if (versionError) {
+    return res.status(400).json({ error: versionError });
+  }
+
+  try {
+    const repository = getRepository();
+    const original = await repository.getGraph(id);
+
+    if (!original) {
+      return res.status(404).json({ error: 'Graph not found' });
+    }
+
+    const snapshot = version === undefined ? original.data : (await repository.getVersion(id, version))?.data;
+    if (!snapshot) {
+      return res.status(404).json({ error: 'Version not found' });
+    }
+
+    const data = cloneGraphData(snapshot);
+    const violations = validateGraphData(data);
+    if (violations.length > 0) {
+      return res.status(422).json(invalidGraphBody(violations));
+    }
+
+    const source = version === undefined ? `"${original.name}"` : `version ${version} of "${original.name}"`;
+    const graph = await repository.createGraphWithData(
+      changes.name ?? `${original.name} (copy)`,
+      {
+        description: changes.description ?? original.description,
+        tags: changes.tags ?? original.tags,
+        ownerTeam: changes.ownerTeam ?? original.ownerTeam,
+      },
+      data,
+      author?.trim() || DEFAULT_VERSION_AUTHOR,
+      `Cloned from ${source}`
+    );
+
+    res.status(201).json(createdGraphBody(graph));
+  } catch (error) {
+    console.error('Error cloning graph:', error);
+    res.status(500).json({ error: 'Failed to clone graph' });
+  }
+});
+
+// Check graph data against the schema without saving it; without data, check the stored graph
+router.post('/:id/validate', async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  try {
+    const graphData = await getRepository().getGraphData(id);
+
+    if (!graphData) {
+      return res.status(404).json({ error: 'Graph not found' });
+    }
+
+    const violations = validateGraphData(req.body.data === undefined ? graphData : req.body.data);
+    res.json({
+      valid: violations.length === 0,
+      violations: violations.slice(0, MAX_SCHEMA_VIOLATIONS),
+      violationCount: violations.length,
+    });
+  } catch (error) {
+    console.error('Error validating graph:', error);
+    res.status(500).json({ error: 'Failed to validate graph' });
   }
 });
 
 // Delete a graph
 router.delete('/:id', async (req: Request, res: Response) => {
   const { id } = req.params;
-  const driver = getDriver();
-  const session = driver.session();
 
   try {
-    const result = await session.run(
-      'MATCH (g:Graph {id: $id}) DELETE g RETURN count(g) as deleted',
-      { id }
-    );
+    const deleted = await getRepository().deleteGraph(id);
 
-    const deleted = result.records[0].get('deleted').toNumber();
-    
-    if (deleted === 0) {
+    if (!deleted) {
       return res.status(404).json({ error: 'Graph not found' });
     }
 
@@ -153,79 +725,595 @@ router.delete('/:id', async (req: Request, res: Response) => {
   } catch (error) {
     console.error('Error deleting graph:', error);
     res.status(500).json({ error: 'Failed to delete graph' });
-  } finally {
-    await session.close();
+  }
+});
+
+// List the saved versions of a graph, newest first
+router.get('/:id/versions', async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  try {
+    const versions = await getRepository().listVersions(id);
+
+    if (!versions) {
+      return res.status(404).json({ error: 'Graph not found' });
+    }
+
+    res.json(versions);
+  } catch (error) {
+    console.error('Error fetching versions:', error);
+    res.status(500).json({ error: 'Failed to fetch versions' });
+  }
+});
+
+// Get one version of a graph with its snapshot
+router.get('/:id/versions/:version', async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const version = parseVersion(req.params.version);
+
+  if (version === null) {
+    return res.status(400).json({ error: 'version must be a positive integer' });
+  }
+
+  try {
+    const snapshot = await getRepository().getVersion(id, version);
+
+    if (!snapshot) {
+      return res.status(404).json({ error: 'Version not found' });
+    }
+
+    res.json(snapshot);
+  } catch (error) {
+    console.error('Error fetching version:', error);
+    res.status(500).json({ error: 'Failed to fetch version' });
+  }
+});
+
+// Diff two versions of a graph; without `to`, diff against the current graph
+router.get('/:id/diff', async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const from = parseVersion(req.query.from);
+  const to = req.query.to === undefined ? undefined : parseVersion(req.query.to);
+
+  if (from === null || to === null) {
+    return res.status(400).json({ error: 'from and to must be positive integers' });
+  }
+
+  try {
+    const repository = getRepository();
+    const before = await repository.getVersion(id, from);
+    const after = to === undefined ? await repository.getGraphData(id) : (await repository.getVersion(id, to))?.data;
+
+    if (!before || !after) {
+      return res.status(404).json({ error: 'Version not found' });
+    }
+
+    res.json({ from, to: to ?? null, ...diffGraphs(before.data, after) });
+  } catch (error) {
+    console.error('Error diffing versions:', error);
+    res.status(500).json({ error: 'Failed to diff versions' });
+  }
+});
+
+// Restore a version by saving its snapshot as a new version
+router.post('/:id/versions/:version/restore', async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { author } = req.body;
+  const version = parseVersion(req.params.version);
+
+  if (version === null) {
+    return res.status(400).json({ error: 'version must be a positive integer' });
+  }
+
+  const versionError = validateVersionInfo(author, undefined);
+  if (versionError) {
+    return res.status(400).json({ error: versionError });
+  }
+
+  try {
+    const repository = getRepository();
+    const snapshot = await repository.getVersion(id, version);
+
+    if (!snapshot) {
+      return res.status(404).json({ error: 'Version not found' });
+    }
+
+    // Versions saved before writes were validated may not pass
+    const violations = validateGraphData(snapshot.data);
+    if (violations.length > 0) {
+      return res.status(422).json(invalidGraphBody(violations));
+    }
+
+    const result = await repository.saveGraph(
+      id,
+      snapshot.data,
+      '*',
+      author?.trim() || DEFAULT_VERSION_AUTHOR,
+      `Restored version ${version}`
+    );
+
+    if (result.status !== 'saved') {
+      return res.status(404).json({ error: 'Graph not found' });
+    }
+
+    res.set('ETag', revisionTag(result.version));
+    res.json({ message: `Restored version ${version}`, version: result.version, revision: result.version });
+  } catch (error) {
+    console.error('Error restoring version:', error);
+    res.status(500).json({ error: 'Failed to restore version' });
+  }
+});
+
+// Past analysis runs of a graph, newest first, without their results
+router.get('/:id/analysis-runs', async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { kind } = req.query;
+  const limit = req.query.limit === undefined ? DEFAULT_ANALYSIS_RUNS_PAGE_SIZE : Number(req.query.limit);
+
+  if (kind !== undefined && !ANALYSIS_KINDS.includes(kind as AnalysisKind)) {
+    return res.status(400).json({ error: `kind must be one of: ${ANALYSIS_KINDS.join(', ')}` });
+  }
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_ANALYSIS_RUNS_PAGE_SIZE) {
+    return res.status(400).json({ error: `limit must be an integer between 1 and ${MAX_ANALYSIS_RUNS_PAGE_SIZE}` });
+  }
+
+  try {
+    const runs = await getRepository().listAnalysisRuns(id, kind as AnalysisKind | undefined, limit);
+
+    if (!runs) {
+      return res.status(404).json({ error: 'Graph not found' });
+    }
+
+    res.json(runs);
+  } catch (error) {
+    console.error('Error fetching analysis runs:', error);
+    res.status(500).json({ error: 'Failed to fetch analysis runs' });
+  }
+});
+
+// One analysis run with its result
+router.get('/:id/analysis-runs/:runId', async (req: Request, res: Response) => {
+  const { id, runId } = req.params;
+
+  try {
+    const run = await getRepository().getAnalysisRun(id, runId);
+
+    if (!run) {
+      return res.status(404).json({ error: 'Analysis run not found' });
+    }
+
+    res.json(run);
+  } catch (error) {
+    console.error('Error fetching analysis run:', error);
+    res.status(500).json({ error: 'Failed to fetch analysis run' });
   }
 });
 
 // Analyze a graph
 router.post('/:id/analyze', async (req: Request, res: Response) => {
   const { id } = req.params;
-  const driver = getDriver();
-  const session = driver.session();
+  const { filter, error: filterError } = parseEdgeFilter(req.body.edgeKinds, req.body.includeUntyped);
+  if (filterError) {
+    return res.status(400).json({ error: filterError });
+  }
 
   try {
     // Fetch the graph
-    const result = await session.run(
-      'MATCH (g:Graph {id: $id}) RETURN g.data as data',
-      { id }
-    );
+    const repository = getRepository();
+    const graph = await repository.getGraph(id);
 
-    if (result.records.length === 0) {
+    if (!graph) {
       return res.status(404).json({ error: 'Graph not found' });
     }
 
-    const graphData: GraphData = JSON.parse(result.records[0].get('data'));
-
-    // Analyze the graph
-    const metrics = analyzer.calculateMetrics(graphData);
+    // Analyze the graph, unless it was already analyzed as it is now
+    const analysis = await runCachedAnalysis(
+      repository,
+      graph,
+      'analyze',
+      { filter },
+      () => analyzer.calculateMetrics(graph.data, filter),
+      metrics => ({
+        summary: {
+          nodeCount: metrics.nodeCount,
+          edgeCount: metrics.edgeCount,
+          sccCount: metrics.stronglyConnectedComponents.length,
+          cyclicServices: metrics.stronglyConnectedComponents.reduce((sum, component) => sum + component.length, 0),
+        },
+        cacheable: true,
+      })
+    );
 
+    // Positions are not part of the cache key, so the graph is always sent as it is now
     res.json({
-      metrics,
-      graphData,
+      metrics: analysis.result,
+      graphData: graph.data,
+      run: runInfo(analysis),
     });
   } catch (error) {
     console.error('Error analyzing graph:', error);
     res.status(500).json({ error: 'Failed to analyze graph' });
-  } finally {
-    await session.close();
+  }
+});
+
+// Analyze a hypothetical change without saving it
+router.post('/:id/simulate', async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { patch } = req.body;
+  const { filter, error: filterError } = parseEdgeFilter(req.body.edgeKinds, req.body.includeUntyped);
+  if (filterError) {
+    return res.status(400).json({ error: filterError });
+  }
+
+  try {
+    // Fetch the graph
+    const graphData = await getRepository().getGraphData(id);
+
+    if (!graphData) {
+      return res.status(404).json({ error: 'Graph not found' });
+    }
+
+    const patchError = simulator.validatePatch(graphData, patch);
+    if (patchError) {
+      return res.status(400).json({ error: patchError });
+    }
+
+    const simulation = simulator.simulate(graphData, patch, filter);
+
+    res.json(simulation);
+  } catch (error) {
+    console.error('Error simulating graph change:', error);
+    res.status(500).json({ error: 'Failed to simulate graph change' });
+  }
+});
+
+// Per-service centrality and coupling metrics
+router.post('/:id/service-metrics', async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { filter, error: filterError } = parseEdgeFilter(req.body.edgeKinds, req.body.includeUntyped);
+  if (filterError) {
+    return res.status(400).json({ error: filterError });
+  }
+
+  try {
+    // Fetch the graph
+    const graphData = await getRepository().getGraphData(id);
+
+    if (!graphData) {
+      return res.status(404).json({ error: 'Graph not found' });
+    }
+
+    const serviceMetrics = analyzer.calculateServiceMetrics(graphData, filter);
+
+    res.json(serviceMetrics);
+  } catch (error) {
+    console.error('Error calculating service metrics:', error);
+    res.status(500).json({ error: 'Failed to calculate service metrics' });
+  }
+});
+
+// Candidate bounded contexts from community detection
+router.post('/:id/communities', async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { resolution = 1 } = req.body;
+  const { filter, error: filterError } = parseEdgeFilter(req.body.edgeKinds, req.body.includeUntyped);
+  if (filterError) {
+    return res.status(400).json({ error: filterError });
+  }
+  if (typeof resolution !== 'number' || !(resolution > 0) || resolution > MAX_COMMUNITY_RESOLUTION) {
+    return res.status(400).json({ error: `resolution must be a number greater than 0 and at most ${MAX_COMMUNITY_RESOLUTION}` });
+  }
+
+  try {
+    // Fetch the graph
+    const graphData = await getRepository().getGraphData(id);
+
+    if (!graphData) {
+      return res.status(404).json({ error: 'Graph not found' });
+    }
+
+    const communities = analyzer.detectCommunities(graphData, resolution, filter);
+
+    res.json(communities);
+  } catch (error) {
+    console.error('Error detecting communities:', error);
+    res.status(500).json({ error: 'Failed to detect communities' });
+  }
+});
+
+// Articulation points, bridges and dominators from the entry points
+router.post('/:id/single-points-of-failure', async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { entryPoints } = req.body;
+  const { filter, error: filterError } = parseEdgeFilter(req.body.edgeKinds, req.body.includeUntyped);
+  if (filterError) {
+    return res.status(400).json({ error: filterError });
+  }
+  if (entryPoints !== undefined && (!Array.isArray(entryPoints) || entryPoints.some(nodeId => typeof nodeId !== 'string'))) {
+    return res.status(400).json({ error: 'entryPoints must be an array of node ids' });
+  }
+
+  try {
+    // Fetch the graph
+    const graphData = await getRepository().getGraphData(id);
+
+    if (!graphData) {
+      return res.status(404).json({ error: 'Graph not found' });
+    }
+
+    if (entryPoints?.some((nodeId: string) => !graphData.nodes.some(node => node.id === nodeId))) {
+      return res.status(404).json({ error: 'Nodes not found in graph' });
+    }
+
+    const report = analyzer.findSinglePointsOfFailure(graphData, entryPoints, filter);
+
+    res.json(report);
+  } catch (error) {
+    console.error('Error finding single points of failure:', error);
+    res.status(500).json({ error: 'Failed to find single points of failure' });
+  }
+});
+
+// Blast radius of a service: what depends on it and what it depends on
+router.get('/:id/impact/:nodeId', async (req: Request, res: Response) => {
+  const { id, nodeId } = req.params;
+  const { filter, error: filterError } = parseEdgeFilterQuery(req.query);
+  if (filterError) {
+    return res.status(400).json({ error: filterError });
+  }
+
+  try {
+    // Fetch the graph
+    const graphData = await getRepository().getGraphData(id);
+
+    if (!graphData) {
+      return res.status(404).json({ error: 'Graph not found' });
+    }
+
+    if (!graphData.nodes.some(node => node.id === nodeId)) {
+      return res.status(404).json({ error: 'Node not found in graph' });
+    }
+
+    const impact = analyzer.calculateImpact(graphData, nodeId, filter);
+
+    res.json(impact);
+  } catch (error) {
+    console.error('Error calculating impact:', error);
+    res.status(500).json({ error: 'Failed to calculate impact' });
+  }
+});
+
+// Shortest and alternative dependency paths from one service to another
+router.get('/:id/paths', async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { from, to } = req.query;
+  const maxPaths = req.query.maxPaths === undefined ? 5 : Number(req.query.maxPaths);
+
+  if (typeof from !== 'string' || typeof to !== 'string' || !from || !to) {
+    return res.status(400).json({ error: 'from and to query parameters are required' });
+  }
+
+  if (from === to) {
+    return res.status(400).json({ error: 'from and to must be different services' });
+  }
+
+  if (!Number.isInteger(maxPaths) || maxPaths < 1 || maxPaths > MAX_DEPENDENCY_PATHS) {
+    return res.status(400).json({ error: `maxPaths must be an integer between 1 and ${MAX_DEPENDENCY_PATHS}` });
+  }
+
+  const { filter, error: filterError } = parseEdgeFilterQuery(req.query);
+  if (filterError) {
+    return res.status(400).json({ error: filterError });
+  }
+
+  try {
+    // Fetch the graph
+    const graphData = await getRepository().getGraphData(id);
+
+    if (!graphData) {
+      return res.status(404).json({ error: 'Graph not found' });
+    }
+
+    if (!graphData.nodes.some(node => node.id === from) || !graphData.nodes.some(node => node.id === to)) {
+      return res.status(404).json({ error: 'Nodes not found in graph' });
+    }
+
+    const paths = analyzer.findDependencyPaths(graphData, from, to, maxPaths, filter);
+
+    res.json(paths);
+  } catch (error) {
+    console.error('Error finding dependency paths:', error);
+    res.status(500).json({ error: 'Failed to find dependency paths' });
   }
 });
 
 // Find elementary cycles in a component
 router.post('/:id/find-cycles', async (req: Request, res: Response) => {
   const { id } = req.params;
-  const { componentNodes } = req.body;
+  const { componentNodes, cursor = 0, limit = 50, maxCycles, timeBudgetMs } = req.body;
 
   if (!componentNodes || !Array.isArray(componentNodes)) {
     return res.status(400).json({ error: 'Component nodes array is required' });
   }
 
-  const driver = getDriver();
-  const session = driver.session();
+  if (!isNonNegativeInteger(cursor)) {
+    return res.status(400).json({ error: 'cursor must be a non-negative integer' });
+  }
+
+  if (!isNonNegativeInteger(limit) || limit === 0 || limit > MAX_CYCLE_PAGE_SIZE) {
+    return res.status(400).json({ error: `limit must be an integer between 1 and ${MAX_CYCLE_PAGE_SIZE}` });
+  }
+
+  const budgetError = validateCycleBudget(maxCycles, timeBudgetMs);
+  if (budgetError) {
+    return res.status(400).json({ error: budgetError });
+  }
+
+  const { filter, error: filterError } = parseEdgeFilter(req.body.edgeKinds, req.body.includeUntyped);
+  if (filterError) {
+    return res.status(400).json({ error: filterError });
+  }
 
   try {
     // Fetch the graph
-    const result = await session.run(
-      'MATCH (g:Graph {id: $id}) RETURN g.data as data',
-      { id }
-    );
+    const repository = getRepository();
+    const graph = await repository.getGraph(id);
 
-    if (result.records.length === 0) {
+    if (!graph) {
       return res.status(404).json({ error: 'Graph not found' });
     }
 
-    const graphData: GraphData = JSON.parse(result.records[0].get('data'));
-
-    // Find cycles in the component
-    const cycles = analyzer.findElementaryCycles(graphData, componentNodes);
+    // Enumerate cycles in the component, one page at a time
+    const budget = { cursor, limit, maxCycles, timeBudgetMs };
+    const analysis = await runCachedAnalysis(
+      repository,
+      graph,
+      'find-cycles',
+      { componentNodes, ...budget, filter },
+      () => analyzer.findElementaryCycles(graph.data, componentNodes, budget, filter),
+      page => ({
+        summary: { cycles: page.cycles.length, total: page.total },
+        // What fits in a time budget varies from run to run
+        cacheable: page.truncatedBy !== 'time',
+      })
+    );
 
-    res.json({ cycles });
+    res.json({ ...analysis.result, run: runInfo(analysis) });
   } catch (error) {
     console.error('Error finding cycles:', error);
     res.status(500).json({ error: 'Failed to find cycles' });
-  } finally {
-    await session.close();
+  }
+});
+
+// Find every simple cycle of up to maxLength services in a component
+router.post('/:id/bounded-cycles', async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { componentNodes, maxLength, maxCycles, timeBudgetMs } = req.body;
+
+  if (!componentNodes || !Array.isArray(componentNodes)) {
+    return res.status(400).json({ error: 'Component nodes array is required' });
+  }
+
+  if (!isNonNegativeInteger(maxLength) || maxLength < 2 || maxLength > MAX_BOUNDED_CYCLE_LENGTH) {
+    return res.status(400).json({ error: `maxLength must be an integer between 2 and ${MAX_BOUNDED_CYCLE_LENGTH}` });
+  }
+
+  const budgetError = validateCycleBudget(maxCycles, timeBudgetMs);
+  if (budgetError) {
+    return res.status(400).json({ error: budgetError });
+  }
+
+  const { filter, error: filterError } = parseEdgeFilter(req.body.edgeKinds, req.body.includeUntyped);
+  if (filterError) {
+    return res.status(400).json({ error: filterError });
+  }
+
+  try {
+    // Fetch the graph
+    const graphData = await getRepository().getGraphData(id);
+
+    if (!graphData) {
+      return res.status(404).json({ error: 'Graph not found' });
+    }
+
+    const boundedCycles = analyzer.findBoundedCycles(graphData, componentNodes, maxLength, {
+      maxCycles,
+      timeBudgetMs,
+    }, filter);
+
+    res.json(boundedCycles);
+  } catch (error) {
+    console.error('Error finding bounded cycles:', error);
+    res.status(500).json({ error: 'Failed to find bounded cycles' });
+  }
+});
+
+// Rank the edges and nodes of a component by the cycles passing through them
+router.post('/:id/cycle-criticality', async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { componentNodes, maxCycles, timeBudgetMs } = req.body;
+
+  if (!componentNodes || !Array.isArray(componentNodes)) {
+    return res.status(400).json({ error: 'Component nodes array is required' });
+  }
+
+  const budgetError = validateCycleBudget(maxCycles, timeBudgetMs);
+  if (budgetError) {
+    return res.status(400).json({ error: budgetError });
+  }
+
+  const { filter, error: filterError } = parseEdgeFilter(req.body.edgeKinds, req.body.includeUntyped);
+  if (filterError) {
+    return res.status(400).json({ error: filterError });
+  }
+
+  try {
+    // Fetch the graph
+    const graphData = await getRepository().getGraphData(id);
+
+    if (!graphData) {
+      return res.status(404).json({ error: 'Graph not found' });
+    }
+
+    const criticality = analyzer.rankCycleCriticality(graphData, componentNodes, {
+      maxCycles,
+      timeBudgetMs,
+    }, filter);
+
+    res.json(criticality);
+  } catch (error) {
+    console.error('Error ranking cycle criticality:', error);
+    res.status(500).json({ error: 'Failed to rank cycle criticality' });
+  }
+});
+
+// Collapse cycles into super-nodes and order the services into release waves
+router.post('/:id/condensation', async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { filter, error: filterError } = parseEdgeFilter(req.body.edgeKinds, req.body.includeUntyped);
+  if (filterError) {
+    return res.status(400).json({ error: filterError });
+  }
+
+  try {
+    // Fetch the graph
+    const graphData = await getRepository().getGraphData(id);
+
+    if (!graphData) {
+      return res.status(404).json({ error: 'Graph not found' });
+    }
+
+    const condensation = analyzer.buildCondensation(graphData, filter);
+
+    res.json(condensation);
+  } catch (error) {
+    console.error('Error building condensation:', error);
+    res.status(500).json({ error: 'Failed to build condensation' });
+  }
+});
+
+// Compute the minimum set of dependencies to cut to make the graph acyclic
+router.post('/:id/feedback-arc-set', async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { filter, error: filterError } = parseEdgeFilter(req.body.edgeKinds, req.body.includeUntyped);
+  if (filterError) {
+    return res.status(400).json({ error: filterError });
+  }
+
+  try {
+    // Fetch the graph
+    const graphData = await getRepository().getGraphData(id);
+
+    if (!graphData) {
+      return res.status(404).json({ error: 'Graph not found' });
+    }
+
+    const feedbackArcSet = analyzer.findFeedbackArcSet(graphData, filter);
+
+    res.json(feedbackArcSet);
+  } catch (error) {
+    console.error('Error computing feedback arc set:', error);
+    res.status(500).json({ error: 'Failed to compute feedback arc set' });
   }
 });
 
@@ -238,31 +1326,34 @@ router.post('/:id/detect-tiny-cycles', async (req: Request, res: Response) => {
     return res.status(400).json({ error: 'Component nodes array is required' });
   }
 
-  const driver = getDriver();
-  const session = driver.session();
+  const { filter, error: filterError } = parseEdgeFilter(req.body.edgeKinds, req.body.includeUntyped);
+  if (filterError) {
+    return res.status(400).json({ error: filterError });
+  }
 
   try {
     // Fetch the graph
-    const result = await session.run(
-      'MATCH (g:Graph {id: $id}) RETURN g.data as data',
-      { id }
-    );
+    const repository = getRepository();
+    const graph = await repository.getGraph(id);
 
-    if (result.records.length === 0) {
+    if (!graph) {
       return res.status(404).json({ error: 'Graph not found' });
     }
 
-    const graphData: GraphData = JSON.parse(result.records[0].get('data'));
-
     // Detect tiny cycles
-    const tinyCycles = analyzer.detectTinyCycles(graphData, componentNodes);
+    const analysis = await runCachedAnalysis(
+      repository,
+      graph,
+      'detect-tiny-cycles',
+      { componentNodes, filter },
+      () => analyzer.detectTinyCycles(graph.data, componentNodes, filter),
+      tinyCycles => ({ summary: { tinyCycles: tinyCycles.length }, cacheable: true })
+    );
 
-    res.json({ tinyCycles });
+    res.json({ tinyCycles: analysis.result, run: runInfo(analysis) });
   } catch (error) {
     console.error('Error detecting tiny cycles:', error);
     res.status(500).json({ error: 'Failed to detect tiny cycles' });
-  } finally {
-    await session.close();
   }
 });
 
@@ -275,22 +1366,14 @@ router.post('/:id/suggest-fix', async (req: Request, res: Response) => {
     return res.status(400).json({ error: 'node1 and node2 are required' });
   }
 
-  const driver = getDriver();
-  const session = driver.session();
-
   try {
     // Fetch the graph to get node labels
-    const result = await session.run(
-      'MATCH (g:Graph {id: $id}) RETURN g.data as data',
-      { id }
-    );
+    const graphData = await getRepository().getGraphData(id);
 
-    if (result.records.length === 0) {
+    if (!graphData) {
       return res.status(404).json({ error: 'Graph not found' });
     }
 
-    const graphData: GraphData = JSON.parse(result.records[0].get('data'));
-
     // Find the node labels
     const node1Data = graphData.nodes.find(n => n.id === node1);
     const node2Data = graphData.nodes.find(n => n.id === node2);
@@ -302,19 +1385,21 @@ router.post('/:id/suggest-fix', async (req: Request, res: Response) => {
     const node1Label = node1Data.data?.label || node1;
     const node2Label = node2Data.data?.label || node2;
 
-    // Get AI suggestion
-    const suggestion = await aiSuggestionService.suggestFix(
-      { node1, node2 },
-      node1Label,
-      node2Label
-    );
+    // Rule-based recommendations answer on their own without an AI key, and seed the AI prompt with one
+    const recommendations = fixRecommender.recommend(graphData, [node1, node2]);
+    if (aiSuggestionService.isEnabled()) {
+      try {
+        return res.json(await aiSuggestionService.suggestFix({ node1, node2 }, node1Label, node2Label, recommendations));
+      } catch (error) {
+        // An unavailable or failing AI service still leaves the rule-based suggestion
+        console.error('Error getting AI suggestion, falling back to rules:', error);
+      }
+    }
 
-    res.json(suggestion);
+    res.json(fixRecommender.suggestFix({ node1, node2 }, node1Label, node2Label, recommendations));
   } catch (error) {
     console.error('Error suggesting fix:', error);
     res.status(500).json({ error: 'Failed to generate suggestion' });
-  } finally {
-    await session.close();
   }
 });
 
@@ -1,4 +1,5 @@
 import { GoogleGenerativeAI } from '@google/generative-ai';
+import { FixRecommendation } from './fixRecommender';
 
 interface TinyCycle {
   node1: string;
@@ -9,12 +10,18 @@ interface SuggestionResponse {
   cycle: TinyCycle;
   suggestion: string;
   strategies: string[];
+  source: 'rules' | 'ai';
+  recommendations: FixRecommendation[];
 }
 
 class AISuggestionService {
   private genAI: GoogleGenerativeAI | null = null;
   private model: any = null;
 
+  isEnabled(): boolean {
+    return Boolean(process.env.GEMINI_API_KEY);
+  }
+
   private initialize() {
     if (this.genAI) return; // Already initialized
     
@@ -26,8 +33,21 @@ class AISuggestionService {
     this.model = this.genAI.getGenerativeModel({ model: 'gemini-2.5-flash' });
   }
 
-  async suggestFix(tinyCycle: TinyCycle, node1Label: string, node2Label: string): Promise<SuggestionResponse> {
+  async suggestFix(
+    tinyCycle: TinyCycle,
+    node1Label: string,
+    node2Label: string,
+    recommendations: FixRecommendation[] = []
+  ): Promise<SuggestionResponse> {
     this.initialize(); // Initialize on first use
+
+    // Start the model from what the rule-based recommender found in the graph
+    const findings = recommendations.length > 0
+      ? `\n\nA static analysis of the dependency graph suggests these patterns, best match first:
+${recommendations.map((r, i) => `${i + 1}. ${r.name}: ${r.rationale.join('; ')}`).join('\n')}
+
+Use these findings as a starting point: confirm, refine or reject them with reasons.`
+      : '';
     
     const prompt = `You are a microservices architecture expert. I have detected a tiny cycle (bidirectional dependency) between two microservices:
 
@@ -38,7 +58,7 @@ These two services have a circular dependency where they call each other directl
 - Tight coupling
 - Deployment challenges
 - Potential cascading failures
-- Difficult testing and maintenance
+- Difficult testing and maintenance${findings}
 
 Please provide:
 1. A brief explanation of why this is problematic (2-3 sentences)
@@ -65,12 +85,14 @@ Format your response as:
       const text = response.text();
 
       // Parse the response into structured data
-      const strategies = this.parseStrategies(text);
+      const strategies = this.parseStrategies(text, recommendations);
 
       return {
         cycle: tinyCycle,
         suggestion: text,
         strategies,
+        source: 'ai',
+        recommendations,
       };
     } catch (error) {
       console.error('Error calling Gemini API:', error);
@@ -78,7 +100,7 @@ Format your response as:
     }
   }
 
-  private parseStrategies(text: string): string[] {
+  private parseStrategies(text: string, recommendations: FixRecommendation[]): string[] {
     const strategies: string[] = [];
     const solutionRegex = /\*\*Solution \d+: ([^\*]+)\*\*/g;
     let match;
@@ -87,24 +109,25 @@ Format your response as:
       strategies.push(match[1].trim());
     }
 
-    // If parsing fails, return generic strategies
+    // If parsing fails, fall back to the rule-based recommendations
     if (strategies.length === 0) {
-      return [
-        'Introduce an intermediary service or event bus',
-        'Use asynchronous messaging patterns',
-        'Refactor to extract shared logic into a common service',
-      ];
+      return recommendations.map(recommendation => recommendation.name);
     }
 
     return strategies;
   }
 
   async suggestMultipleFixes(
-    tinyCycles: Array<{ cycle: TinyCycle; node1Label: string; node2Label: string }>
+    tinyCycles: Array<{
+      cycle: TinyCycle;
+      node1Label: string;
+      node2Label: string;
+      recommendations?: FixRecommendation[];
+    }>
   ): Promise<SuggestionResponse[]> {
     const suggestions = await Promise.all(
-      tinyCycles.map(({ cycle, node1Label, node2Label }) =>
-        this.suggestFix(cycle, node1Label, node2Label)
+      tinyCycles.map(({ cycle, node1Label, node2Label, recommendations }) =>
+        this.suggestFix(cycle, node1Label, node2Label, recommendations)
       )
     );
     return suggestions;
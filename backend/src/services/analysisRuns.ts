@@ -0,0 +1,105 @@
+import { createHash, randomUUID } from 'crypto';
+import { AnalysisKind, AnalysisRun, GraphRepository } from '../db/graphRepository';
+
+interface Node {
+  id: string;
+  data?: { label?: string };
+}
+
+interface Edge {
+  id: string;
+  source: string;
+  target: string;
+  label?: string;
+  kind?: string;
+}
+
+interface GraphData {
+  nodes: Node[];
+  edges: Edge[];
+}
+
+/**
+ * Part of every content hash. Bump it when an analysis changes what it
+ * returns, so results cached by the old code are recomputed.
+ */
+export const ANALYSIS_VERSION = 1;
+
+// JSON with object keys sorted, so equal values always serialize the same way
+export const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => stableStringify(item ?? null)).join(',')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.keys(value)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+/**
+ * Hash of what the analyses read from a graph: service ids and labels, and
+ * dependency ids, endpoints, labels and kinds. Positions and styling are
+ * left out, so moving services around keeps cached results. Order is kept,
+ * since cycle enumeration, and so its paging, follows it.
+ */
+export const hashGraphContent = (data: GraphData): string => {
+  const nodes = data.nodes.map(node => [node.id, node.data?.label ?? null]);
+  const edges = data.edges.map(edge => [edge.id, edge.source, edge.target, edge.label ?? null, edge.kind ?? null]);
+
+  return createHash('sha256')
+    .update(JSON.stringify([ANALYSIS_VERSION, nodes, edges]))
+    .digest('hex');
+};
+
+export interface CachedAnalysis<T> {
+  result: T;
+  run: AnalysisRun;
+  cached: boolean;
+}
+
+/**
+ * Return the stored result of this analysis if one was computed on the same
+ * content with the same parameters; otherwise compute it and store the run.
+ * Results that are not cacheable are never served again, so their runs are
+ * stored with the summary only.
+ */
+export const runCachedAnalysis = async <T>(
+  repository: GraphRepository,
+  graph: { id: string; revision: number; data: GraphData },
+  kind: AnalysisKind,
+  parameters: Record<string, unknown>,
+  compute: () => T,
+  describe: (result: T) => { summary: Record<string, number>; cacheable: boolean }
+): Promise<CachedAnalysis<T>> => {
+  const contentHash = hashGraphContent(graph.data);
+  // Drop undefined values, so leaving a parameter out and sending undefined match
+  const normalized: Record<string, unknown> = JSON.parse(stableStringify(parameters));
+
+  const cachedRun = await repository.findAnalysisRun(graph.id, kind, contentHash, normalized);
+  if (cachedRun) {
+    return { result: cachedRun.result as T, run: cachedRun, cached: true };
+  }
+
+  const startedAt = Date.now();
+  const result = compute();
+  const { summary, cacheable } = describe(result);
+  const run: AnalysisRun = {
+    id: randomUUID(),
+    kind,
+    contentHash,
+    parameters: normalized,
+    revision: graph.revision,
+    createdAt: new Date().toISOString(),
+    durationMs: Date.now() - startedAt,
+    summary,
+    cacheable,
+    ...(cacheable && { result }),
+  };
+  await repository.recordAnalysisRun(graph.id, run);
+
+  return { result, run, cached: false };
+};
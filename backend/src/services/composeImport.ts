@@ -0,0 +1,152 @@
+import { YAMLError, parse } from 'yaml';
+import {
+  GraphImportResult,
+  ImportFile,
+  ImportWarning,
+  ImportedDependency,
+  buildImportedGraph,
+  findHostReferences,
+  kindForScheme,
+} from './graphImport';
+
+interface ComposeService {
+  file: string;
+  name: string;
+  definition: Record<string, unknown>;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Lists such as links or network aliases, read as empty when missing or not a list
+const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+const asStrings = (value: unknown): string[] => asArray(value).filter((item): item is string => typeof item === 'string');
+
+// `links` entries are "service" or "service:alias"
+const parseLink = (link: string): { service: string; alias?: string } => {
+  const [service, alias] = link.split(':');
+  return { service, alias };
+};
+
+// Compose accepts both a list of KEY=value strings and a mapping
+const environmentEntries = (environment: unknown): [string, string][] => {
+  if (Array.isArray(environment)) {
+    return asStrings(environment)
+      .filter(entry => entry.includes('='))
+      .map(entry => [entry.slice(0, entry.indexOf('=')), entry.slice(entry.indexOf('=') + 1)]);
+  }
+  if (isObject(environment)) {
+    return Object.entries(environment)
+      .filter(([, value]) => value !== null && value !== undefined)
+      .map(([key, value]) => [key, String(value)]);
+  }
+  return [];
+};
+
+// Names other containers reach a service by: its name, hostname, container name and network aliases.
+// Link aliases are added separately, since they name the linked service.
+const hostNamesOf = ({ name, definition }: ComposeService): string[] => {
+  const names: unknown[] = [name, definition.hostname, definition.container_name];
+  if (isObject(definition.networks)) {
+    for (const network of Object.values(definition.networks)) {
+      if (isObject(network)) {
+        names.push(...asArray(network.aliases));
+      }
+    }
+  }
+  return names.filter((host): host is string => typeof host === 'string' && host !== '');
+};
+
+/**
+ * Parse docker-compose files into a graph. Files are combined like
+ * `docker compose -f a.yml -f b.yml`: a service declared in several files is
+ * one service. Dependencies come from `depends_on`, `links`, and environment
+ * variables whose value points at another service by URL, `host:port`, or,
+ * for keys like DB_HOST, by name. Returns an error if a file is not valid
+ * YAML or has no services.
+ */
+export const importComposeFiles = (files: ImportFile[]): { result?: GraphImportResult; error?: string } => {
+  const services: ComposeService[] = [];
+  const warnings: ImportWarning[] = [];
+
+  for (const file of files) {
+    let document: unknown;
+    try {
+      document = parse(file.content, { merge: true });
+    } catch (error) {
+      if (!(error instanceof YAMLError)) {
+        throw error;
+      }
+      return { error: `${file.name}: ${error.message}` };
+    }
+    if (!isObject(document) || !isObject(document.services)) {
+      return { error: `${file.name}: has no services; is it a docker-compose file?` };
+    }
+
+    for (const [name, definition] of Object.entries(document.services)) {
+      services.push({ file: file.name, name, definition: isObject(definition) ? definition : {} });
+    }
+  }
+
+  const serviceNames = Array.from(new Set(services.map(service => service.name)));
+  const serviceByHost = new Map<string, string>();
+  for (const service of services) {
+    hostNamesOf(service).forEach(host => serviceByHost.set(host.toLowerCase(), service.name));
+  }
+  for (const { definition } of services) {
+    asStrings(definition.links)
+      .map(parseLink)
+      .forEach(({ service, alias }) => {
+        if (alias && serviceNames.includes(service)) {
+          serviceByHost.set(alias.toLowerCase(), service);
+        }
+      });
+  }
+
+  const dependencies: ImportedDependency[] = [];
+  const declare = (service: ComposeService, target: string, label: string, key: string) => {
+    if (!serviceNames.includes(target)) {
+      warnings.push({ file: service.file, key, message: `${service.name} depends on unknown service "${target}"` });
+      return;
+    }
+    dependencies.push({ source: service.name, target, label, origin: { file: service.file, key } });
+  };
+
+  for (const service of services) {
+    const { file, name, definition } = service;
+
+    const dependsOn = definition.depends_on;
+    const dependsOnNames = isObject(dependsOn) ? Object.keys(dependsOn) : asStrings(dependsOn);
+    dependsOnNames.forEach(target => declare(service, target, 'depends_on', `services.${name}.depends_on`));
+
+    asStrings(definition.links).forEach(link =>
+      declare(service, parseLink(link).service, 'links', `services.${name}.links`)
+    );
+
+    for (const [variable, value] of environmentEntries(definition.environment)) {
+      for (const reference of findHostReferences(variable, value)) {
+        const target = serviceByHost.get(reference.host.toLowerCase());
+        if (target) {
+          dependencies.push({
+            source: name,
+            target,
+            label: `env ${variable}`,
+            kind: kindForScheme(reference.scheme),
+            origin: { file, key: `services.${name}.environment.${variable}` },
+          });
+        }
+      }
+    }
+
+    if (definition.env_file !== undefined) {
+      warnings.push({
+        file,
+        key: `services.${name}.env_file`,
+        message: `${name} reads variables from env_file, which is not imported; dependencies declared there are missing`,
+      });
+    }
+  }
+
+  return { result: { data: buildImportedGraph(serviceNames, dependencies), warnings } };
+};
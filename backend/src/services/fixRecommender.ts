@@ -0,0 +1,259 @@
+import { EdgeKind } from './graphAnalyzer';
+
+interface Node {
+  id: string;
+  data: { label: string };
+}
+
+interface Edge {
+  id: string;
+  source: string;
+  target: string;
+  label?: string;
+  kind?: EdgeKind;
+}
+
+interface GraphData {
+  nodes: Node[];
+  edges: Edge[];
+}
+
+interface TinyCycle {
+  node1: string;
+  node2: string;
+}
+
+export type FixPatternId =
+  | 'dependency-inversion'
+  | 'event-bus'
+  | 'merge-services'
+  | 'extract-shared-service'
+  | 'callback-to-event';
+
+interface FixPattern {
+  name: string;
+  steps: string[];
+}
+
+export interface FixRecommendation {
+  pattern: FixPatternId;
+  name: string;
+  // 0..1, how well the cycle matches the pattern
+  score: number;
+  rationale: string[];
+  steps: string[];
+  // The call the pattern changes, when it targets a single one
+  edge?: { id: string; source: string; target: string; label?: string };
+}
+
+interface SuggestionResponse {
+  cycle: TinyCycle;
+  suggestion: string;
+  strategies: string[];
+  source: 'rules' | 'ai';
+  recommendations: FixRecommendation[];
+}
+
+const PATTERN_CATALOG: Record<FixPatternId, FixPattern> = {
+  'callback-to-event': {
+    name: 'Turn the callback into an event',
+    steps: [
+      'Have the service making the callback publish a domain event instead',
+      'Let the original caller subscribe to that event',
+      'Remove the synchronous callback endpoint once consumers have moved',
+    ],
+  },
+  'event-bus': {
+    name: 'Introduce an event bus',
+    steps: [
+      'Pick the call in the cycle that does not need an immediate answer',
+      'Publish it as an event on a broker (Kafka, RabbitMQ, SNS/SQS)',
+      'Make the consumer idempotent and tolerant of delayed delivery',
+    ],
+  },
+  'extract-shared-service': {
+    name: 'Extract a shared service',
+    steps: [
+      'Identify the data or logic both services reach for',
+      'Move it into a new service that owns it and depends on neither',
+      'Point both services at the new service and retire the direct coupling',
+    ],
+  },
+  'dependency-inversion': {
+    name: 'Invert the dependency',
+    steps: [
+      'Define the contract the stable service needs as an interface or API it owns',
+      'Have the unstable service implement or register against that contract',
+      'Remove the direct call from the stable service to the unstable one',
+    ],
+  },
+  'merge-services': {
+    name: 'Merge the services',
+    steps: [
+      'Confirm the services change and deploy together',
+      'Merge them into one deployable with internal module boundaries',
+      'Replace the remote calls between them with in-process calls',
+    ],
+  },
+};
+
+// Labels that describe a call back into the caller rather than a request
+const CALLBACK_LABEL = /callback|notif|webhook|status|update|event|publish|emit|ack|confirm/i;
+// Share of the cycle services' calls that stay within the cycle before a merge is suggested
+const MERGE_COHESION_THRESHOLD = 0.5;
+
+/**
+ * Deterministic, offline cycle-fix recommender. Matches a cycle against a
+ * catalog of refactoring patterns using the kinds and labels of its calls,
+ * the coupling of its services and its length. Powers /suggest-fix without
+ * an AI key, and seeds the AI prompt when one is set.
+ */
+class FixRecommender {
+  /**
+   * Rank the catalog patterns for a cycle, given as its services in order
+   * (the last one depends on the first). Patterns that do not apply are
+   * left out; the best match comes first.
+   */
+  recommend(graphData: GraphData, cycle: string[]): FixRecommendation[] {
+    const label = (nodeId: string) => graphData.nodes.find(node => node.id === nodeId)?.data?.label || nodeId;
+    const members = new Set(cycle);
+    const cycleEdges = graphData.edges.filter(edge => {
+      const position = cycle.indexOf(edge.source);
+      return position !== -1 && edge.target === cycle[(position + 1) % cycle.length] && edge.source !== edge.target;
+    });
+    const describe = (edge: Edge) =>
+      `${label(edge.source)} → ${label(edge.target)}${edge.label ? ` ("${edge.label}")` : ''}`;
+
+    // Distinct dependents (Ca) and dependencies (Ce) per service
+    const dependents = new Map<string, Set<string>>();
+    const dependencies = new Map<string, Set<string>>();
+    for (const edge of graphData.edges) {
+      if (edge.source === edge.target) continue;
+      if (!dependencies.has(edge.source)) dependencies.set(edge.source, new Set());
+      if (!dependents.has(edge.target)) dependents.set(edge.target, new Set());
+      dependencies.get(edge.source)!.add(edge.target);
+      dependents.get(edge.target)!.add(edge.source);
+    }
+    const afferent = (nodeId: string) => dependents.get(nodeId)?.size || 0;
+    const efferent = (nodeId: string) => dependencies.get(nodeId)?.size || 0;
+    const instability = (nodeId: string) => {
+      const coupling = afferent(nodeId) + efferent(nodeId);
+      return coupling > 0 ? efferent(nodeId) / coupling : 0;
+    };
+
+    const recommendations: FixRecommendation[] = [];
+    const add = (pattern: FixPatternId, score: number, rationale: string[], edge?: Edge) => {
+      recommendations.push({
+        pattern,
+        name: PATTERN_CATALOG[pattern].name,
+        score: Math.min(1, score),
+        rationale,
+        steps: PATTERN_CATALOG[pattern].steps,
+        edge: edge && { id: edge.id, source: edge.source, target: edge.target, label: edge.label },
+      });
+    };
+
+    const synchronous = cycleEdges.filter(edge => edge.kind === 'sync-rpc' || edge.kind === undefined);
+    const callbacks = synchronous.filter(edge => edge.label && CALLBACK_LABEL.test(edge.label));
+    if (callbacks.length > 0) {
+      add('callback-to-event', 0.9, [
+        `${describe(callbacks[0])} reads like a callback or notification, yet it is a synchronous call`,
+        'Notifications rarely need an answer, so publishing an event breaks the cycle without losing behavior',
+      ], callbacks[0]);
+    }
+
+    const shared = cycleEdges.filter(edge => edge.kind === 'shared-db' || edge.kind === 'library');
+    if (shared.length > 0) {
+      const kind = shared[0].kind === 'shared-db' ? 'a shared database' : 'a shared library';
+      add('extract-shared-service', shared[0].kind === 'shared-db' ? 0.85 : 0.7, [
+        `${describe(shared[0])} couples the services through ${kind}, not a call`,
+        'Giving that data or code a single owner removes the hidden dependency in both directions',
+      ], shared[0]);
+    }
+
+    if (synchronous.length > 0) {
+      const rationale = [
+        `${synchronous.length} of the ${cycleEdges.length} calls in this cycle are synchronous` +
+          (synchronous.some(edge => edge.kind === undefined) ? ' or have no declared kind' : ''),
+        'A failure anywhere in a synchronous cycle can cascade back to its origin',
+      ];
+      if (cycle.length > 2) {
+        rationale.push(`The cycle spans ${cycle.length} services, so a broker decouples more than one hop`);
+      }
+      const score = 0.55 + 0.1 * Math.min(synchronous.length - 1, 2) + (cycle.length > 2 ? 0.1 : 0);
+      add('event-bus', score, rationale, synchronous.find(edge => !callbacks.includes(edge)) || synchronous[0]);
+    }
+
+    // Stable dependencies principle: calls should point toward the more stable service
+    const violations = cycleEdges
+      .map(edge => ({ edge, gap: instability(edge.target) - instability(edge.source) }))
+      .filter(({ gap }) => gap > 0)
+      .sort((a, b) => b.gap - a.gap);
+    if (violations.length > 0) {
+      const { edge, gap } = violations[0];
+      add('dependency-inversion', 0.45 + 0.45 * gap, [
+        `${label(edge.source)} is depended on by ${afferent(edge.source)} services (instability ` +
+          `${instability(edge.source).toFixed(2)}) but calls ${label(edge.target)} (instability ${instability(edge.target).toFixed(2)})`,
+        'Stable services should not depend on volatile ones; inverting this call lets the stable side own the contract',
+      ], edge);
+    }
+
+    // How much of the cycle services' traffic stays inside the cycle
+    const touching = graphData.edges.filter(edge =>
+      edge.source !== edge.target && (members.has(edge.source) || members.has(edge.target))
+    );
+    const internal = touching.filter(edge => members.has(edge.source) && members.has(edge.target));
+    const cohesion = touching.length > 0 ? internal.length / touching.length : 0;
+    if (cycle.length <= 3 && cohesion >= MERGE_COHESION_THRESHOLD) {
+      add('merge-services', 0.3 + 0.5 * cohesion, [
+        `${Math.round(cohesion * 100)}% of the calls to and from ${cycle.map(label).join(', ')} are between each other`,
+        'Services that mostly talk to each other are often one bounded context split too early',
+      ]);
+    }
+
+    if (recommendations.length === 0) {
+      // Every call is asynchronous already; the cycle mostly constrains deployment order
+      add('event-bus', 0.3, [
+        'All calls in this cycle are already asynchronous, so it cannot cascade failures synchronously',
+        'It still forces the services to be released together; make sure consumers tolerate missing events',
+      ]);
+    }
+
+    return recommendations.sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Render recommendations in the same shape as an AI suggestion, so the
+   * result page can show either
+   */
+  suggestFix(
+    tinyCycle: TinyCycle,
+    node1Label: string,
+    node2Label: string,
+    recommendations: FixRecommendation[]
+  ): SuggestionResponse {
+    const solutions = recommendations.map((recommendation, i) => [
+      `**Solution ${i + 1}: ${recommendation.name}**`,
+      ...recommendation.rationale.map(line => `- ${line}`),
+      '',
+      ...recommendation.steps.map((step, j) => `${j + 1}. ${step}`),
+    ].join('\n'));
+
+    const suggestion = [
+      `**Problem:** "${node1Label}" and "${node2Label}" depend on each other, so neither can be changed, ` +
+        'deployed or tested in isolation, and a failure in one can cascade to the other.',
+      ...solutions,
+      `**Recommended Approach:** ${recommendations[0].name}. ${recommendations[0].rationale[0]}.`,
+    ].join('\n\n');
+
+    return {
+      cycle: tinyCycle,
+      suggestion,
+      strategies: recommendations.map(recommendation => recommendation.name),
+      source: 'rules',
+      recommendations,
+    };
+  }
+}
+
+export default new FixRecommender();
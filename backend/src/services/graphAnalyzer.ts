@@ -1,16 +1,31 @@
 interface Node {
   id: string;
-  type: string;
+  type?: string;
   position: { x: number; y: number };
   data: { label: string };
 }
 
+export type EdgeKind = 'sync-rpc' | 'async-event' | 'shared-db' | 'library' | 'other';
+
+export const EDGE_KINDS: EdgeKind[] = ['sync-rpc', 'async-event', 'shared-db', 'library', 'other'];
+
 interface Edge {
   id: string;
   source: string;
   target: string;
   label?: string;
   type?: string;
+  kind?: EdgeKind;
+}
+
+/**
+ * Restricts an analysis to dependencies of the given kinds, e.g. only
+ * sync-rpc edges to find the cycles that can cascade failures
+ */
+export interface EdgeFilter {
+  kinds: EdgeKind[];
+  // Edges saved before kinds existed have none; they are dropped unless set
+  includeUntyped?: boolean;
 }
 
 interface GraphData {
@@ -31,16 +46,229 @@ interface GraphMetrics {
   multiEdges: number;
 }
 
+interface ServiceMetrics {
+  nodeId: string;
+  label: string;
+  inDegree: number;
+  outDegree: number;
+  // Martin's package metrics applied to services: Ca counts the services that
+  // depend on this one, Ce the services it depends on, I = Ce / (Ca + Ce)
+  afferentCoupling: number;
+  efferentCoupling: number;
+  instability: number;
+  pageRank: number;
+  betweenness: number;
+}
+
+interface ServiceMetricsReport {
+  services: ServiceMetrics[];
+  betweennessSampled: boolean;
+}
+
+interface Community {
+  id: string;
+  nodes: string[];
+  // Dependencies between two members vs. dependencies leaving or entering
+  internalEdges: number;
+  externalEdges: number;
+}
+
+interface CommunityCoupling {
+  source: string;
+  target: string;
+  edgeCount: number;
+  edges: Array<{ id: string; source: string; target: string; label?: string }>;
+}
+
+interface CommunityReport {
+  communities: Community[];
+  // Community id of every service
+  assignment: Record<string, string>;
+  modularity: number;
+  resolution: number;
+  // Dependencies crossing community boundaries, grouped by direction, worst first
+  hotSpots: CommunityCoupling[];
+}
+
+interface DominatorTreeNode {
+  nodeId: string;
+  // null when the node is an entry point or reachable from several of them
+  immediateDominator: string | null;
+  // Services that can only be reached from the entry points through this one
+  dominatedCount: number;
+}
+
+interface SinglePointsOfFailure {
+  // Services whose failure splits the (undirected) dependency graph
+  articulationPoints: string[];
+  // Dependencies that are the only link between two parts of the graph
+  bridges: Array<{ id: string; source: string; target: string; label?: string }>;
+  entryPoints: string[];
+  // Every service reachable from the entry points
+  dominatorTree: DominatorTreeNode[];
+  // Non-entry services that dominate others, most dominated services first
+  chokepoints: DominatorTreeNode[];
+}
+
+interface ImpactedService {
+  nodeId: string;
+  depth: number;
+}
+
+interface ImpactAnalysis {
+  nodeId: string;
+  // Services that transitively depend on the node and break if it fails
+  upstream: ImpactedService[];
+  // Services the node transitively depends on
+  downstream: ImpactedService[];
+}
+
+interface PathHop {
+  source: string;
+  target: string;
+  // Every parallel edge between the pair, so each call is visible
+  edgeIds: string[];
+  labels: string[];
+}
+
+interface DependencyPath {
+  nodes: string[];
+  hops: PathHop[];
+  length: number;
+}
+
+interface DependencyPaths {
+  from: string;
+  to: string;
+  shortest: DependencyPath | null;
+  alternatives: DependencyPath[];
+}
+
 interface Cycle {
   nodes: string[];
   length: number;
 }
 
+interface CycleBudget {
+  maxCycles?: number;
+  timeBudgetMs?: number;
+}
+
+interface CycleSearchOptions extends CycleBudget {
+  cursor?: number;
+  limit?: number;
+}
+
+interface CycleRun {
+  total: number;
+  truncatedBy: 'count' | 'time' | null;
+  elapsedMs: number;
+}
+
+interface CyclePage {
+  cycles: Cycle[];
+  total: number;
+  cursor: number;
+  limit: number;
+  nextCursor: number | null;
+  complete: boolean;
+  truncatedBy: 'count' | 'time' | null;
+  elapsedMs: number;
+}
+
+interface BoundedCycles {
+  cycles: Cycle[];
+  maxLength: number;
+  total: number;
+  complete: boolean;
+  truncatedBy: 'count' | 'time' | null;
+  elapsedMs: number;
+}
+
+interface CriticalityScore {
+  cycleCount: number;
+  weightedScore: number;
+}
+
+interface EdgeCriticality extends CriticalityScore {
+  edgeId: string;
+  source: string;
+  target: string;
+  label?: string;
+}
+
+interface NodeCriticality extends CriticalityScore {
+  nodeId: string;
+}
+
+interface CycleCriticality {
+  edges: EdgeCriticality[];
+  nodes: NodeCriticality[];
+  totalCycles: number;
+  complete: boolean;
+  truncatedBy: 'count' | 'time' | null;
+  elapsedMs: number;
+}
+
 interface TinyCycle {
   node1: string;
   node2: string;
 }
 
+interface CondensedNode {
+  id: string;
+  nodes: string[];
+  cyclic: boolean;
+  wave: number;
+}
+
+interface CondensedEdge {
+  source: string;
+  target: string;
+  edgeCount: number;
+}
+
+interface ReleaseWave {
+  index: number;
+  components: string[];
+  services: string[];
+}
+
+interface Condensation {
+  nodes: CondensedNode[];
+  edges: CondensedEdge[];
+  waves: ReleaseWave[];
+}
+
+interface FeedbackArcSetComponent {
+  nodes: string[];
+  method: 'exact' | 'heuristic';
+  edgeIds: string[];
+}
+
+interface FeedbackArcSet {
+  edges: Edge[];
+  size: number;
+  exact: boolean;
+  components: FeedbackArcSetComponent[];
+}
+
+const DEFAULT_CYCLE_PAGE_SIZE = 50;
+const DEFAULT_MAX_CYCLES = 10000;
+const DEFAULT_CYCLE_TIME_BUDGET_MS = 5000;
+const DEADLINE_CHECK_INTERVAL = 4096;
+const PAGERANK_DAMPING = 0.85;
+const PAGERANK_TOLERANCE = 1e-6;
+const PAGERANK_MAX_ITERATIONS = 100;
+// Above this many services betweenness is estimated from a sample of sources
+const EXACT_BETWEENNESS_MAX_NODES = 2000;
+const BETWEENNESS_SAMPLE_SIZE = 500;
+// Louvain stops a level after this many sweeps even if nodes still move
+const LOUVAIN_MAX_PASSES = 50;
+const LOUVAIN_MIN_GAIN = 1e-12;
+// Largest component solved exactly; the subset DP is O(2^n * e)
+const EXACT_FAS_MAX_NODES = 16;
+
 enum VisitStatus {
   NOT_VISITED = 'NOT_VISITED',
   CURRENTLY_VISITING = 'CURRENTLY_VISITING',
@@ -61,19 +289,25 @@ export class GraphAnalyzer {
   /**
    * Find all strongly connected components using Tarjan's algorithm
    */
-  findStronglyConnectedComponents(graphData: GraphData): string[][] {
-    this.reset();
-    
+  findStronglyConnectedComponents(graphData: GraphData, filter?: EdgeFilter): string[][] {
+    graphData = this.applyEdgeFilter(graphData, filter);
     const adjacencyList = this.buildAdjacencyList(graphData);
+    const sccs = this.computeSccs(graphData.nodes.map(node => node.id), adjacencyList);
     
-    for (const node of graphData.nodes) {
-      if (!this.indices.has(node.id)) {
-        this.strongConnect(node.id, adjacencyList);
+    // Filter out single-node components (not cycles)
+    return sccs.filter(scc => scc.length > 1);
+  }
+
+  private computeSccs(nodeIds: string[], adjacencyList: Map<string, string[]>): string[][] {
+    this.reset();
+
+    for (const nodeId of nodeIds) {
+      if (!this.indices.has(nodeId)) {
+        this.strongConnect(nodeId, adjacencyList);
       }
     }
-    
-    // Filter out single-node components (not cycles)
-    return this.sccs.filter(scc => scc.length > 1);
+
+    return this.sccs;
   }
 
   private reset() {
@@ -85,6 +319,20 @@ export class GraphAnalyzer {
     this.sccs = [];
   }
 
+  private applyEdgeFilter(graphData: GraphData, filter?: EdgeFilter): GraphData {
+    if (!filter) {
+      return graphData;
+    }
+
+    const kinds = new Set(filter.kinds);
+    return {
+      nodes: graphData.nodes,
+      edges: graphData.edges.filter(edge =>
+        edge.kind ? kinds.has(edge.kind) : filter.includeUntyped === true
+      ),
+    };
+  }
+
   private buildAdjacencyList(graphData: GraphData): Map<string, string[]> {
     const adjacencyList = new Map<string, string[]>();
     
@@ -103,58 +351,91 @@ export class GraphAnalyzer {
     return adjacencyList;
   }
 
-  private strongConnect(nodeId: string, adjacencyList: Map<string, string[]>) {
-    this.indices.set(nodeId, this.index);
-    this.lowlinks.set(nodeId, this.index);
-    this.index++;
-    this.stack.push(nodeId);
-    this.onStack.add(nodeId);
-
-    const neighbors = adjacencyList.get(nodeId) || [];
-    for (const neighborId of neighbors) {
-      if (!this.indices.has(neighborId)) {
-        this.strongConnect(neighborId, adjacencyList);
-        this.lowlinks.set(
-          nodeId,
-          Math.min(this.lowlinks.get(nodeId)!, this.lowlinks.get(neighborId)!)
-        );
-      } else if (this.onStack.has(neighborId)) {
+  private buildComponentAdjacency(graphData: GraphData, componentNodes: string[]): Map<string, string[]> {
+    const nodeSet = new Set(componentNodes);
+    const adjacencyList = this.buildAdjacencyList(graphData);
+
+    // Filter adjacency list to only include nodes in component
+    const componentAdj = new Map<string, string[]>();
+    for (const node of componentNodes) {
+      const neighbors = (adjacencyList.get(node) || []).filter(n => nodeSet.has(n));
+      componentAdj.set(node, neighbors);
+    }
+
+    return componentAdj;
+  }
+
+  /**
+   * Iterative form of Tarjan's strongConnect: an explicit frame stack replaces
+   * the recursion so deep graphs cannot overflow the call stack. Components
+   * are still emitted in reverse topological order.
+   */
+  private strongConnect(rootId: string, adjacencyList: Map<string, string[]>) {
+    const frames: Array<{ nodeId: string; neighbors: string[]; next: number }> = [];
+
+    const visit = (nodeId: string) => {
+      this.indices.set(nodeId, this.index);
+      this.lowlinks.set(nodeId, this.index);
+      this.index++;
+      this.stack.push(nodeId);
+      this.onStack.add(nodeId);
+      frames.push({ nodeId, neighbors: adjacencyList.get(nodeId) || [], next: 0 });
+    };
+
+    visit(rootId);
+
+    while (frames.length > 0) {
+      const frame = frames[frames.length - 1];
+      const { nodeId } = frame;
+
+      if (frame.next < frame.neighbors.length) {
+        const neighborId = frame.neighbors[frame.next++];
+        if (!this.indices.has(neighborId)) {
+          visit(neighborId);
+        } else if (this.onStack.has(neighborId)) {
+          this.lowlinks.set(
+            nodeId,
+            Math.min(this.lowlinks.get(nodeId)!, this.indices.get(neighborId)!)
+          );
+        }
+        continue;
+      }
+
+      frames.pop();
+
+      if (this.lowlinks.get(nodeId) === this.indices.get(nodeId)) {
+        const scc: string[] = [];
+        let w: string;
+        do {
+          w = this.stack.pop()!;
+          this.onStack.delete(w);
+          scc.push(w);
+        } while (w !== nodeId);
+
+        this.sccs.push(scc);
+      }
+
+      // Propagate the lowlink to the caller, as the recursive version did on return
+      if (frames.length > 0) {
+        const parentId = frames[frames.length - 1].nodeId;
         this.lowlinks.set(
-          nodeId,
-          Math.min(this.lowlinks.get(nodeId)!, this.indices.get(neighborId)!)
+          parentId,
+          Math.min(this.lowlinks.get(parentId)!, this.lowlinks.get(nodeId)!)
         );
       }
     }
-
-    if (this.lowlinks.get(nodeId) === this.indices.get(nodeId)) {
-      const scc: string[] = [];
-      let w: string;
-      do {
-        w = this.stack.pop()!;
-        this.onStack.delete(w);
-        scc.push(w);
-      } while (w !== nodeId);
-      
-      this.sccs.push(scc);
-    }
   }
 
   /**
    * Detect tiny cycles (2-node cycles) within a component
    * A tiny cycle exists when node A -> node B and node B -> node A
    */
-  detectTinyCycles(graphData: GraphData, componentNodes: string[]): TinyCycle[] {
+  detectTinyCycles(graphData: GraphData, componentNodes: string[], filter?: EdgeFilter): TinyCycle[] {
+    graphData = this.applyEdgeFilter(graphData, filter);
     const tinyCDs: TinyCycle[] = [];
-    const nodeSet = new Set(componentNodes);
-    const adjacencyList = this.buildAdjacencyList(graphData);
-    
-    // Filter adjacency list to only include nodes in component
-    const componentAdj = new Map<string, string[]>();
-    for (const node of componentNodes) {
-      const neighbors = (adjacencyList.get(node) || []).filter(n => nodeSet.has(n));
-      componentAdj.set(node, neighbors);
-    }
+    const componentAdj = this.buildComponentAdjacency(graphData, componentNodes);
     
+    const seenPairs = new Set<string>();
     const nodesVisitingStatus = new Map<string, VisitStatus>();
     
     // Initialize all nodes to NOT_VISITED
@@ -162,31 +443,42 @@ export class GraphAnalyzer {
       nodesVisitingStatus.set(node, VisitStatus.NOT_VISITED);
     }
     
-    // DFS Visit function
-    const dfsVisit = (node: string) => {
-      nodesVisitingStatus.set(node, VisitStatus.CURRENTLY_VISITING);
-      
-      const neighbors = componentAdj.get(node) || [];
-      for (const neighbor of neighbors) {
+    // Iterative DFS visit, one frame per node on the current path
+    const dfsVisit = (root: string) => {
+      const frames: Array<{ node: string; neighbors: string[]; next: number }> = [];
+      const enter = (node: string) => {
+        nodesVisitingStatus.set(node, VisitStatus.CURRENTLY_VISITING);
+        frames.push({ node, neighbors: componentAdj.get(node) || [], next: 0 });
+      };
+
+      enter(root);
+
+      while (frames.length > 0) {
+        const frame = frames[frames.length - 1];
+
+        if (frame.next >= frame.neighbors.length) {
+          nodesVisitingStatus.set(frame.node, VisitStatus.VISITED);
+          frames.pop();
+          continue;
+        }
+
+        const { node } = frame;
+        const neighbor = frame.neighbors[frame.next++];
         if (nodesVisitingStatus.get(neighbor) === VisitStatus.NOT_VISITED) {
-          dfsVisit(neighbor);
+          enter(neighbor);
         } else if (nodesVisitingStatus.get(neighbor) === VisitStatus.CURRENTLY_VISITING) {
           // Check if neighbor also points back to node (bidirectional edge)
           const neighborNeighbors = componentAdj.get(neighbor) || [];
           if (neighborNeighbors.includes(node)) {
             // Found a tiny cycle, add it (avoid duplicates)
-            const exists = tinyCDs.some(cd => 
-              (cd.node1 === node && cd.node2 === neighbor) ||
-              (cd.node1 === neighbor && cd.node2 === node)
-            );
-            if (!exists) {
+            const pairKey = node < neighbor ? `${node}|${neighbor}` : `${neighbor}|${node}`;
+            if (!seenPairs.has(pairKey)) {
+              seenPairs.add(pairKey);
               tinyCDs.push({ node1: node, node2: neighbor });
             }
           }
         }
       }
-      
-      nodesVisitingStatus.set(node, VisitStatus.VISITED);
     };
     
     // Start DFS from each unvisited node
@@ -200,95 +492,1306 @@ export class GraphAnalyzer {
   }
 
   /**
-   * Find all elementary cycles in a component using Johnson's algorithm
+   * Find elementary cycles in a component using Johnson's algorithm.
+   * Cycles are enumerated lazily in a deterministic order and returned one
+   * page at a time; the run stops early once the count or time budget is hit.
    */
-  findElementaryCycles(graphData: GraphData, componentNodes: string[]): Cycle[] {
+  findElementaryCycles(
+    graphData: GraphData,
+    componentNodes: string[],
+    options: CycleSearchOptions = {},
+    filter?: EdgeFilter
+  ): CyclePage {
+    graphData = this.applyEdgeFilter(graphData, filter);
+    const cursor = Math.max(0, options.cursor ?? 0);
+    const limit = Math.max(1, options.limit ?? DEFAULT_CYCLE_PAGE_SIZE);
     const cycles: Cycle[] = [];
+
+    const createCycles = (deadline: number) =>
+      this.enumerateElementaryCycles(graphData, componentNodes, deadline);
+    const run = this.enumerateWithinBudget(createCycles, options, (cycle, index) => {
+      if (index >= cursor && index < cursor + limit) {
+        cycles.push(cycle);
+      }
+    });
+
+    return {
+      cycles,
+      total: run.total,
+      cursor,
+      limit,
+      nextCursor: cursor + limit < run.total ? cursor + limit : null,
+      complete: run.truncatedBy === null,
+      truncatedBy: run.truncatedBy,
+      elapsedMs: run.elapsedMs,
+    };
+  }
+
+  /**
+   * Score every edge and node of a component by the elementary cycles passing
+   * through it. The weighted score counts a cycle of length k as 1/k, so the
+   * tight loops that hurt most rank first.
+   */
+  rankCycleCriticality(
+    graphData: GraphData,
+    componentNodes: string[],
+    options: CycleBudget = {},
+    filter?: EdgeFilter
+  ): CycleCriticality {
+    graphData = this.applyEdgeFilter(graphData, filter);
+    const nodeScores = new Map<string, CriticalityScore>();
+    const pairScores = new Map<string, CriticalityScore>();
+    const addScore = (scores: Map<string, CriticalityScore>, key: string, weight: number) => {
+      const score = scores.get(key) || { cycleCount: 0, weightedScore: 0 };
+      score.cycleCount++;
+      score.weightedScore += weight;
+      scores.set(key, score);
+    };
+
+    const createCycles = (deadline: number) =>
+      this.enumerateElementaryCycles(graphData, componentNodes, deadline);
+    const run = this.enumerateWithinBudget(createCycles, options, cycle => {
+      const weight = 1 / cycle.length;
+      cycle.nodes.forEach((node, i) => {
+        const next = cycle.nodes[(i + 1) % cycle.nodes.length];
+        addScore(nodeScores, node, weight);
+        addScore(pairScores, `${node}->${next}`, weight);
+      });
+    });
+
+    // Parallel edges between the same pair share the pair's score
     const nodeSet = new Set(componentNodes);
-    const adjacencyList = this.buildAdjacencyList(graphData);
-    
-    // Filter adjacency list to only include nodes in component
-    const componentAdj = new Map<string, string[]>();
-    for (const node of componentNodes) {
-      const neighbors = (adjacencyList.get(node) || []).filter(n => nodeSet.has(n));
-      componentAdj.set(node, neighbors);
+    const edges: EdgeCriticality[] = graphData.edges
+      .filter(edge => nodeSet.has(edge.source) && nodeSet.has(edge.target))
+      .map(edge => ({
+        edgeId: edge.id,
+        source: edge.source,
+        target: edge.target,
+        label: edge.label,
+        ...(pairScores.get(`${edge.source}->${edge.target}`) || { cycleCount: 0, weightedScore: 0 }),
+      }))
+      .filter(edge => edge.cycleCount > 0);
+
+    const nodes: NodeCriticality[] = Array.from(nodeScores.entries()).map(([nodeId, score]) => ({
+      nodeId,
+      ...score,
+    }));
+
+    const byScore = (a: CriticalityScore, b: CriticalityScore) =>
+      b.cycleCount - a.cycleCount || b.weightedScore - a.weightedScore;
+
+    return {
+      edges: edges.sort(byScore),
+      nodes: nodes.sort(byScore),
+      totalCycles: run.total,
+      complete: run.truncatedBy === null,
+      truncatedBy: run.truncatedBy,
+      elapsedMs: run.elapsedMs,
+    };
+  }
+
+  /**
+   * Find every simple cycle of at most `maxLength` services in a component,
+   * e.g. maxLength 3 finds the A -> B -> C -> A triangles as well as A ⇄ B pairs
+   */
+  findBoundedCycles(
+    graphData: GraphData,
+    componentNodes: string[],
+    maxLength: number,
+    options: CycleBudget = {},
+    filter?: EdgeFilter
+  ): BoundedCycles {
+    graphData = this.applyEdgeFilter(graphData, filter);
+    const cycles: Cycle[] = [];
+    const createCycles = (deadline: number) =>
+      this.enumerateBoundedCycles(graphData, componentNodes, maxLength, deadline);
+    const run = this.enumerateWithinBudget(createCycles, options, cycle => {
+      cycles.push(cycle);
+    });
+
+    return {
+      cycles: cycles.sort((a, b) => a.length - b.length),
+      maxLength,
+      total: run.total,
+      complete: run.truncatedBy === null,
+      truncatedBy: run.truncatedBy,
+      elapsedMs: run.elapsedMs,
+    };
+  }
+
+  /**
+   * Depth-limited search from each node that only walks through nodes that
+   * sort after it, so each cycle is reported once, from its smallest node.
+   * Returns false if it gave up because `deadline` (epoch ms) passed.
+   */
+  *enumerateBoundedCycles(
+    graphData: GraphData,
+    componentNodes: string[],
+    maxLength: number,
+    deadline = Infinity
+  ): Generator<Cycle, boolean> {
+    const order = Array.from(new Set(componentNodes)).sort();
+    const componentAdj = this.buildComponentAdjacency(graphData, order);
+
+    // Drop self-loops and parallel edges, they would only produce duplicates
+    for (const [node, neighbors] of componentAdj) {
+      componentAdj.set(node, Array.from(new Set(neighbors)).filter(n => n !== node));
     }
-    
-    // Simple cycle detection - find all paths that return to start
-    const visited = new Set<string>();
-    const recursionStack = new Set<string>();
-    const currentPath: string[] = [];
-    
-    const dfs = (node: string, startNode: string) => {
-      currentPath.push(node);
-      visited.add(node);
-      recursionStack.add(node);
-      
-      const neighbors = componentAdj.get(node) || [];
-      for (const neighbor of neighbors) {
-        if (neighbor === startNode && currentPath.length > 1) {
-          // Found a cycle
-          cycles.push({
-            nodes: [...currentPath],
-            length: currentPath.length,
-          });
-        } else if (!recursionStack.has(neighbor) && cycles.length < 100) {
-          // Limit to 100 cycles to prevent performance issues
-          dfs(neighbor, startNode);
+
+    let steps = 0;
+
+    for (const start of order) {
+      if (Date.now() > deadline) return false;
+
+      const path: string[] = [start];
+      const onPath = new Set<string>(path);
+      const frames = [{ neighbors: componentAdj.get(start)!, next: 0 }];
+
+      while (frames.length > 0) {
+        if (++steps % DEADLINE_CHECK_INTERVAL === 0 && Date.now() > deadline) return false;
+
+        const frame = frames[frames.length - 1];
+
+        if (frame.next >= frame.neighbors.length) {
+          onPath.delete(path.pop()!);
+          frames.pop();
+          continue;
+        }
+
+        const neighbor = frame.neighbors[frame.next++];
+        if (neighbor === start) {
+          yield { nodes: [...path], length: path.length };
+        } else if (neighbor > start && !onPath.has(neighbor) && path.length < maxLength) {
+          path.push(neighbor);
+          onPath.add(neighbor);
+          frames.push({ neighbors: componentAdj.get(neighbor)!, next: 0 });
         }
       }
-      
-      currentPath.pop();
-      recursionStack.delete(node);
-    };
-    
-    // Find cycles starting from each node
-    for (const startNode of componentNodes) {
-      if (cycles.length >= 100) break;
-      visited.clear();
-      recursionStack.clear();
-      currentPath.length = 0;
-      dfs(startNode, startNode);
     }
-    
-    // Remove duplicate cycles and sort by length
-    const uniqueCycles = this.removeDuplicateCycles(cycles);
-    return uniqueCycles.sort((a, b) => a.length - b.length);
+
+    return true;
   }
-  
-  private removeDuplicateCycles(cycles: Cycle[]): Cycle[] {
-    const seen = new Set<string>();
-    const unique: Cycle[] = [];
-    
-    for (const cycle of cycles) {
-      // Normalize cycle representation
-      const normalized = this.normalizeCycle(cycle.nodes);
-      if (!seen.has(normalized)) {
-        seen.add(normalized);
-        unique.push(cycle);
+
+  /**
+   * Feed the cycles of a generator to `onCycle` until it is exhausted or the
+   * count or time budget runs out
+   */
+  private enumerateWithinBudget(
+    createCycles: (deadline: number) => Generator<Cycle, boolean>,
+    budget: CycleBudget,
+    onCycle: (cycle: Cycle, index: number) => void
+  ): CycleRun {
+    const maxCycles = budget.maxCycles ?? DEFAULT_MAX_CYCLES;
+    const timeBudgetMs = budget.timeBudgetMs ?? DEFAULT_CYCLE_TIME_BUDGET_MS;
+
+    const startedAt = Date.now();
+    const cycles = createCycles(startedAt + timeBudgetMs);
+    let total = 0;
+    let truncatedBy: CycleRun['truncatedBy'] = null;
+
+    for (let step = cycles.next(); ; step = cycles.next()) {
+      if (step.done) {
+        truncatedBy = step.value ? null : 'time';
+        break;
+      }
+
+      onCycle(step.value, total);
+      total++;
+
+      if (total >= maxCycles) {
+        truncatedBy = 'count';
+        break;
+      }
+      if (Date.now() - startedAt > timeBudgetMs) {
+        truncatedBy = 'time';
+        break;
       }
     }
-    
-    return unique;
+
+    return { total, truncatedBy, elapsedMs: Date.now() - startedAt };
   }
-  
-  private normalizeCycle(nodes: string[]): string {
-    // Find minimum node and rotate to start there
-    let minIdx = 0;
-    for (let i = 1; i < nodes.length; i++) {
-      if (nodes[i] < nodes[minIdx]) {
-        minIdx = i;
+
+  /**
+   * Lazily enumerate every elementary cycle of a component (Johnson, 1975).
+   * Self-loops are skipped; they are reported separately by calculateMetrics.
+   * Returns false if it gave up because `deadline` (epoch ms) passed.
+   */
+  *enumerateElementaryCycles(
+    graphData: GraphData,
+    componentNodes: string[],
+    deadline = Infinity
+  ): Generator<Cycle, boolean> {
+    const order = Array.from(new Set(componentNodes)).sort();
+    const componentAdj = this.buildComponentAdjacency(graphData, order);
+
+    // Drop self-loops and parallel edges, they would only produce duplicates
+    for (const [node, neighbors] of componentAdj) {
+      componentAdj.set(node, Array.from(new Set(neighbors)).filter(n => n !== node));
+    }
+
+    const pending = this.computeSccs(order, componentAdj).filter(scc => scc.length > 1);
+
+    let steps = 0;
+
+    while (pending.length > 0) {
+      if (Date.now() > deadline) return false;
+
+      const scc = pending.pop()!;
+      const sccSet = new Set(scc);
+      const start = scc.reduce((min, node) => (node < min ? node : min));
+
+      const sccAdj = new Map<string, string[]>();
+      for (const node of scc) {
+        sccAdj.set(node, componentAdj.get(node)!.filter(n => sccSet.has(n)));
+      }
+
+      const blocked = new Set<string>();
+      const blockMap = new Map<string, Set<string>>();
+      const unblock = (node: string) => {
+        const toUnblock = [node];
+        while (toUnblock.length > 0) {
+          const current = toUnblock.pop()!;
+          if (!blocked.delete(current)) continue;
+          const dependents = blockMap.get(current);
+          if (dependents) {
+            for (const dependent of dependents) {
+              toUnblock.push(dependent);
+            }
+            dependents.clear();
+          }
+        }
+      };
+
+      // Johnson's CIRCUIT procedure with an explicit frame stack; `path`
+      // mirrors the node of every frame
+      const path: string[] = [];
+      const frames: Array<{ node: string; neighbors: string[]; next: number; foundCycle: boolean }> = [];
+      const enter = (node: string) => {
+        path.push(node);
+        blocked.add(node);
+        frames.push({ node, neighbors: sccAdj.get(node)!, next: 0, foundCycle: false });
+      };
+
+      enter(start);
+
+      while (frames.length > 0) {
+        // Long searches can go a while between cycles; check the clock now and then
+        if (++steps % DEADLINE_CHECK_INTERVAL === 0 && Date.now() > deadline) return false;
+
+        const frame = frames[frames.length - 1];
+
+        if (frame.next < frame.neighbors.length) {
+          const neighbor = frame.neighbors[frame.next++];
+          if (neighbor === start) {
+            yield { nodes: [...path], length: path.length };
+            frame.foundCycle = true;
+          } else if (!blocked.has(neighbor)) {
+            enter(neighbor);
+          }
+          continue;
+        }
+
+        if (frame.foundCycle) {
+          unblock(frame.node);
+        } else {
+          for (const neighbor of frame.neighbors) {
+            if (!blockMap.has(neighbor)) {
+              blockMap.set(neighbor, new Set());
+            }
+            blockMap.get(neighbor)!.add(frame.node);
+          }
+        }
+
+        path.pop();
+        frames.pop();
+        if (frame.foundCycle && frames.length > 0) {
+          frames[frames.length - 1].foundCycle = true;
+        }
+      }
+
+      // Every cycle through `start` has been found; search the rest without it
+      const remaining = scc.filter(node => node !== start);
+      const remainingAdj = new Map<string, string[]>();
+      for (const node of remaining) {
+        remainingAdj.set(node, sccAdj.get(node)!.filter(n => n !== start));
+      }
+      for (const component of this.computeSccs(remaining, remainingAdj)) {
+        if (component.length > 1) {
+          pending.push(component);
+        }
       }
     }
-    
-    const rotated = [...nodes.slice(minIdx), ...nodes.slice(0, minIdx)];
-    return rotated.join('->');
+
+    return true;
+  }
+
+  /**
+   * Collapse every strongly connected component into a super-node and order
+   * the resulting DAG into release waves. An edge A -> B means A depends on B,
+   * so B ships in an earlier wave; wave 0 holds services with no dependencies.
+   */
+  buildCondensation(graphData: GraphData, filter?: EdgeFilter): Condensation {
+    graphData = this.applyEdgeFilter(graphData, filter);
+    const adjacencyList = this.buildAdjacencyList(graphData);
+    const sccs = this.computeSccs(graphData.nodes.map(node => node.id), adjacencyList);
+
+    const componentOf = new Map<string, string>();
+    sccs.forEach((scc, i) => {
+      for (const node of scc) {
+        componentOf.set(node, `scc_${i}`);
+      }
+    });
+
+    const selfLooped = new Set<string>();
+    const edgeCounts = new Map<string, CondensedEdge>();
+    for (const edge of graphData.edges) {
+      const source = componentOf.get(edge.source);
+      const target = componentOf.get(edge.target);
+      if (!source || !target) continue;
+
+      if (source === target) {
+        selfLooped.add(source);
+        continue;
+      }
+
+      const key = `${source}->${target}`;
+      const condensedEdge = edgeCounts.get(key) || { source, target, edgeCount: 0 };
+      condensedEdge.edgeCount++;
+      edgeCounts.set(key, condensedEdge);
+    }
+    const edges = Array.from(edgeCounts.values());
+
+    const dependencies = new Map<string, string[]>();
+    for (const edge of edges) {
+      const targets = dependencies.get(edge.source) || [];
+      targets.push(edge.target);
+      dependencies.set(edge.source, targets);
+    }
+
+    // Tarjan emits components in reverse topological order, so every
+    // dependency of a component has already been assigned its wave
+    const waveOf = new Map<string, number>();
+    sccs.forEach((_, i) => {
+      const id = `scc_${i}`;
+      const deps = dependencies.get(id) || [];
+      waveOf.set(id, deps.reduce((wave, dep) => Math.max(wave, waveOf.get(dep)! + 1), 0));
+    });
+
+    const nodes: CondensedNode[] = sccs.map((scc, i) => {
+      const id = `scc_${i}`;
+      return {
+        id,
+        nodes: scc,
+        cyclic: scc.length > 1 || selfLooped.has(id),
+        wave: waveOf.get(id)!,
+      };
+    });
+
+    const waves: ReleaseWave[] = [];
+    for (const node of nodes) {
+      if (!waves[node.wave]) {
+        waves[node.wave] = { index: node.wave, components: [], services: [] };
+      }
+      waves[node.wave].components.push(node.id);
+      for (const service of node.nodes) {
+        waves[node.wave].services.push(service);
+      }
+    }
+
+    return { nodes, edges, waves };
+  }
+
+  /**
+   * Compute a minimum feedback arc set: the fewest edges whose removal makes
+   * the graph acyclic. Components of up to EXACT_FAS_MAX_NODES services are
+   * solved exactly, larger ones with the Eades–Lin–Smyth heuristic.
+   */
+  findFeedbackArcSet(graphData: GraphData, filter?: EdgeFilter): FeedbackArcSet {
+    graphData = this.applyEdgeFilter(graphData, filter);
+    // Self-loops are cycles on their own and always have to be cut
+    const edges = graphData.edges.filter(edge => edge.source === edge.target);
+    const components: FeedbackArcSetComponent[] = [];
+
+    const sccs = this.findStronglyConnectedComponents(graphData);
+    const componentOf = new Map<string, number>();
+    sccs.forEach((scc, i) => scc.forEach(node => componentOf.set(node, i)));
+
+    // Group the edges inside each component in a single pass
+    const edgesByComponent: Edge[][] = sccs.map(() => []);
+    for (const edge of graphData.edges) {
+      const component = componentOf.get(edge.source);
+      if (edge.source !== edge.target && component !== undefined && component === componentOf.get(edge.target)) {
+        edgesByComponent[component].push(edge);
+      }
+    }
+
+    sccs.forEach((scc, i) => {
+      const sccEdges = edgesByComponent[i];
+      const weights = this.buildWeightedAdjacency(scc, sccEdges);
+
+      const method = scc.length <= EXACT_FAS_MAX_NODES ? 'exact' : 'heuristic';
+      const ordering = method === 'exact'
+        ? this.findMinimumLinearOrdering(scc, weights)
+        : this.findEadesLinSmythOrdering(scc, weights);
+
+      // Every edge pointing backwards in the ordering closes a cycle
+      const position = new Map(ordering.map((node, i) => [node, i]));
+      const backEdges = sccEdges.filter(edge => position.get(edge.source)! > position.get(edge.target)!);
+
+      for (const edge of backEdges) {
+        edges.push(edge);
+      }
+      components.push({ nodes: scc, method, edgeIds: backEdges.map(edge => edge.id) });
+    });
+
+    return {
+      edges,
+      size: edges.length,
+      exact: components.every(component => component.method === 'exact'),
+      components,
+    };
+  }
+
+  /**
+   * Map each node to its successors, weighted by the number of parallel edges
+   */
+  private buildWeightedAdjacency(nodes: string[], edges: Edge[]): Map<string, Map<string, number>> {
+    const weights = new Map<string, Map<string, number>>();
+    for (const node of nodes) {
+      weights.set(node, new Map());
+    }
+
+    for (const edge of edges) {
+      const targets = weights.get(edge.source);
+      if (targets) {
+        targets.set(edge.target, (targets.get(edge.target) || 0) + 1);
+      }
+    }
+
+    return weights;
+  }
+
+  /**
+   * Exact minimum-weight linear ordering by dynamic programming over subsets:
+   * best[S] is the cheapest way to place the nodes of S first, where placing
+   * v after S costs the weight of the edges from v back into S.
+   */
+  private findMinimumLinearOrdering(nodes: string[], weights: Map<string, Map<string, number>>): string[] {
+    const n = nodes.length;
+    const indexOf = new Map(nodes.map((node, i) => [node, i]));
+    const successors = nodes.map(node =>
+      Array.from(weights.get(node)!.entries()).map(([target, weight]) => [indexOf.get(target)!, weight])
+    );
+
+    const full = (1 << n) - 1;
+    const best = new Int32Array(full + 1);
+    const lastPlaced = new Int8Array(full + 1).fill(-1);
+
+    for (let placed = 0; placed < full; placed++) {
+      for (let v = 0; v < n; v++) {
+        const bit = 1 << v;
+        if (placed & bit) continue;
+
+        let cost = best[placed];
+        for (const [target, weight] of successors[v]) {
+          if (placed & (1 << target)) cost += weight;
+        }
+
+        const next = placed | bit;
+        if (lastPlaced[next] === -1 || cost < best[next]) {
+          best[next] = cost;
+          lastPlaced[next] = v;
+        }
+      }
+    }
+
+    const ordering: string[] = [];
+    for (let placed = full; placed !== 0; placed &= ~(1 << lastPlaced[placed])) {
+      ordering.push(nodes[lastPlaced[placed]]);
+    }
+    return ordering.reverse();
+  }
+
+  /**
+   * Eades–Lin–Smyth greedy ordering: peel off sinks to the right, sources to
+   * the left, and otherwise move the node with the largest out - in weight left.
+   */
+  private findEadesLinSmythOrdering(nodes: string[], weights: Map<string, Map<string, number>>): string[] {
+    const predecessors = new Map<string, Map<string, number>>();
+    const inWeight = new Map<string, number>();
+    const outWeight = new Map<string, number>();
+    for (const node of nodes) {
+      predecessors.set(node, new Map());
+      inWeight.set(node, 0);
+      outWeight.set(node, 0);
+    }
+    for (const [source, targets] of weights) {
+      for (const [target, weight] of targets) {
+        predecessors.get(target)!.set(source, weight);
+        outWeight.set(source, outWeight.get(source)! + weight);
+        inWeight.set(target, inWeight.get(target)! + weight);
+      }
+    }
+
+    // Bucket the remaining nodes by delta = out - in so the max is cheap to find
+    const buckets = new Map<number, Set<string>>();
+    const deltaOf = (node: string) => outWeight.get(node)! - inWeight.get(node)!;
+    let maxDelta = -Infinity;
+    const addToBucket = (node: string) => {
+      const delta = deltaOf(node);
+      if (!buckets.has(delta)) buckets.set(delta, new Set());
+      buckets.get(delta)!.add(node);
+      maxDelta = Math.max(maxDelta, delta);
+    };
+    for (const node of nodes) {
+      addToBucket(node);
+    }
+
+    const remaining = new Set(nodes);
+    const left: string[] = [];
+    const right: string[] = [];
+    // Nodes that may have just become a source or a sink
+    const peelCandidates = [...nodes];
+
+    const remove = (node: string) => {
+      remaining.delete(node);
+      buckets.get(deltaOf(node))!.delete(node);
+
+      for (const [target, weight] of weights.get(node)!) {
+        if (!remaining.has(target)) continue;
+        buckets.get(deltaOf(target))!.delete(target);
+        inWeight.set(target, inWeight.get(target)! - weight);
+        addToBucket(target);
+        peelCandidates.push(target);
+      }
+      for (const [source, weight] of predecessors.get(node)!) {
+        if (!remaining.has(source)) continue;
+        buckets.get(deltaOf(source))!.delete(source);
+        outWeight.set(source, outWeight.get(source)! - weight);
+        addToBucket(source);
+        peelCandidates.push(source);
+      }
+    };
+
+    while (remaining.size > 0) {
+      while (peelCandidates.length > 0) {
+        const node = peelCandidates.pop()!;
+        if (!remaining.has(node)) continue;
+
+        if (outWeight.get(node) === 0) {
+          right.push(node);
+          remove(node);
+        } else if (inWeight.get(node) === 0) {
+          left.push(node);
+          remove(node);
+        }
+      }
+
+      if (remaining.size === 0) break;
+
+      while (!buckets.get(maxDelta)?.size) {
+        maxDelta--;
+      }
+      const [candidate] = buckets.get(maxDelta)!;
+      left.push(candidate);
+      remove(candidate);
+    }
+
+    return [...left, ...right.reverse()];
+  }
+
+  /**
+   * Blast radius of a service: everything that transitively depends on it
+   * (upstream) and everything it transitively depends on (downstream), each
+   * with its shortest distance in hops
+   */
+  calculateImpact(graphData: GraphData, nodeId: string, filter?: EdgeFilter): ImpactAnalysis {
+    graphData = this.applyEdgeFilter(graphData, filter);
+
+    const dependencies = this.buildAdjacencyList(graphData);
+    const dependents = new Map<string, string[]>();
+    for (const node of graphData.nodes) {
+      dependents.set(node.id, []);
+    }
+    for (const edge of graphData.edges) {
+      const sources = dependents.get(edge.target) || [];
+      sources.push(edge.source);
+      dependents.set(edge.target, sources);
+    }
+
+    return {
+      nodeId,
+      upstream: this.breadthFirstDepths(nodeId, dependents),
+      downstream: this.breadthFirstDepths(nodeId, dependencies),
+    };
+  }
+
+  private breadthFirstDepths(start: string, adjacencyList: Map<string, string[]>): ImpactedService[] {
+    const depths = new Map<string, number>([[start, 0]]);
+    const queue = [start];
+    const reached: ImpactedService[] = [];
+
+    for (let head = 0; head < queue.length; head++) {
+      const current = queue[head];
+      for (const next of adjacencyList.get(current) || []) {
+        if (depths.has(next)) continue;
+        const depth = depths.get(current)! + 1;
+        depths.set(next, depth);
+        queue.push(next);
+        reached.push({ nodeId: next, depth });
+      }
+    }
+
+    return reached;
+  }
+
+  /**
+   * How does `from` end up depending on `to`? Returns the shortest dependency
+   * path plus up to maxPaths - 1 alternative simple paths, in order of length
+   * (Yen's k-shortest loopless paths over unweighted hops).
+   */
+  findDependencyPaths(
+    graphData: GraphData,
+    from: string,
+    to: string,
+    maxPaths: number,
+    filter?: EdgeFilter
+  ): DependencyPaths {
+    graphData = this.applyEdgeFilter(graphData, filter);
+
+    const adjacencyList = this.buildAdjacencyList(graphData);
+    for (const [node, neighbors] of adjacencyList) {
+      adjacencyList.set(node, Array.from(new Set(neighbors)).filter(n => n !== node));
+    }
+
+    const found: string[][] = [];
+    const shortest = this.shortestPath(from, to, adjacencyList, new Set(), new Set());
+    if (shortest) {
+      found.push(shortest);
+    }
+
+    const candidates: string[][] = [];
+    const seen = new Set<string>(found.map(path => path.join('->')));
+
+    while (found.length > 0 && found.length < maxPaths) {
+      const previous = found[found.length - 1];
+
+      for (let i = 0; i < previous.length - 1; i++) {
+        const spurNode = previous[i];
+        const rootPath = previous.slice(0, i + 1);
+        const rootKey = rootPath.join('->');
+
+        // Block the next hop of every known path sharing this root, and the root itself
+        const removedEdges = new Set<string>();
+        for (const path of found) {
+          if (path.length > i + 1 && path.slice(0, i + 1).join('->') === rootKey) {
+            removedEdges.add(`${path[i]}->${path[i + 1]}`);
+          }
+        }
+        const removedNodes = new Set(rootPath.slice(0, -1));
+
+        const spurPath = this.shortestPath(spurNode, to, adjacencyList, removedNodes, removedEdges);
+        if (!spurPath) continue;
+
+        const candidate = [...rootPath.slice(0, -1), ...spurPath];
+        const key = candidate.join('->');
+        if (!seen.has(key)) {
+          seen.add(key);
+          candidates.push(candidate);
+        }
+      }
+
+      if (candidates.length === 0) break;
+
+      // Take the shortest candidate; the sort is stable so ties keep discovery order
+      candidates.sort((a, b) => a.length - b.length);
+      found.push(candidates.shift()!);
+    }
+
+    const paths = found.map(path => this.describePath(path, graphData));
+    return {
+      from,
+      to,
+      shortest: paths[0] || null,
+      alternatives: paths.slice(1),
+    };
+  }
+
+  private shortestPath(
+    from: string,
+    to: string,
+    adjacencyList: Map<string, string[]>,
+    removedNodes: Set<string>,
+    removedEdges: Set<string>
+  ): string[] | null {
+    const previous = new Map<string, string | null>([[from, null]]);
+    const queue = [from];
+
+    for (let head = 0; head < queue.length; head++) {
+      const current = queue[head];
+      if (current === to) {
+        const path: string[] = [];
+        for (let node: string | null = to; node !== null; node = previous.get(node)!) {
+          path.push(node);
+        }
+        return path.reverse();
+      }
+
+      for (const next of adjacencyList.get(current) || []) {
+        if (previous.has(next) || removedNodes.has(next) || removedEdges.has(`${current}->${next}`)) {
+          continue;
+        }
+        previous.set(next, current);
+        queue.push(next);
+      }
+    }
+
+    return null;
+  }
+
+  private describePath(nodes: string[], graphData: GraphData): DependencyPath {
+    const hops = nodes.slice(0, -1).map((source, i) => {
+      const target = nodes[i + 1];
+      const edges = graphData.edges.filter(edge => edge.source === source && edge.target === target);
+      return {
+        source,
+        target,
+        edgeIds: edges.map(edge => edge.id),
+        labels: edges.map(edge => edge.label).filter((label): label is string => !!label),
+      };
+    });
+
+    return { nodes, hops, length: hops.length };
+  }
+
+  /**
+   * Structurally critical services: articulation points and bridges of the
+   * underlying undirected graph, plus the dominator tree from the entry
+   * points (e.g. API gateways). A service X dominates Y when every dependency
+   * chain from an entry point to Y passes through X. Without explicit entry
+   * points, services nothing depends on are used.
+   */
+  findSinglePointsOfFailure(graphData: GraphData, entryPoints?: string[], filter?: EdgeFilter): SinglePointsOfFailure {
+    graphData = this.applyEdgeFilter(graphData, filter);
+
+    const nodeIds = graphData.nodes.map(node => node.id);
+    const indexOf = new Map(nodeIds.map((nodeId, i) => [nodeId, i]));
+    const edges = graphData.edges.filter(edge =>
+      indexOf.has(edge.source) && indexOf.has(edge.target) && edge.source !== edge.target
+    );
+    const n = nodeIds.length;
+
+    // Undirected adjacency keeps the edge index so parallel edges are told apart
+    const neighbors: Array<Array<[number, number]>> = nodeIds.map(() => []);
+    edges.forEach((edge, e) => {
+      const source = indexOf.get(edge.source)!;
+      const target = indexOf.get(edge.target)!;
+      neighbors[source].push([target, e]);
+      neighbors[target].push([source, e]);
+    });
+
+    const discovery = new Int32Array(n).fill(-1);
+    const low = new Int32Array(n);
+    const parent = new Int32Array(n).fill(-1);
+    const parentEdge = new Int32Array(n).fill(-1);
+    const position = new Int32Array(n);
+    const isArticulation = new Uint8Array(n);
+    const bridges: SinglePointsOfFailure['bridges'] = [];
+    let time = 0;
+
+    for (let root = 0; root < n; root++) {
+      if (discovery[root] !== -1) continue;
+
+      let rootChildren = 0;
+      discovery[root] = low[root] = time++;
+      const stack = [root];
+      while (stack.length > 0) {
+        const v = stack[stack.length - 1];
+        if (position[v] < neighbors[v].length) {
+          const [w, e] = neighbors[v][position[v]++];
+          if (e === parentEdge[v]) continue;
+          if (discovery[w] === -1) {
+            parent[w] = v;
+            parentEdge[w] = e;
+            discovery[w] = low[w] = time++;
+            stack.push(w);
+          } else {
+            low[v] = Math.min(low[v], discovery[w]);
+          }
+          continue;
+        }
+
+        stack.pop();
+        const p = parent[v];
+        if (p === -1) continue;
+        low[p] = Math.min(low[p], low[v]);
+        if (low[v] > discovery[p]) {
+          const edge = edges[parentEdge[v]];
+          bridges.push({ id: edge.id, source: edge.source, target: edge.target, label: edge.label });
+        }
+        if (p === root) {
+          rootChildren++;
+        } else if (low[v] >= discovery[p]) {
+          isArticulation[p] = 1;
+        }
+      }
+      if (rootChildren > 1) {
+        isArticulation[root] = 1;
+      }
+    }
+
+    // Dominators (Cooper, Harvey & Kennedy) from a virtual root linked to every entry point
+    const successors: number[][] = nodeIds.map(() => []);
+    const hasDependents = new Uint8Array(n);
+    for (const edge of edges) {
+      successors[indexOf.get(edge.source)!].push(indexOf.get(edge.target)!);
+      hasDependents[indexOf.get(edge.target)!] = 1;
+    }
+    const entries = entryPoints
+      ? entryPoints.filter(nodeId => indexOf.has(nodeId)).map(nodeId => indexOf.get(nodeId)!)
+      : nodeIds.map((_, i) => i).filter(i => !hasDependents[i]);
+    const root = n;
+    successors.push(Array.from(new Set(entries)));
+
+    const postorder: number[] = [];
+    const postIndex = new Int32Array(n + 1).fill(-1);
+    const visited = new Uint8Array(n + 1);
+    const dfsPosition = new Int32Array(n + 1);
+    const dfsStack = [root];
+    visited[root] = 1;
+    while (dfsStack.length > 0) {
+      const v = dfsStack[dfsStack.length - 1];
+      if (dfsPosition[v] < successors[v].length) {
+        const w = successors[v][dfsPosition[v]++];
+        if (!visited[w]) {
+          visited[w] = 1;
+          dfsStack.push(w);
+        }
+      } else {
+        dfsStack.pop();
+        postIndex[v] = postorder.length;
+        postorder.push(v);
+      }
+    }
+
+    const predecessors: number[][] = Array.from({ length: n + 1 }, () => []);
+    for (const v of postorder) {
+      for (const w of successors[v]) predecessors[w].push(v);
+    }
+
+    const idom = new Int32Array(n + 1).fill(-1);
+    idom[root] = root;
+    const intersect = (a: number, b: number) => {
+      while (a !== b) {
+        while (postIndex[a] < postIndex[b]) a = idom[a];
+        while (postIndex[b] < postIndex[a]) b = idom[b];
+      }
+      return a;
+    };
+    for (let changed = true; changed;) {
+      changed = false;
+      // Reverse postorder, skipping the root (last in postorder)
+      for (let i = postorder.length - 2; i >= 0; i--) {
+        const v = postorder[i];
+        let dominator = -1;
+        for (const p of predecessors[v]) {
+          if (idom[p] === -1) continue;
+          dominator = dominator === -1 ? p : intersect(p, dominator);
+        }
+        if (idom[v] !== dominator) {
+          idom[v] = dominator;
+          changed = true;
+        }
+      }
+    }
+
+    // Children come before their dominator in postorder
+    const dominatedCount = new Int32Array(n + 1);
+    for (let i = 0; i < postorder.length - 1; i++) {
+      const v = postorder[i];
+      dominatedCount[idom[v]] += dominatedCount[v] + 1;
+    }
+
+    const dominatorTree = postorder.slice(0, -1).reverse().map(v => ({
+      nodeId: nodeIds[v],
+      immediateDominator: idom[v] === root ? null : nodeIds[idom[v]],
+      dominatedCount: dominatedCount[v],
+    }));
+    const entrySet = new Set(entries);
+
+    return {
+      articulationPoints: nodeIds.filter((_, i) => isArticulation[i]),
+      bridges,
+      entryPoints: Array.from(entrySet, i => nodeIds[i]),
+      dominatorTree,
+      chokepoints: dominatorTree
+        .filter(node => node.dominatedCount > 0 && !entrySet.has(indexOf.get(node.nodeId)!))
+        .sort((a, b) => b.dominatedCount - a.dominatedCount),
+    };
+  }
+
+  /**
+   * Per-service centrality and coupling: PageRank, betweenness centrality,
+   * afferent/efferent coupling and instability. Parallel edges and self-loops
+   * are ignored, since they do not add a new dependency.
+   */
+  calculateServiceMetrics(graphData: GraphData, filter?: EdgeFilter): ServiceMetricsReport {
+    graphData = this.applyEdgeFilter(graphData, filter);
+
+    const nodeIds = graphData.nodes.map(node => node.id);
+    const successors = new Map<string, Set<string>>();
+    const predecessors = new Map<string, Set<string>>();
+    const inDegrees = new Map<string, number>();
+    const outDegrees = new Map<string, number>();
+    for (const nodeId of nodeIds) {
+      successors.set(nodeId, new Set());
+      predecessors.set(nodeId, new Set());
+      inDegrees.set(nodeId, 0);
+      outDegrees.set(nodeId, 0);
+    }
+
+    for (const edge of graphData.edges) {
+      if (!successors.has(edge.source) || !successors.has(edge.target)) continue;
+      outDegrees.set(edge.source, outDegrees.get(edge.source)! + 1);
+      inDegrees.set(edge.target, inDegrees.get(edge.target)! + 1);
+      if (edge.source !== edge.target) {
+        successors.get(edge.source)!.add(edge.target);
+        predecessors.get(edge.target)!.add(edge.source);
+      }
+    }
+
+    // Index-based adjacency (CSR) keeps the O(n * m) centrality loops fast
+    const indexOf = new Map(nodeIds.map((nodeId, i) => [nodeId, i]));
+    const offsets = new Int32Array(nodeIds.length + 1);
+    nodeIds.forEach((nodeId, i) => {
+      offsets[i + 1] = offsets[i] + successors.get(nodeId)!.size;
+    });
+    const targets = new Int32Array(offsets[nodeIds.length]);
+    nodeIds.forEach((nodeId, i) => {
+      let cursor = offsets[i];
+      for (const successor of successors.get(nodeId)!) {
+        targets[cursor++] = indexOf.get(successor)!;
+      }
+    });
+
+    const pageRank = this.calculatePageRank(offsets, targets);
+    const { betweenness, sampled } = this.calculateBetweenness(offsets, targets);
+
+    const services = graphData.nodes.map(node => {
+      const i = indexOf.get(node.id)!;
+      const afferentCoupling = predecessors.get(node.id)!.size;
+      const efferentCoupling = successors.get(node.id)!.size;
+      const coupling = afferentCoupling + efferentCoupling;
+      return {
+        nodeId: node.id,
+        label: node.data?.label || node.id,
+        inDegree: inDegrees.get(node.id)!,
+        outDegree: outDegrees.get(node.id)!,
+        afferentCoupling,
+        efferentCoupling,
+        instability: coupling > 0 ? efferentCoupling / coupling : 0,
+        pageRank: pageRank[i],
+        betweenness: betweenness[i],
+      };
+    });
+
+    return { services, betweennessSampled: sampled };
+  }
+
+  /**
+   * Proposes bounded contexts with Louvain modularity optimisation on the
+   * undirected dependency graph, where each call between two services adds
+   * one to their weight. Dependencies between communities are reported as
+   * coupling hot spots. A higher resolution yields more, smaller communities.
+   */
+  detectCommunities(graphData: GraphData, resolution = 1, filter?: EdgeFilter): CommunityReport {
+    graphData = this.applyEdgeFilter(graphData, filter);
+
+    const nodeIds = graphData.nodes.map(node => node.id);
+    const indexOf = new Map(nodeIds.map((nodeId, i) => [nodeId, i]));
+    const edges = graphData.edges.filter(edge => indexOf.has(edge.source) && indexOf.has(edge.target));
+
+    let weights = nodeIds.map(() => new Map<number, number>());
+    let selfWeights = new Float64Array(nodeIds.length);
+    for (const edge of edges) {
+      const source = indexOf.get(edge.source)!;
+      const target = indexOf.get(edge.target)!;
+      if (source === target) continue;
+      weights[source].set(target, (weights[source].get(target) || 0) + 1);
+      weights[target].set(source, (weights[target].get(source) || 0) + 1);
+    }
+
+    // Each level moves nodes between communities, then collapses every
+    // community into one node of the next level's graph
+    const membership = Int32Array.from(nodeIds.keys());
+    for (;;) {
+      const { community, count, moved } = this.moveNodesLocally(weights, selfWeights, resolution);
+      if (!moved) break;
+
+      for (let i = 0; i < membership.length; i++) {
+        membership[i] = community[membership[i]];
+      }
+
+      const nextWeights = Array.from({ length: count }, () => new Map<number, number>());
+      const nextSelfWeights = new Float64Array(count);
+      weights.forEach((neighbors, i) => {
+        const c = community[i];
+        nextSelfWeights[c] += selfWeights[i];
+        for (const [j, weight] of neighbors) {
+          const d = community[j];
+          if (c === d) {
+            // Internal edges are seen from both ends
+            nextSelfWeights[c] += weight / 2;
+          } else {
+            nextWeights[c].set(d, (nextWeights[c].get(d) || 0) + weight);
+          }
+        }
+      });
+      weights = nextWeights;
+      selfWeights = nextSelfWeights;
+    }
+
+    // Largest communities first
+    const members = new Map<number, string[]>();
+    nodeIds.forEach((nodeId, i) => {
+      if (!members.has(membership[i])) members.set(membership[i], []);
+      members.get(membership[i])!.push(nodeId);
+    });
+    const groups = Array.from(members.values()).sort((a, b) => b.length - a.length);
+    const assignment: Record<string, string> = {};
+    const communities: Community[] = groups.map((nodes, i) => {
+      const id = `community_${i}`;
+      nodes.forEach(nodeId => { assignment[nodeId] = id; });
+      return { id, nodes, internalEdges: 0, externalEdges: 0 };
+    });
+    const communityById = new Map(communities.map(community => [community.id, community]));
+
+    // Q = sum over communities of L_c / m - resolution * (d_c / 2m)^2
+    let totalWeight = 0;
+    const internalWeight = new Map<string, number>();
+    const degreeSum = new Map<string, number>();
+    const hotSpots = new Map<string, CommunityCoupling>();
+    for (const edge of edges) {
+      const source = assignment[edge.source];
+      const target = assignment[edge.target];
+      if (source === target) {
+        communityById.get(source)!.internalEdges++;
+      } else {
+        communityById.get(source)!.externalEdges++;
+        communityById.get(target)!.externalEdges++;
+        const key = `${source}->${target}`;
+        if (!hotSpots.has(key)) {
+          hotSpots.set(key, { source, target, edgeCount: 0, edges: [] });
+        }
+        const hotSpot = hotSpots.get(key)!;
+        hotSpot.edgeCount++;
+        hotSpot.edges.push({ id: edge.id, source: edge.source, target: edge.target, label: edge.label });
+      }
+
+      if (edge.source === edge.target) continue;
+      totalWeight++;
+      degreeSum.set(source, (degreeSum.get(source) || 0) + 1);
+      degreeSum.set(target, (degreeSum.get(target) || 0) + 1);
+      if (source === target) {
+        internalWeight.set(source, (internalWeight.get(source) || 0) + 1);
+      }
+    }
+
+    let modularity = 0;
+    if (totalWeight > 0) {
+      for (const community of communities) {
+        const degree = (degreeSum.get(community.id) || 0) / (2 * totalWeight);
+        modularity += (internalWeight.get(community.id) || 0) / totalWeight - resolution * degree * degree;
+      }
+    }
+
+    return {
+      communities,
+      assignment,
+      modularity,
+      resolution,
+      hotSpots: Array.from(hotSpots.values()).sort((a, b) => b.edgeCount - a.edgeCount),
+    };
+  }
+
+  /**
+   * One Louvain level: repeatedly moves each node to the neighboring community
+   * with the largest modularity gain until no node moves. Returns the
+   * communities renumbered from 0.
+   */
+  private moveNodesLocally(
+    weights: Array<Map<number, number>>,
+    selfWeights: Float64Array,
+    resolution: number
+  ): { community: Int32Array; count: number; moved: boolean } {
+    const n = weights.length;
+    const degree = new Float64Array(n);
+    let doubledTotalWeight = 0;
+    for (let i = 0; i < n; i++) {
+      degree[i] = 2 * selfWeights[i];
+      for (const weight of weights[i].values()) degree[i] += weight;
+      doubledTotalWeight += degree[i];
+    }
+
+    const community = Int32Array.from(weights.keys());
+    const communityDegree = Float64Array.from(degree);
+    const neighborWeight = new Float64Array(n);
+    const neighborCommunities: number[] = [];
+    let moved = false;
+
+    let improved = doubledTotalWeight > 0;
+    for (let pass = 0; improved && pass < LOUVAIN_MAX_PASSES; pass++) {
+      improved = false;
+      for (let i = 0; i < n; i++) {
+        const current = community[i];
+        neighborCommunities.length = 0;
+        for (const [j, weight] of weights[i]) {
+          const c = community[j];
+          if (neighborWeight[c] === 0) neighborCommunities.push(c);
+          neighborWeight[c] += weight;
+        }
+
+        // Take i out of its community; gain of joining c is k_i,c - resolution * tot_c * k_i / 2m
+        communityDegree[current] -= degree[i];
+        let best = current;
+        let bestGain = neighborWeight[current] - (resolution * communityDegree[current] * degree[i]) / doubledTotalWeight;
+        for (const c of neighborCommunities) {
+          const gain = neighborWeight[c] - (resolution * communityDegree[c] * degree[i]) / doubledTotalWeight;
+          if (gain > bestGain + LOUVAIN_MIN_GAIN) {
+            best = c;
+            bestGain = gain;
+          }
+        }
+        communityDegree[best] += degree[i];
+
+        for (const c of neighborCommunities) neighborWeight[c] = 0;
+        if (best !== current) {
+          community[i] = best;
+          improved = true;
+          moved = true;
+        }
+      }
+    }
+
+    const renumbered = new Map<number, number>();
+    for (let i = 0; i < n; i++) {
+      if (!renumbered.has(community[i])) renumbered.set(community[i], renumbered.size);
+      community[i] = renumbered.get(community[i])!;
+    }
+    return { community, count: renumbered.size, moved };
+  }
+
+  /**
+   * Power-iteration PageRank over a CSR adjacency; rank flows from a service
+   * to its dependencies, so widely depended-on services score highest.
+   * Dangling services spread their rank evenly.
+   */
+  private calculatePageRank(offsets: Int32Array, targets: Int32Array): Float64Array {
+    const n = offsets.length - 1;
+    let rank = new Float64Array(n).fill(1 / n);
+    let next = new Float64Array(n);
+
+    for (let iteration = 0; iteration < PAGERANK_MAX_ITERATIONS; iteration++) {
+      let danglingRank = 0;
+      for (let v = 0; v < n; v++) {
+        if (offsets[v + 1] === offsets[v]) {
+          danglingRank += rank[v];
+        }
+      }
+
+      next.fill((1 - PAGERANK_DAMPING) / n + (PAGERANK_DAMPING * danglingRank) / n);
+      for (let v = 0; v < n; v++) {
+        const outDegree = offsets[v + 1] - offsets[v];
+        const share = (PAGERANK_DAMPING * rank[v]) / outDegree;
+        for (let e = offsets[v]; e < offsets[v + 1]; e++) {
+          next[targets[e]] += share;
+        }
+      }
+
+      let delta = 0;
+      for (let v = 0; v < n; v++) {
+        delta += Math.abs(next[v] - rank[v]);
+      }
+
+      [rank, next] = [next, rank];
+      if (delta < PAGERANK_TOLERANCE) break;
+    }
+
+    return rank;
+  }
+
+  /**
+   * Brandes' betweenness centrality for unweighted directed graphs, normalized
+   * by (n - 1)(n - 2). Large graphs use a fixed, evenly spaced sample of
+   * source services and scale the result (Brandes & Pich, 2007).
+   */
+  private calculateBetweenness(
+    offsets: Int32Array,
+    targets: Int32Array
+  ): { betweenness: Float64Array; sampled: boolean } {
+    const n = offsets.length - 1;
+    const betweenness = new Float64Array(n);
+
+    const sampled = n > EXACT_BETWEENNESS_MAX_NODES;
+    const sourceCount = sampled ? BETWEENNESS_SAMPLE_SIZE : n;
+    const step = n / sourceCount;
+
+    const distance = new Int32Array(n);
+    const pathCounts = new Float64Array(n);
+    const dependency = new Float64Array(n);
+    const order = new Int32Array(n);
+
+    for (let i = 0; i < sourceCount; i++) {
+      const source = Math.floor(i * step);
+      distance.fill(-1);
+      pathCounts.fill(0);
+      dependency.fill(0);
+
+      // BFS from the source, counting shortest paths; `order` doubles as the queue
+      distance[source] = 0;
+      pathCounts[source] = 1;
+      order[0] = source;
+      let visited = 1;
+      for (let head = 0; head < visited; head++) {
+        const v = order[head];
+        for (let e = offsets[v]; e < offsets[v + 1]; e++) {
+          const w = targets[e];
+          if (distance[w] < 0) {
+            distance[w] = distance[v] + 1;
+            order[visited++] = w;
+          }
+          if (distance[w] === distance[v] + 1) {
+            pathCounts[w] += pathCounts[v];
+          }
+        }
+      }
+
+      // Accumulate dependencies in reverse BFS order
+      for (let head = visited - 1; head > 0; head--) {
+        const v = order[head];
+        for (let e = offsets[v]; e < offsets[v + 1]; e++) {
+          const w = targets[e];
+          if (distance[w] === distance[v] + 1) {
+            dependency[v] += (pathCounts[v] / pathCounts[w]) * (1 + dependency[w]);
+          }
+        }
+        betweenness[v] += dependency[v];
+      }
+    }
+
+    const scale = step / (n > 2 ? (n - 1) * (n - 2) : 1);
+    for (let v = 0; v < n; v++) {
+      betweenness[v] *= scale;
+    }
+
+    return { betweenness, sampled };
   }
 
   /**
    * Calculate graph metrics
    */
-  calculateMetrics(graphData: GraphData): GraphMetrics {
+  calculateMetrics(graphData: GraphData, filter?: EdgeFilter): GraphMetrics {
+    graphData = this.applyEdgeFilter(graphData, filter);
     const nodeCount = graphData.nodes.length;
     const edgeCount = graphData.edges.length;
     
@@ -335,7 +1838,8 @@ export class GraphAnalyzer {
     }
     
     const degreeValues = Array.from(totalDegrees.values());
-    const maxDegree = degreeValues.length > 0 ? Math.max(...degreeValues) : 0;
+    // Reduce rather than spread: Math.max(...values) overflows the stack on large graphs
+    const maxDegree = degreeValues.reduce((max, degree) => Math.max(max, degree), 0);
     const avgDegree = degreeValues.length > 0 
       ? degreeValues.reduce((a, b) => a + b, 0) / degreeValues.length 
       : 0;
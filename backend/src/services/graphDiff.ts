@@ -0,0 +1,119 @@
+import { EdgeKind } from './graphAnalyzer';
+
+interface Node {
+  id: string;
+  data: { label: string };
+}
+
+interface Edge {
+  id: string;
+  source: string;
+  target: string;
+  label?: string;
+  kind?: EdgeKind;
+}
+
+interface GraphData {
+  nodes: Node[];
+  edges: Edge[];
+}
+
+type DependencyField = 'source' | 'target' | 'label' | 'kind';
+
+// Endpoint changes are reported by service label, like the rest of the diff
+interface FieldChange {
+  field: DependencyField;
+  before: string | null;
+  after: string | null;
+}
+
+interface ServiceSummary {
+  id: string;
+  label: string;
+}
+
+interface DependencySummary {
+  id: string;
+  source: string;
+  target: string;
+  sourceLabel: string;
+  targetLabel: string;
+  label?: string;
+  kind?: EdgeKind;
+}
+
+export interface GraphDiff {
+  addedServices: ServiceSummary[];
+  removedServices: ServiceSummary[];
+  changedServices: Array<ServiceSummary & { changes: FieldChange[] }>;
+  addedDependencies: DependencySummary[];
+  removedDependencies: DependencySummary[];
+  changedDependencies: Array<DependencySummary & { changes: FieldChange[] }>;
+}
+
+const DEPENDENCY_FIELDS: DependencyField[] = ['source', 'target', 'label', 'kind'];
+
+const toServiceSummary = (node: Node): ServiceSummary => ({ id: node.id, label: node.data?.label ?? node.id });
+
+const toDependencySummary = (edge: Edge, labels: Map<string, string>): DependencySummary => ({
+  id: edge.id,
+  source: edge.source,
+  target: edge.target,
+  sourceLabel: labels.get(edge.source) ?? edge.source,
+  targetLabel: labels.get(edge.target) ?? edge.target,
+  ...(edge.label && { label: edge.label }),
+  ...(edge.kind && { kind: edge.kind }),
+});
+
+/**
+ * Compare two versions of a graph. Services and dependencies are matched by
+ * id; positions and styling are ignored since they do not change the
+ * architecture.
+ */
+export const diffGraphs = (before: GraphData, after: GraphData): GraphDiff => {
+  const beforeNodes = new Map(before.nodes.map(node => [node.id, node]));
+  const afterNodes = new Map(after.nodes.map(node => [node.id, node]));
+  const beforeEdges = new Map(before.edges.map(edge => [edge.id, edge]));
+  const afterEdges = new Map(after.edges.map(edge => [edge.id, edge]));
+  // Removed dependencies may point at removed services, so fall back to the old labels
+  const labels = new Map(
+    [...before.nodes, ...after.nodes].map(node => [node.id, node.data?.label ?? node.id] as [string, string])
+  );
+  const summarize = (edge: Edge) => toDependencySummary(edge, labels);
+  const display = (field: DependencyField, value: string | null) =>
+    value !== null && (field === 'source' || field === 'target') ? labels.get(value) ?? value : value;
+
+  const changedServices: GraphDiff['changedServices'] = [];
+  for (const node of after.nodes) {
+    const previous = beforeNodes.get(node.id);
+    const [label, previousLabel] = [node.data?.label ?? null, previous?.data?.label ?? null];
+    if (previous && label !== previousLabel) {
+      changedServices.push({ ...toServiceSummary(node), changes: [{ field: 'label', before: previousLabel, after: label }] });
+    }
+  }
+
+  const changedDependencies: GraphDiff['changedDependencies'] = [];
+  for (const edge of after.edges) {
+    const previous = beforeEdges.get(edge.id);
+    if (!previous) continue;
+    const changes = DEPENDENCY_FIELDS
+      .filter(field => (previous[field] ?? null) !== (edge[field] ?? null))
+      .map(field => ({
+        field,
+        before: display(field, previous[field] ?? null),
+        after: display(field, edge[field] ?? null),
+      }));
+    if (changes.length > 0) {
+      changedDependencies.push({ ...summarize(edge), changes });
+    }
+  }
+
+  return {
+    addedServices: after.nodes.filter(node => !beforeNodes.has(node.id)).map(toServiceSummary),
+    removedServices: before.nodes.filter(node => !afterNodes.has(node.id)).map(toServiceSummary),
+    changedServices,
+    addedDependencies: after.edges.filter(edge => !beforeEdges.has(edge.id)).map(summarize),
+    removedDependencies: before.edges.filter(edge => !afterEdges.has(edge.id)).map(summarize),
+    changedDependencies,
+  };
+};
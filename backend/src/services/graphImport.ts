@@ -0,0 +1,159 @@
+import { EdgeKind } from './graphAnalyzer';
+import { layoutByDependencies } from './graphLayout';
+
+interface Node {
+  id: string;
+  type: string;
+  position: { x: number; y: number };
+  data: { label: string };
+}
+
+interface Edge {
+  id: string;
+  source: string;
+  target: string;
+  label: string;
+  kind?: EdgeKind;
+  type: string;
+  markerEnd: { type: string };
+  data: { offset: number; origins: DependencyOrigin[] };
+}
+
+interface GraphData {
+  nodes: Node[];
+  edges: Edge[];
+}
+
+// An uploaded file, by name, e.g. docker-compose.yml
+export interface ImportFile {
+  name: string;
+  content: string;
+}
+
+// Where an imported dependency was declared, e.g. services.web.depends_on in docker-compose.yml
+export interface DependencyOrigin {
+  file: string;
+  key: string;
+}
+
+export interface ImportedDependency {
+  // Service names, as declared in the imported files
+  source: string;
+  target: string;
+  // Short description of the declaration, e.g. "depends_on" or "env ORDERS_URL"
+  label: string;
+  kind?: EdgeKind;
+  origin: DependencyOrigin;
+}
+
+export interface ImportWarning {
+  file: string;
+  key?: string;
+  message: string;
+}
+
+export interface GraphImportResult {
+  data: GraphData;
+  warnings: ImportWarning[];
+}
+
+export interface HostReference {
+  host: string;
+  scheme?: string;
+}
+
+const SCHEME_KINDS: Record<string, EdgeKind> = {
+  http: 'sync-rpc',
+  https: 'sync-rpc',
+  grpc: 'sync-rpc',
+  grpcs: 'sync-rpc',
+  ws: 'sync-rpc',
+  wss: 'sync-rpc',
+  amqp: 'async-event',
+  amqps: 'async-event',
+  kafka: 'async-event',
+  nats: 'async-event',
+  mqtt: 'async-event',
+};
+
+const URL_PATTERN = /([a-z][a-z0-9+.-]*):\/\/(?:[^@/]*@)?([A-Za-z0-9_.-]+)/i;
+const HOST_PORT_PATTERN = /^([A-Za-z][A-Za-z0-9_.-]*):\d+(?:\/.*)?$/;
+const BARE_HOST_PATTERN = /^[A-Za-z][A-Za-z0-9_.-]*$/;
+// Keys whose plain value is a host name, e.g. REDIS_HOST=cache
+const HOST_KEY_PATTERN = /(HOST|HOSTNAME|SERVER|ADDR|ADDRESS|ENDPOINT)S?$/i;
+
+/**
+ * The kind of a dependency declared by a URL, from its scheme: HTTP and gRPC
+ * are sync-rpc, message brokers async-event. Others, databases included, are
+ * left untyped for the user to decide.
+ */
+export const kindForScheme = (scheme?: string): EdgeKind | undefined =>
+  scheme ? SCHEME_KINDS[scheme.toLowerCase()] : undefined;
+
+/**
+ * Host names a configuration value points at: URL hosts, `host:port` pairs,
+ * and, for keys named like REDIS_HOST, the bare value. Lists such as
+ * `kafka-1:9092,kafka-2:9092` yield every host.
+ */
+export const findHostReferences = (key: string, value: string): HostReference[] => {
+  const references: HostReference[] = [];
+
+  for (const token of value.split(/[\s,;]+/)) {
+    const url = URL_PATTERN.exec(token);
+    const hostPort = HOST_PORT_PATTERN.exec(token);
+    if (url) {
+      references.push({ host: url[2], scheme: url[1] });
+    } else if (hostPort) {
+      references.push({ host: hostPort[1] });
+    } else if (HOST_KEY_PATTERN.test(key) && BARE_HOST_PATTERN.test(token)) {
+      references.push({ host: token });
+    }
+  }
+
+  return references;
+};
+
+/**
+ * GraphData for imported services and dependencies, laid out by dependency.
+ * Services become nodes labeled with their name. All declarations of the
+ * same dependency become one edge, labeled with every way it was declared
+ * and keeping each declaration in `data.origins`. Self-dependencies are
+ * dropped.
+ */
+export const buildImportedGraph = (services: string[], dependencies: ImportedDependency[]): GraphData => {
+  const nodeIds = new Map(services.map((service, i) => [service, `node_${i + 1}`] as [string, string]));
+
+  const grouped = new Map<string, ImportedDependency[]>();
+  for (const dependency of dependencies) {
+    if (dependency.source === dependency.target || !nodeIds.has(dependency.source) || !nodeIds.has(dependency.target)) {
+      continue;
+    }
+    const key = JSON.stringify([dependency.source, dependency.target]);
+    grouped.set(key, [...(grouped.get(key) || []), dependency]);
+  }
+
+  const edges: Edge[] = Array.from(grouped.values()).map((declarations, i) => {
+    const source = nodeIds.get(declarations[0].source) as string;
+    const target = nodeIds.get(declarations[0].target) as string;
+    const kind = declarations.map(declaration => declaration.kind).find(Boolean);
+
+    return {
+      id: `e-${source}-${target}-${i + 1}`,
+      source,
+      target,
+      label: Array.from(new Set(declarations.map(declaration => declaration.label))).join(', '),
+      ...(kind && { kind }),
+      type: 'custom',
+      markerEnd: { type: 'arrowclosed' },
+      data: { offset: 0, origins: declarations.map(declaration => declaration.origin) },
+    };
+  });
+
+  const positions = layoutByDependencies(Array.from(nodeIds.values()), edges);
+  const nodes: Node[] = services.map(service => {
+    const id = nodeIds.get(service) as string;
+    return { id, type: 'default', position: positions.get(id) ?? { x: 0, y: 0 }, data: { label: service } };
+  });
+
+  return { nodes, edges };
+};
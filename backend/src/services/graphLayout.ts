@@ -0,0 +1,62 @@
+import { GraphAnalyzer } from './graphAnalyzer';
+
+interface Position {
+  x: number;
+  y: number;
+}
+
+const LAYER_GAP = 150;
+const SERVICE_GAP = 200;
+// Wider layers wrap onto more rows, so a layer of many leaf services stays on screen
+const MAX_ROW_SIZE = 8;
+
+const analyzer = new GraphAnalyzer();
+
+const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+/**
+ * Positions for a graph that has none, in layers by dependency: services with
+ * no dependencies sit on the bottom row and every service sits above what it
+ * depends on. Services of a cycle share a layer. Within a layer, services are
+ * ordered by where their dependencies are, which keeps edges short and
+ * crossings few.
+ */
+export const layoutByDependencies = (
+  serviceIds: string[],
+  dependencies: { source: string; target: string }[]
+): Map<string, Position> => {
+  const { waves } = analyzer.buildCondensation({
+    nodes: serviceIds.map(id => ({ id, type: 'default', position: { x: 0, y: 0 }, data: { label: id } })),
+    edges: dependencies.map((dependency, i) => ({ id: `e${i}`, ...dependency })),
+  });
+
+  const dependenciesOf = new Map<string, string[]>();
+  for (const { source, target } of dependencies) {
+    dependenciesOf.set(source, [...(dependenciesOf.get(source) || []), target]);
+  }
+
+  const positions = new Map<string, Position>();
+  let row = 0;
+  // Waves count up from services without dependencies; build the rows bottom-up and flip at the end
+  for (const wave of waves.filter(Boolean)) {
+    const placedX = (service: string) =>
+      (dependenciesOf.get(service) || []).map(target => positions.get(target)?.x).filter((x): x is number => x !== undefined);
+    const ordered = wave.services
+      .map((service, i) => ({ service, i, x: placedX(service) }))
+      .sort((a, b) => (a.x.length && b.x.length ? average(a.x) - average(b.x) : 0) || a.i - b.i);
+
+    for (let start = 0; start < ordered.length; start += MAX_ROW_SIZE) {
+      const rowServices = ordered.slice(start, start + MAX_ROW_SIZE);
+      rowServices.forEach(({ service }, i) => {
+        positions.set(service, { x: (i - (rowServices.length - 1) / 2) * SERVICE_GAP, y: row });
+      });
+      row++;
+    }
+  }
+
+  const rows = row;
+  positions.forEach(position => {
+    position.y = (rows - 1 - position.y) * LAYER_GAP;
+  });
+  return positions;
+};
@@ -0,0 +1,212 @@
+import { GraphData, GraphEdge as Edge, GraphNode as Node } from '../db/graphRepository';
+import { layoutByDependencies } from './graphLayout';
+
+export interface MergeSource {
+  graphId: string;
+  name: string;
+  data: GraphData;
+}
+
+export type MergeConflictType = 'duplicate-label' | 'label-spelling' | 'service-type' | 'dependency-mismatch';
+
+export interface MergeConflict {
+  type: MergeConflictType;
+  // Label of the merged service, or "source → target" for dependencies
+  label: string;
+  // Graphs involved, in the order they were merged
+  graphIds: string[];
+  message: string;
+}
+
+export interface GraphMergeResult {
+  data: GraphData;
+  conflicts: MergeConflict[];
+  // Services and dependencies that appeared in more than one place and were kept once
+  unifiedServices: number;
+  deduplicatedDependencies: number;
+}
+
+// Horizontal space between the merged graphs, so each keeps its own layout
+const GRAPH_GAP = 300;
+
+const labelKey = (node: Node) => (node.data?.label ?? '').trim().toLowerCase();
+
+const edgeSignature = (edge: Edge) =>
+  JSON.stringify([edge.source, edge.target, edge.label ?? null, edge.kind ?? null]);
+
+const describeEdge = (edge: Edge) =>
+  [edge.kind ?? 'untyped', edge.label ? `"${edge.label}"` : null].filter(Boolean).join(' ');
+
+// Spreading a large graph into Math.min/max would overflow the call stack
+const range = (values: number[]) =>
+  values.reduce(
+    ([min, max], value) => [Math.min(min, value), Math.max(max, value)],
+    [Infinity, -Infinity]
+  );
+
+// Node ids follow the editor's node_N scheme so new services keep numbering after them
+const nodeIdFor = (index: number) => `node_${index + 1}`;
+
+const edgeIdFor = (source: string, target: string, index: number) => `e-${source}-${target}-${index + 1}`;
+
+const hasPosition = (node: Node) => Number.isFinite(node.position?.x) && Number.isFinite(node.position?.y);
+
+// A graph keeps its own layout; one with services missing positions is laid out by dependency instead
+const positionsOf = ({ nodes, edges }: GraphData): Map<string, { x: number; y: number }> => {
+  if (nodes.every(hasPosition)) {
+    return new Map(nodes.map(node => [node.id, node.position]));
+  }
+
+  const ids = nodes.map(node => node.id);
+  const known = new Set(ids);
+  return layoutByDependencies(ids, edges.filter(edge => known.has(edge.source) && known.has(edge.target)));
+};
+
+/**
+ * Deep copy of a graph with fresh service and dependency ids. Everything
+ * else, including positions and styling, is kept.
+ */
+export const cloneGraphData = (data: GraphData): GraphData => {
+  const ids = new Map(data.nodes.map((node, i) => [node.id, nodeIdFor(i)] as [string, string]));
+
+  return {
+    nodes: data.nodes.map(node => ({ ...structuredClone(node), id: ids.get(node.id) as string })),
+    edges: data.edges.map((edge, i) => {
+      const source = ids.get(edge.source) ?? edge.source;
+      const target = ids.get(edge.target) ?? edge.target;
+      return { ...structuredClone(edge), id: edgeIdFor(source, target, i), source, target };
+    }),
+  };
+};
+
+/**
+ * Combine graphs into one. Services with the same label (ignoring case and
+ * surrounding spaces) become a single service, so dependencies drawn in
+ * different graphs meet. A dependency drawn identically in several graphs is
+ * kept once. The first graph wins where services disagree, and every
+ * disagreement is reported as a conflict. Each graph is laid out to the
+ * right of the previous one.
+ */
+export const mergeGraphs = (sources: MergeSource[]): GraphMergeResult => {
+  const nodes: Node[] = [];
+  const edges: Edge[] = [];
+  const conflicts: MergeConflict[] = [];
+  // Merged service per label, with the graph that introduced it
+  const byLabel = new Map<string, { node: Node; graphId: string }>();
+  const labels = new Map<string, string>();
+  // Graph that first drew each dependency
+  const edgeSignatures = new Map<string, string>();
+  // Graphs that drew each pair of services, to spot the same dependency drawn differently
+  const pairs = new Map<string, { graphId: string; name: string; edge: Edge }>();
+  let unifiedServices = 0;
+  let deduplicatedDependencies = 0;
+  let offsetX = 0;
+
+  const conflict = (type: MergeConflictType, label: string, graphIds: string[], message: string) =>
+    conflicts.push({ type, label, graphIds: Array.from(new Set(graphIds)), message });
+
+  for (const { graphId, name, data } of sources) {
+    const positions = positionsOf(data);
+    const [minX, maxX] = range(Array.from(positions.values()).map(position => position.x));
+    const [minY] = range(Array.from(positions.values()).map(position => position.y));
+    // Ids of this graph's services in the merged graph
+    const ids = new Map<string, string>();
+    const seenHere = new Set<string>();
+
+    for (const node of data.nodes) {
+      const key = labelKey(node);
+      const existing = key ? byLabel.get(key) : undefined;
+
+      if (existing) {
+        ids.set(node.id, existing.node.id);
+        unifiedServices++;
+        const label = existing.node.data.label;
+
+        if (seenHere.has(key)) {
+          conflict(
+            'duplicate-label',
+            label,
+            [graphId],
+            `"${name}" has more than one service labeled "${label}"; they were merged`
+          );
+        } else if (node.data.label !== label) {
+          conflict(
+            'label-spelling',
+            label,
+            [existing.graphId, graphId],
+            `"${node.data.label}" in "${name}" was merged into "${label}"`
+          );
+        }
+        const [type, keptType] = [node.type ?? 'none', existing.node.type ?? 'none'];
+        if (type !== keptType) {
+          conflict(
+            'service-type',
+            label,
+            [existing.graphId, graphId],
+            `"${label}" has type ${type} in "${name}" but ${keptType} where it was first seen; kept ${keptType}`
+          );
+        }
+      } else {
+        const position = positions.get(node.id) ?? { x: minX, y: minY };
+        const merged: Node = {
+          ...structuredClone(node),
+          id: nodeIdFor(nodes.length),
+          position: { x: position.x - minX + offsetX, y: position.y - minY },
+        };
+        nodes.push(merged);
+        ids.set(node.id, merged.id);
+        labels.set(merged.id, merged.data?.label ?? merged.id);
+        if (key) {
+          byLabel.set(key, { node: merged, graphId });
+        }
+      }
+      seenHere.add(key);
+    }
+
+    for (const edge of data.edges) {
+      const source = ids.get(edge.source);
+      const target = ids.get(edge.target);
+      // Dangling dependencies cannot be placed in the merged graph
+      if (!source || !target) continue;
+
+      const merged: Edge = {
+        ...structuredClone(edge),
+        id: edgeIdFor(source, target, edges.length),
+        source,
+        target,
+      };
+      const signature = edgeSignature(merged);
+      const firstDrawnBy = edgeSignatures.get(signature);
+      // Parallel dependencies within one graph are intentional, so only repeats across graphs are dropped
+      if (firstDrawnBy !== undefined && firstDrawnBy !== graphId) {
+        deduplicatedDependencies++;
+        continue;
+      }
+
+      const pairKey = `${source}->${target}`;
+      const drawn = pairs.get(pairKey);
+      if (drawn && drawn.graphId !== graphId) {
+        const dependency = `${labels.get(source)} → ${labels.get(target)}`;
+        conflict(
+          'dependency-mismatch',
+          dependency,
+          [drawn.graphId, graphId],
+          `${dependency} is ${describeEdge(drawn.edge)} in "${drawn.name}" and ${describeEdge(merged)} in "${name}"; both were kept`
+        );
+      } else if (!drawn) {
+        pairs.set(pairKey, { graphId, name, edge: merged });
+      }
+
+      if (firstDrawnBy === undefined) {
+        edgeSignatures.set(signature, graphId);
+      }
+      edges.push(merged);
+    }
+
+    if (positions.size > 0) {
+      offsetX += maxX - minX + GRAPH_GAP;
+    }
+  }
+
+  return { data: { nodes, edges }, conflicts, unifiedServices, deduplicatedDependencies };
+};
@@ -0,0 +1,111 @@
+import { EDGE_KINDS } from './graphAnalyzer';
+
+export interface SchemaViolation {
+  // Where the violation is, e.g. edges[3].target
+  path: string;
+  message: string;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value !== '';
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Check a GraphData payload before it is written. Services need a unique id,
+ * a label and a numeric position; dependencies need a unique id and must
+ * point at services of the same graph. Fields outside the schema (ReactFlow
+ * styling, markers) are allowed and kept as they are. Returns every
+ * violation found, empty when the graph is valid.
+ */
+export const validateGraphData = (data: unknown): SchemaViolation[] => {
+  const violations: SchemaViolation[] = [];
+  const violation = (path: string, message: string) => violations.push({ path, message });
+
+  if (!isObject(data)) {
+    violation('data', 'must be an object with nodes and edges');
+    return violations;
+  }
+  const { nodes, edges } = data;
+  if (!Array.isArray(nodes)) violation('nodes', 'must be an array');
+  if (!Array.isArray(edges)) violation('edges', 'must be an array');
+  if (!Array.isArray(nodes) || !Array.isArray(edges)) {
+    return violations;
+  }
+
+  // First index of every node id, to report duplicates and check edge endpoints
+  const nodeIndex = new Map<string, number>();
+  nodes.forEach((node: unknown, i: number) => {
+    const path = `nodes[${i}]`;
+    if (!isObject(node)) {
+      violation(path, 'must be an object');
+      return;
+    }
+
+    if (!isNonEmptyString(node.id)) {
+      violation(`${path}.id`, 'must be a non-empty string');
+    } else if (nodeIndex.has(node.id)) {
+      violation(`${path}.id`, `duplicates the id of nodes[${nodeIndex.get(node.id)}] ("${node.id}")`);
+    } else {
+      nodeIndex.set(node.id, i);
+    }
+
+    if (node.type !== undefined && typeof node.type !== 'string') {
+      violation(`${path}.type`, 'must be a string');
+    }
+
+    const { position, data: nodeData } = node;
+    if (!isObject(position)) {
+      violation(`${path}.position`, 'must be an object with numeric x and y');
+    } else {
+      if (!isFiniteNumber(position.x)) violation(`${path}.position.x`, 'must be a finite number');
+      if (!isFiniteNumber(position.y)) violation(`${path}.position.y`, 'must be a finite number');
+    }
+
+    if (!isObject(nodeData)) {
+      violation(`${path}.data`, 'must be an object with a label');
+    } else if (typeof nodeData.label !== 'string') {
+      violation(`${path}.data.label`, 'must be a string');
+    }
+  });
+
+  const edgeIndex = new Map<string, number>();
+  edges.forEach((edge: unknown, i: number) => {
+    const path = `edges[${i}]`;
+    if (!isObject(edge)) {
+      violation(path, 'must be an object');
+      return;
+    }
+
+    if (!isNonEmptyString(edge.id)) {
+      violation(`${path}.id`, 'must be a non-empty string');
+    } else if (edgeIndex.has(edge.id)) {
+      violation(`${path}.id`, `duplicates the id of edges[${edgeIndex.get(edge.id)}] ("${edge.id}")`);
+    } else {
+      edgeIndex.set(edge.id, i);
+    }
+
+    for (const endpoint of ['source', 'target'] as const) {
+      const nodeId = edge[endpoint];
+      if (!isNonEmptyString(nodeId)) {
+        violation(`${path}.${endpoint}`, 'must be a non-empty string');
+      } else if (!nodeIndex.has(nodeId)) {
+        violation(`${path}.${endpoint}`, `references unknown node "${nodeId}"`);
+      }
+    }
+
+    if (edge.label !== undefined && edge.label !== null && typeof edge.label !== 'string') {
+      violation(`${path}.label`, 'must be a string');
+    }
+    if (edge.type !== undefined && typeof edge.type !== 'string') {
+      violation(`${path}.type`, 'must be a string');
+    }
+    if (edge.kind !== undefined && !EDGE_KINDS.some(kind => kind === edge.kind)) {
+      violation(`${path}.kind`, `must be one of: ${EDGE_KINDS.join(', ')}`);
+    }
+  });
+
+  return violations;
+};
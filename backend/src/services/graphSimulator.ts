@@ -0,0 +1,262 @@
+import { GraphAnalyzer, EdgeFilter, EdgeKind, EDGE_KINDS } from './graphAnalyzer';
+
+interface Node {
+  id: string;
+  type?: string;
+  position: { x: number; y: number };
+  data: { label: string };
+}
+
+interface Edge {
+  id: string;
+  source: string;
+  target: string;
+  label?: string;
+  type?: string;
+  kind?: EdgeKind;
+}
+
+interface GraphData {
+  nodes: Node[];
+  edges: Edge[];
+}
+
+/**
+ * A hypothetical change to a graph. Applied in order: removals, new
+ * services, reroutes, then new calls, so a reroute or a new call may point
+ * at a service added by the same patch (e.g. a message broker).
+ */
+export interface GraphPatch {
+  removeNodes?: string[];
+  removeEdges?: string[];
+  addNodes?: Array<{ id: string; label: string; position?: { x: number; y: number } }>;
+  // Point an existing call at a different caller or callee
+  rerouteEdges?: Array<{ edgeId: string; source?: string; target?: string }>;
+  addEdges?: Array<{ id?: string; source: string; target: string; label?: string; kind?: EdgeKind }>;
+}
+
+interface SimulationSnapshot {
+  nodeCount: number;
+  edgeCount: number;
+  avgDegree: number;
+  maxDegree: number;
+  density: number;
+  selfLoops: number;
+  stronglyConnectedComponents: string[][];
+  // Services that sit on at least one cycle
+  cyclicServices: number;
+  tinyCycles: number;
+  // Elementary cycles over all components, counted within a budget
+  cycles: { total: number; complete: boolean };
+}
+
+interface SimulationResult {
+  before: SimulationSnapshot;
+  after: SimulationSnapshot;
+  // The patched graph, never persisted
+  graphData: GraphData;
+}
+
+// Cycle counting budget per snapshot, shared by all components
+const SIMULATION_MAX_CYCLES = 10000;
+const SIMULATION_CYCLE_TIME_BUDGET_MS = 2000;
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isObjectArray = (value: unknown): value is Array<Record<string, unknown>> =>
+  Array.isArray(value) && value.every(isObject);
+
+const isOptionalString = (value: unknown) => value === undefined || typeof value === 'string';
+
+/**
+ * Evaluates what-if changes against a copy of a graph, so a refactor can be
+ * checked against cycles and metrics without saving it
+ */
+export class GraphSimulator {
+  constructor(private analyzer: GraphAnalyzer) {}
+
+  /**
+   * Check a patch, as sent by a client, against the graph it will be applied
+   * to. Returns an error message, or null when the patch is a GraphPatch that
+   * can be applied.
+   */
+  validatePatch(graphData: GraphData, patch: unknown): string | null {
+    if (!isObject(patch)) {
+      return 'patch must be an object';
+    }
+    const { removeNodes = [], removeEdges = [], addNodes = [], rerouteEdges = [], addEdges = [] } = patch;
+    if (!isStringArray(removeNodes)) return 'removeNodes must be an array of node ids';
+    if (!isStringArray(removeEdges)) return 'removeEdges must be an array of edge ids';
+    if (!isObjectArray(addNodes)) return 'addNodes must be an array of nodes';
+    if (!isObjectArray(rerouteEdges)) return 'rerouteEdges must be an array of reroutes';
+    if (!isObjectArray(addEdges)) return 'addEdges must be an array of edges';
+
+    const nodeIds = new Set(graphData.nodes.map(node => node.id));
+    const edgeIds = new Set(graphData.edges.map(edge => edge.id));
+
+    const unknownNode = removeNodes.find(nodeId => !nodeIds.has(nodeId));
+    if (unknownNode !== undefined) return `Cannot remove unknown service ${unknownNode}`;
+    const unknownEdge = removeEdges.find(edgeId => !edgeIds.has(edgeId));
+    if (unknownEdge !== undefined) return `Cannot remove unknown call ${unknownEdge}`;
+
+    // Services and calls left once the removals are applied
+    const remainingNodes = new Set(nodeIds);
+    removeNodes.forEach(nodeId => remainingNodes.delete(nodeId));
+    const remainingEdges = new Set(
+      graphData.edges
+        .filter(edge => remainingNodes.has(edge.source) && remainingNodes.has(edge.target))
+        .map(edge => edge.id)
+    );
+    removeEdges.forEach(edgeId => remainingEdges.delete(edgeId));
+
+    for (const node of addNodes) {
+      if (typeof node.id !== 'string' || !node.id || typeof node.label !== 'string') {
+        return 'Every added service needs a string id and label';
+      }
+      const { position } = node;
+      if (position !== undefined && !(isObject(position) && Number.isFinite(position.x) && Number.isFinite(position.y))) {
+        return `Service ${node.id} needs a position with numeric x and y`;
+      }
+      if (remainingNodes.has(node.id)) return `Service ${node.id} already exists`;
+      remainingNodes.add(node.id);
+    }
+
+    for (const reroute of rerouteEdges) {
+      const { edgeId } = reroute;
+      if (typeof edgeId !== 'string' || !remainingEdges.has(edgeId)) {
+        return `Cannot reroute unknown or removed call ${edgeId}`;
+      }
+      for (const endpoint of [reroute.source, reroute.target]) {
+        if (endpoint !== undefined && (typeof endpoint !== 'string' || !remainingNodes.has(endpoint))) {
+          return `Cannot reroute to unknown service ${endpoint}`;
+        }
+      }
+    }
+
+    for (const edge of addEdges) {
+      const { id, source, target, label, kind } = edge;
+      if (
+        typeof source !== 'string' ||
+        typeof target !== 'string' ||
+        !remainingNodes.has(source) ||
+        !remainingNodes.has(target)
+      ) {
+        return `Added call ${source} -> ${target} references an unknown service`;
+      }
+      if (!isOptionalString(label)) {
+        return `Added call ${source} -> ${target} needs a string label`;
+      }
+      if (kind !== undefined && !EDGE_KINDS.some(edgeKind => edgeKind === kind)) {
+        return `kind must be one of: ${EDGE_KINDS.join(', ')}`;
+      }
+      if (id !== undefined) {
+        if (typeof id !== 'string' || remainingEdges.has(id)) return `Call ${id} already exists`;
+        remainingEdges.add(id);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Apply a validated patch to a copy of the graph
+   */
+  applyPatch(graphData: GraphData, patch: GraphPatch): GraphData {
+    const removedNodes = new Set(patch.removeNodes);
+    const removedEdges = new Set(patch.removeEdges);
+
+    const nodes = graphData.nodes
+      .filter(node => !removedNodes.has(node.id))
+      .map(node => ({ ...node }));
+    let edges = graphData.edges
+      .filter(edge => !removedEdges.has(edge.id) && !removedNodes.has(edge.source) && !removedNodes.has(edge.target))
+      .map(edge => ({ ...edge }));
+
+    for (const node of patch.addNodes || []) {
+      nodes.push({
+        id: node.id,
+        type: 'default',
+        position: node.position || { x: 0, y: 0 },
+        data: { label: node.label },
+      });
+    }
+
+    const reroutes = new Map((patch.rerouteEdges || []).map(reroute => [reroute.edgeId, reroute]));
+    edges = edges.map(edge => {
+      const reroute = reroutes.get(edge.id);
+      return reroute
+        ? { ...edge, source: reroute.source ?? edge.source, target: reroute.target ?? edge.target }
+        : edge;
+    });
+
+    const usedIds = new Set(edges.map(edge => edge.id));
+    (patch.addEdges || []).forEach((edge, i) => {
+      let id = edge.id;
+      for (let suffix = i; !id || usedIds.has(id); suffix++) {
+        id = `sim_e_${suffix}`;
+      }
+      usedIds.add(id);
+      edges.push({ id, source: edge.source, target: edge.target, label: edge.label, kind: edge.kind });
+    });
+
+    return { nodes, edges };
+  }
+
+  /**
+   * Analyze the graph before and after a validated patch
+   */
+  simulate(graphData: GraphData, patch: GraphPatch, filter?: EdgeFilter): SimulationResult {
+    const patched = this.applyPatch(graphData, patch);
+
+    return {
+      before: this.snapshot(graphData, filter),
+      after: this.snapshot(patched, filter),
+      graphData: patched,
+    };
+  }
+
+  private snapshot(graphData: GraphData, filter?: EdgeFilter): SimulationSnapshot {
+    const metrics = this.analyzer.calculateMetrics(graphData, filter);
+    const components = metrics.stronglyConnectedComponents;
+
+    const deadline = Date.now() + SIMULATION_CYCLE_TIME_BUDGET_MS;
+    let totalCycles = 0;
+    let complete = true;
+    let tinyCycles = 0;
+    for (const component of components) {
+      tinyCycles += this.analyzer.detectTinyCycles(graphData, component, filter).length;
+
+      const remainingCycles = SIMULATION_MAX_CYCLES - totalCycles;
+      const remainingMs = deadline - Date.now();
+      if (!complete || remainingCycles <= 0 || remainingMs <= 0) {
+        complete = false;
+        continue;
+      }
+      const page = this.analyzer.findElementaryCycles(
+        graphData,
+        component,
+        { limit: 1, maxCycles: remainingCycles, timeBudgetMs: remainingMs },
+        filter
+      );
+      totalCycles += page.total;
+      complete = page.complete;
+    }
+
+    return {
+      nodeCount: metrics.nodeCount,
+      edgeCount: metrics.edgeCount,
+      avgDegree: metrics.avgDegree,
+      maxDegree: metrics.maxDegree,
+      density: metrics.density,
+      selfLoops: metrics.selfLoops,
+      stronglyConnectedComponents: components,
+      cyclicServices: components.reduce((sum, component) => sum + component.length, 0),
+      tinyCycles,
+      cycles: { total: totalCycles, complete },
+    };
+  }
+}
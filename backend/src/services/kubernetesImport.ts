@@ -0,0 +1,425 @@
+import { Document, Range, isNode, parseAllDocuments, visit } from 'yaml';
+import {
+  GraphImportResult,
+  ImportFile,
+  ImportWarning,
+  ImportedDependency,
+  DependencyOrigin,
+  buildImportedGraph,
+  findHostReferences,
+  kindForScheme,
+} from './graphImport';
+
+type Manifest = Record<string, unknown>;
+
+// A manifest with where it was read from, for origins and warnings
+interface Resource {
+  kind: string;
+  name: string;
+  namespace: string;
+  manifest: Manifest;
+  // Uploaded file name, plus the chart template for `helm template` output
+  file: string;
+}
+
+interface Workload extends Resource {
+  podPath: string;
+  podSpec: Manifest;
+  podLabels: Record<string, string>;
+}
+
+// Where a workload's pod template is
+const POD_TEMPLATE_PATHS: Record<string, string[]> = {
+  Deployment: ['spec', 'template'],
+  StatefulSet: ['spec', 'template'],
+  DaemonSet: ['spec', 'template'],
+  ReplicaSet: ['spec', 'template'],
+  Job: ['spec', 'template'],
+  CronJob: ['spec', 'jobTemplate', 'spec', 'template'],
+};
+
+const IMPORTED_KINDS = [...Object.keys(POD_TEMPLATE_PATHS), 'Pod', 'Service', 'ConfigMap', 'Ingress'];
+
+// Template actions of an unrendered chart, e.g. {{ .Values.image }} or {{- include "app.labels" . }}
+const HELM_TEMPLATE_PATTERN = /\{\{-?\s*(\.|include|template|if|range|with|define|toYaml)/;
+
+const HELM_SOURCE_PATTERN = /^\s*Source:\s*(\S+)/m;
+
+const isObject = (value: unknown): value is Manifest =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Optional nested fields, e.g. spec or valueFrom; anything else reads as empty
+const asObject = (value: unknown): Manifest => (isObject(value) ? value : {});
+
+const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+// List entries that should be objects, e.g. containers or env; others read as empty so indexes stay right
+const asObjects = (value: unknown): Manifest[] => asArray(value).map(item => (isObject(item) ? item : {}));
+
+const resourceKey = ({ kind, namespace, name }: { kind: string; namespace: string; name: string }) =>
+  `${kind}/${namespace}/${name}`;
+
+const describeResource = ({ kind, name }: Resource) => `${kind}/${name}`;
+
+const originOf = (resource: Resource, path: string): DependencyOrigin => ({
+  file: resource.file,
+  key: `${describeResource(resource)}: ${path}`,
+});
+
+const selects = (selector: Manifest, labels: Record<string, string>) =>
+  Object.entries(selector).every(([key, value]) => labels[key] === value);
+
+/**
+ * The Service a host name points at, from the cluster DNS forms `name`,
+ * `name.namespace`, `name.namespace.svc[.cluster.local]` and, for pods of
+ * headless Services, `pod.name.namespace.svc[...]`. `clusterDns` is true when
+ * the host is certainly a Service name, so an unknown one is worth a warning.
+ */
+const parseServiceHost = (host: string, namespace: string) => {
+  const labels = host.toLowerCase().replace(/\.$/, '').split('.');
+  const svc = labels.indexOf('svc');
+
+  if (svc === 2) return { name: labels[0], namespace: labels[1], clusterDns: true };
+  if (svc === 3) return { name: labels[1], namespace: labels[2], clusterDns: true };
+  if (labels.length === 1) return { name: labels[0], namespace, clusterDns: false };
+  if (labels.length === 2) return { name: labels[0], namespace: labels[1], clusterDns: false };
+  return null;
+};
+
+/**
+ * Whether a file that parsed as YAML is still an unrendered chart template.
+ * Rendered manifests can carry template text in their values, e.g. the
+ * `{{ $labels.instance }}` of Prometheus rules in a ConfigMap, so only
+ * actions outside scalar values count: unquoted ones parse as flow
+ * collections, or break the parse altogether.
+ */
+const hasTemplateActions = (content: string, documents: Document[]) => {
+  const scalars: Range[] = [];
+  for (const document of documents) {
+    visit(document, {
+      Scalar: (_, scalar) => {
+        if (scalar.range) {
+          scalars.push(scalar.range);
+        }
+      },
+    });
+  }
+
+  return Array.from(content.matchAll(new RegExp(HELM_TEMPLATE_PATTERN, 'g'))).some(
+    ({ index = 0 }) => !scalars.some(([start, valueEnd]) => start <= index && index < valueEnd)
+  );
+};
+
+const unrenderedTemplateError = (file: ImportFile) =>
+  `${file.name}: looks like an unrendered Helm template; upload the output of \`helm template\``;
+
+// Split uploaded files into resources, flattening `kind: List`
+const readResources = (files: ImportFile[]): { resources?: Resource[]; error?: string } => {
+  const resources: Resource[] = [];
+
+  for (const file of files) {
+    const documents = parseAllDocuments(file.content, { merge: true });
+    const failed = documents.find(document => document.errors.length > 0);
+    if (failed) {
+      return {
+        error: HELM_TEMPLATE_PATTERN.test(file.content)
+          ? unrenderedTemplateError(file)
+          : `${file.name}: ${failed.errors[0].message}`,
+      };
+    }
+    if (hasTemplateActions(file.content, documents)) {
+      return { error: unrenderedTemplateError(file) };
+    }
+
+    for (const document of documents) {
+
+      const comment = document.commentBefore ?? (isNode(document.contents) ? document.contents.commentBefore : null) ?? '';
+      const source = HELM_SOURCE_PATTERN.exec(comment)?.[1];
+      const contents = document.toJS();
+      const manifests = isObject(contents) && contents.kind === 'List' ? asArray(contents.items) : [contents];
+
+      for (const manifest of manifests) {
+        if (!isObject(manifest)) continue;
+        const { kind } = manifest;
+        const { name, namespace } = asObject(manifest.metadata);
+        if (typeof kind !== 'string' || !IMPORTED_KINDS.includes(kind) || typeof name !== 'string') {
+          continue;
+        }
+        resources.push({
+          kind,
+          name,
+          namespace: typeof namespace === 'string' && namespace ? namespace : 'default',
+          manifest,
+          file: source ? `${file.name} (${source})` : file.name,
+        });
+      }
+    }
+  }
+
+  return { resources };
+};
+
+const toWorkload = (resource: Resource): Workload | null => {
+  const templatePath = POD_TEMPLATE_PATHS[resource.kind];
+  const template = templatePath
+    ? templatePath.reduce<unknown>((value, key) => (isObject(value) ? value[key] : undefined), resource.manifest)
+    : resource.kind === 'Pod'
+      ? resource.manifest
+      : null;
+  if (!isObject(template) || !isObject(template.spec)) {
+    return null;
+  }
+
+  // Label values are strings; anything else could never be selected
+  const labels = Object.entries(asObject(asObject(template.metadata).labels)).filter(
+    (label): label is [string, string] => typeof label[1] === 'string'
+  );
+
+  return {
+    ...resource,
+    podPath: templatePath ? `${templatePath.join('.')}.spec` : 'spec',
+    podSpec: template.spec,
+    podLabels: Object.fromEntries(labels),
+  };
+};
+
+// Names that occur on more than one resource get the kind and namespace added
+const labelResources = (resources: Resource[]) => {
+  const counts = new Map<string, number>();
+  resources.forEach(({ name }) => counts.set(name, (counts.get(name) || 0) + 1));
+
+  return new Map(
+    resources.map(resource => [
+      resourceKey(resource),
+      counts.get(resource.name)! > 1 ? `${resource.name} (${resource.kind} in ${resource.namespace})` : resource.name,
+    ])
+  );
+};
+
+/**
+ * Parse Kubernetes manifests, e.g. a manifests directory or the output of
+ * `helm template`, into a graph. Workloads (Deployments, StatefulSets,
+ * DaemonSets, Jobs, CronJobs, Pods) become services, and so do Services that
+ * select none of them, such as ExternalName Services; Ingresses become entry
+ * points. A dependency is inferred wherever a container's environment, or a
+ * ConfigMap it reads through env, envFrom or a volume, references a Service
+ * by its cluster DNS name (`http://orders.default.svc:8080`); it leads to the
+ * workloads that Service selects. Ingresses depend on their backend Services.
+ * Every dependency records the file and key it was inferred from.
+ */
+export const importKubernetesManifests = (files: ImportFile[]): { result?: GraphImportResult; error?: string } => {
+  const { resources: allResources, error } = readResources(files);
+  if (!allResources) {
+    return { error };
+  }
+
+  // The same resource in several files, e.g. rendered twice: the last one wins
+  const resources = Array.from(new Map(allResources.map(resource => [resourceKey(resource), resource])).values());
+  const workloads = resources.map(toWorkload).filter((workload): workload is Workload => workload !== null);
+  const services = resources.filter(resource => resource.kind === 'Service');
+  const configMaps = new Map(
+    resources.filter(resource => resource.kind === 'ConfigMap').map(resource => [resourceKey(resource), resource])
+  );
+  const ingresses = resources.filter(resource => resource.kind === 'Ingress');
+
+  if (workloads.length === 0 && services.length === 0 && ingresses.length === 0) {
+    return { error: 'No workloads (Deployments, StatefulSets, DaemonSets, Jobs, CronJobs, Pods), Services or Ingresses found' };
+  }
+
+  // What each Service routes to: the workloads it selects, or the Service itself
+  const targetsOf = new Map<string, Resource[]>();
+  for (const service of services) {
+    const { selector } = asObject(service.manifest.spec);
+    const selected = isObject(selector) && Object.keys(selector).length > 0
+      ? workloads.filter(workload => workload.namespace === service.namespace && selects(selector, workload.podLabels))
+      : [];
+    targetsOf.set(resourceKey(service), selected.length > 0 ? selected : [service]);
+  }
+
+  const nodes = [
+    ...ingresses,
+    ...workloads,
+    ...services.filter(service => targetsOf.get(resourceKey(service))![0] === service),
+  ];
+  const labels = labelResources(nodes);
+  const label = (resource: Resource) => labels.get(resourceKey(resource)) as string;
+
+  const dependencies: ImportedDependency[] = [];
+  const warnings: ImportWarning[] = [];
+
+  // Dependencies of `from` on every Service a configuration value references
+  const inferFromValue = (from: Resource, key: string, value: string, dependencyLabel: string, origin: DependencyOrigin) => {
+    for (const reference of findHostReferences(key, value)) {
+      const host = parseServiceHost(reference.host, from.namespace);
+      if (!host) continue;
+
+      const targets = targetsOf.get(resourceKey({ kind: 'Service', ...host }));
+      if (!targets) {
+        if (host.clusterDns) {
+          warnings.push({
+            ...origin,
+            message: `${describeResource(from)} references ${reference.host}, which is not a Service in the uploaded manifests`,
+          });
+        }
+        continue;
+      }
+      for (const target of targets) {
+        dependencies.push({
+          source: label(from),
+          target: label(target),
+          label: dependencyLabel,
+          kind: kindForScheme(reference.scheme),
+          origin,
+        });
+      }
+    }
+  };
+
+  const findConfigMap = (workload: Workload, name: unknown, path: string) => {
+    const configMap = configMaps.get(resourceKey({ kind: 'ConfigMap', namespace: workload.namespace, name: String(name) }));
+    if (!configMap) {
+      warnings.push({
+        ...originOf(workload, path),
+        message: `${describeResource(workload)} reads ConfigMap ${name}, which is not in the uploaded manifests`,
+      });
+    }
+    return configMap;
+  };
+
+  const inferFromConfigMap = (workload: Workload, configMap: Resource, keys: string[] | null, dependencyLabel: (key: string) => string) => {
+    const data = isObject(configMap.manifest.data) ? configMap.manifest.data : {};
+    for (const key of keys ?? Object.keys(data)) {
+      if (data[key] !== undefined && data[key] !== null) {
+        inferFromValue(workload, key, String(data[key]), dependencyLabel(key), originOf(configMap, `data.${key}`));
+      }
+    }
+  };
+
+  for (const workload of workloads) {
+    const containers = [
+      ...asObjects(workload.podSpec.initContainers).map((container, i) => ({ container, path: `initContainers[${i}]` })),
+      ...asObjects(workload.podSpec.containers).map((container, i) => ({ container, path: `containers[${i}]` })),
+    ];
+
+    for (const { container, path } of containers) {
+      const containerPath = `${workload.podPath}.${path}`;
+
+      asObjects(container.env).forEach((variable, i) => {
+        const variablePath = `${containerPath}.env[${i}]`;
+        const { name, value: variableValue } = variable;
+        if (typeof name !== 'string') return;
+
+        if (variableValue !== undefined && variableValue !== null) {
+          inferFromValue(workload, name, String(variableValue), `env ${name}`, originOf(workload, `${variablePath}.value`));
+        }
+
+        const { configMapKeyRef: configMapRef, secretKeyRef } = asObject(variable.valueFrom);
+        if (isObject(configMapRef)) {
+          const configMap = findConfigMap(workload, configMapRef.name, `${variablePath}.valueFrom.configMapKeyRef`);
+          if (configMap) {
+            // The ConfigMap key is read under the variable's name, so that is what REDIS_HOST-style matching sees
+            const key = String(configMapRef.key);
+            const value = asObject(configMap.manifest.data)[key];
+            if (value !== undefined && value !== null) {
+              inferFromValue(
+                workload,
+                name,
+                String(value),
+                `env ${name} from ${configMap.name}`,
+                originOf(configMap, `data.${key}`)
+              );
+            }
+          }
+        }
+        if (secretKeyRef) {
+          warnings.push({
+            ...originOf(workload, `${variablePath}.valueFrom.secretKeyRef`),
+            message: `${describeResource(workload)} reads ${name} from a Secret, which is not imported`,
+          });
+        }
+      });
+
+      asObjects(container.envFrom).forEach((source, i) => {
+        const sourcePath = `${containerPath}.envFrom[${i}]`;
+        const { configMapRef, secretRef } = source;
+        if (isObject(configMapRef)) {
+          const configMap = findConfigMap(workload, configMapRef.name, `${sourcePath}.configMapRef`);
+          if (configMap) {
+            inferFromConfigMap(workload, configMap, null, key => `env ${key} from ${configMap.name}`);
+          }
+        }
+        if (isObject(secretRef)) {
+          warnings.push({
+            ...originOf(workload, `${sourcePath}.secretRef`),
+            message: `${describeResource(workload)} reads variables from Secret ${secretRef.name}, which is not imported`,
+          });
+        }
+      });
+    }
+
+    asObjects(workload.podSpec.volumes).forEach((volume, i) => {
+      const volumePath = `${workload.podPath}.volumes[${i}]`;
+      const configMapSources = [
+        ...(isObject(volume.configMap) ? [{ ref: volume.configMap, path: `${volumePath}.configMap` }] : []),
+        ...asObjects(asObject(volume.projected).sources).flatMap((source, j) =>
+          isObject(source.configMap) ? [{ ref: source.configMap, path: `${volumePath}.projected.sources[${j}].configMap` }] : []
+        ),
+      ];
+
+      for (const { ref, path } of configMapSources) {
+        const configMap = findConfigMap(workload, ref.name, path);
+        if (configMap) {
+          const keys = Array.isArray(ref.items)
+            ? asObjects(ref.items)
+                .map(item => item.key)
+                .filter((key): key is string => typeof key === 'string')
+            : null;
+          inferFromConfigMap(workload, configMap, keys, key => `config ${configMap.name}/${key}`);
+        }
+      }
+    });
+  }
+
+  for (const ingress of ingresses) {
+    const spec = asObject(ingress.manifest.spec);
+    const backends = [
+      {
+        backend: asObject(spec.defaultBackend ?? spec.backend),
+        path: spec.defaultBackend ? 'spec.defaultBackend' : 'spec.backend',
+      },
+      ...asObjects(spec.rules).flatMap((rule, i) =>
+        asObjects(asObject(rule.http).paths).map((httpPath, j) => ({
+          backend: asObject(httpPath.backend),
+          path: `spec.rules[${i}].http.paths[${j}].backend`,
+        }))
+      ),
+    ];
+
+    for (const { backend, path } of backends) {
+      // networking.k8s.io/v1 nests the Service; v1beta1 names it directly
+      const serviceName = asObject(backend.service).name ?? backend.serviceName;
+      if (typeof serviceName !== 'string') continue;
+
+      const keyPath = backend.service ? `${path}.service.name` : `${path}.serviceName`;
+      const targets = targetsOf.get(resourceKey({ kind: 'Service', namespace: ingress.namespace, name: serviceName }));
+      if (!targets) {
+        warnings.push({
+          ...originOf(ingress, keyPath),
+          message: `${describeResource(ingress)} routes to Service ${serviceName}, which is not in the uploaded manifests`,
+        });
+        continue;
+      }
+      for (const target of targets) {
+        dependencies.push({
+          source: label(ingress),
+          target: label(target),
+          label: 'ingress',
+          kind: 'sync-rpc',
+          origin: originOf(ingress, keyPath),
+        });
+      }
+    }
+  }
+
+  return { result: { data: buildImportedGraph(nodes.map(label), dependencies), warnings } };
+};
@@ -0,0 +1,52 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemoryGraphRepository } from '../src/db/memoryGraphRepository';
+import { MAX_ANALYSIS_RUNS_PER_KIND } from '../src/db/graphRepository';
+import { runCachedAnalysis } from '../src/services/analysisRuns';
+
+const openGraph = async () => {
+  const repository = await MemoryGraphRepository.open();
+  const graph = await repository.createGraph('shop', { description: '', tags: [], ownerTeam: '' });
+  return { repository, graph: { id: graph.id, revision: 0, data: { nodes: [], edges: [] } } };
+};
+
+test('runs that are not cacheable are stored without their result', async () => {
+  const { repository, graph } = await openGraph();
+
+  const { run } = await runCachedAnalysis(
+    repository,
+    graph,
+    'find-cycles',
+    { maxCycles: 10 },
+    () => ({ cycles: [['a', 'b']], truncated: true }),
+    () => ({ summary: { cycleCount: 1 }, cacheable: false })
+  );
+
+  const stored = await repository.getAnalysisRun(graph.id, run.id);
+  assert.deepEqual(stored?.summary, { cycleCount: 1 });
+  assert.equal(stored?.result, undefined);
+});
+
+test('only the most recent runs of each kind are kept', async () => {
+  const { repository, graph } = await openGraph();
+
+  const record = (kind: 'analyze' | 'find-cycles', i: number) =>
+    runCachedAnalysis(
+      repository,
+      graph,
+      kind,
+      { i },
+      () => i,
+      () => ({ summary: { i }, cacheable: true })
+    );
+  await record('find-cycles', 0);
+  for (let i = 0; i <= MAX_ANALYSIS_RUNS_PER_KIND; i++) {
+    await record('analyze', i);
+  }
+
+  const analyzeRuns = await repository.listAnalysisRuns(graph.id, 'analyze', MAX_ANALYSIS_RUNS_PER_KIND + 10);
+  assert.equal(analyzeRuns?.length, MAX_ANALYSIS_RUNS_PER_KIND);
+  assert.deepEqual(analyzeRuns?.[0].summary, { i: MAX_ANALYSIS_RUNS_PER_KIND });
+  assert.deepEqual(analyzeRuns?.at(-1)?.summary, { i: 1 });
+  assert.equal((await repository.listAnalysisRuns(graph.id, 'find-cycles', 10))?.length, 1);
+});
@@ -0,0 +1,77 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { importComposeFiles } from '../src/services/composeImport';
+
+const BASE = `
+services:
+  web:
+    depends_on: [api]
+    environment:
+      - API_URL=http://backend:8080
+  api:
+    depends_on:
+      db: {condition: service_healthy}
+    links: ["cache:redis"]
+    environment:
+      DB_HOST: postgres
+      QUEUE_URL: amqp://broker:5672
+    networks:
+      default:
+        aliases: [backend]
+    env_file: .env
+  db:
+    container_name: postgres
+  cache: {}
+`;
+
+const OVERRIDE = `
+services:
+  api:
+    environment:
+      CACHE_HOST: redis
+  worker:
+    depends_on: [missing]
+`;
+
+test('combines compose files and infers dependencies from depends_on, links and environment', () => {
+  const { result, error } = importComposeFiles([
+    { name: 'docker-compose.yml', content: BASE },
+    { name: 'docker-compose.override.yml', content: OVERRIDE },
+  ]);
+
+  assert.equal(error, undefined);
+  const labels = new Map(result!.data.nodes.map(node => [node.id, node.data.label]));
+  assert.deepEqual(Array.from(labels.values()), ['web', 'api', 'db', 'cache', 'worker']);
+  // Hosts resolve through network aliases, container names and link aliases; unknown ones are skipped
+  assert.deepEqual(
+    result!.data.edges.map(edge => [labels.get(edge.source), labels.get(edge.target), edge.label, edge.kind]),
+    [
+      ['web', 'api', 'depends_on, env API_URL', 'sync-rpc'],
+      ['api', 'db', 'depends_on, env DB_HOST', undefined],
+      ['api', 'cache', 'links, env CACHE_HOST', undefined],
+    ]
+  );
+  assert.deepEqual(result!.warnings, [
+    {
+      file: 'docker-compose.yml',
+      key: 'services.api.env_file',
+      message: 'api reads variables from env_file, which is not imported; dependencies declared there are missing',
+    },
+    {
+      file: 'docker-compose.override.yml',
+      key: 'services.worker.depends_on',
+      message: 'worker depends on unknown service "missing"',
+    },
+  ]);
+});
+
+test('rejects files that are not compose files', () => {
+  assert.match(
+    importComposeFiles([{ name: 'broken.yml', content: 'services: [web\n' }]).error ?? '',
+    /^broken\.yml: /
+  );
+  assert.equal(
+    importComposeFiles([{ name: 'values.yml', content: 'replicas: 3\n' }]).error,
+    'values.yml: has no services; is it a docker-compose file?'
+  );
+});
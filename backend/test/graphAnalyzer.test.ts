@@ -0,0 +1,358 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { GraphData } from '../src/db/graphRepository';
+import { EdgeKind, GraphAnalyzer } from '../src/services/graphAnalyzer';
+
+const analyzer = new GraphAnalyzer();
+
+type Dependency = [source: string, target: string, kind?: EdgeKind];
+
+// Services are the endpoints of the dependencies, in order of appearance, plus any listed without one
+const graph = (dependencies: Dependency[], services: string[] = []): GraphData => {
+  const ids = Array.from(new Set([...services, ...dependencies.flatMap(([source, target]) => [source, target])]));
+  return {
+    nodes: ids.map(id => ({ id, position: { x: 0, y: 0 }, data: { label: id } })),
+    edges: dependencies.map(([source, target, kind], i) => ({ id: `e${i}`, source, target, ...(kind && { kind }) })),
+  };
+};
+
+const names = (n: number) => Array.from({ length: n }, (_, i) => `s${String(i).padStart(2, '0')}`);
+
+// Every service depends on every other one
+const complete = (n: number) =>
+  graph(names(n).flatMap(source => names(n).filter(target => target !== source).map((target): Dependency => [source, target])));
+
+// s00 -> s01 -> ... -> s00
+const ring = (n: number) => graph(names(n).map((source, i, all): Dependency => [source, all[(i + 1) % n]]));
+
+const serviceIds = (data: GraphData) => data.nodes.map(node => node.id);
+
+test('findElementaryCycles counts every cycle of complete graphs', () => {
+  for (const [n, expected] of [[3, 5], [4, 20], [5, 84], [6, 409]]) {
+    const data = complete(n);
+    const page = analyzer.findElementaryCycles(data, serviceIds(data), { limit: 1000 });
+
+    assert.equal(page.total, expected, `K${n}`);
+    assert.equal(page.cycles.length, expected);
+    assert.equal(new Set(page.cycles.map(cycle => cycle.nodes.join(','))).size, expected);
+    assert.equal(page.complete, true);
+    assert.equal(page.nextCursor, null);
+  }
+});
+
+test('findElementaryCycles pages through the same cycles in a stable order', () => {
+  const data = complete(5);
+  const all = analyzer.findElementaryCycles(data, serviceIds(data), { limit: 1000 }).cycles;
+
+  const paged = [];
+  const cursors = [];
+  for (let cursor: number | null = 0; cursor !== null; ) {
+    const page = analyzer.findElementaryCycles(data, serviceIds(data), { cursor, limit: 20 });
+    assert.equal(page.total, 84);
+    paged.push(...page.cycles);
+    cursors.push(cursor);
+    cursor = page.nextCursor;
+  }
+
+  assert.deepEqual(cursors, [0, 20, 40, 60, 80]);
+  assert.deepEqual(paged, all);
+});
+
+test('findElementaryCycles stops at maxCycles and reports the truncation', () => {
+  const data = complete(6);
+  const page = analyzer.findElementaryCycles(data, serviceIds(data), { maxCycles: 100, limit: 10 });
+
+  assert.equal(page.total, 100);
+  assert.equal(page.cycles.length, 10);
+  assert.equal(page.complete, false);
+  assert.equal(page.truncatedBy, 'count');
+  assert.equal(page.nextCursor, 10);
+});
+
+test('findElementaryCycles stops when the time budget runs out', t => {
+  // Every look at the clock takes a millisecond, so a 20ms budget runs out partway through K6
+  let now = 0;
+  t.mock.method(Date, 'now', () => now++);
+  const data = complete(6);
+  const page = analyzer.findElementaryCycles(data, serviceIds(data), { timeBudgetMs: 20, limit: 5 });
+
+  assert.ok(page.total > 5 && page.total < 409, `stopped after ${page.total} cycles`);
+  assert.equal(page.cycles.length, 5);
+  assert.equal(page.complete, false);
+  assert.equal(page.truncatedBy, 'time');
+  assert.equal(page.nextCursor, 5);
+});
+
+// Whether cutting the given dependencies leaves no cycle, self-loops included
+const acyclicWithout = (data: GraphData, edgeIds: string[]) => {
+  const remaining = { ...data, edges: data.edges.filter(edge => !edgeIds.includes(edge.id)) };
+  return (
+    analyzer.findStronglyConnectedComponents(remaining).length === 0 &&
+    remaining.edges.every(edge => edge.source !== edge.target)
+  );
+};
+
+test('findFeedbackArcSet solves small components exactly', () => {
+  for (const n of [3, 5, 8]) {
+    const data = complete(n);
+    const arcSet = analyzer.findFeedbackArcSet(data);
+
+    assert.equal(arcSet.size, (n * (n - 1)) / 2, `K${n}`);
+    assert.equal(arcSet.exact, true);
+    assert.ok(acyclicWithout(data, arcSet.edges.map(edge => edge.id)));
+  }
+
+  const data = ring(6);
+  const arcSet = analyzer.findFeedbackArcSet(data);
+  assert.equal(arcSet.size, 1);
+  assert.deepEqual(arcSet.components.map(component => component.method), ['exact']);
+  assert.ok(acyclicWithout(data, arcSet.edges.map(edge => edge.id)));
+});
+
+test('findFeedbackArcSet falls back to the heuristic for large components', () => {
+  // Any ordering of a complete graph cuts one dependency of every pair, so the heuristic is optimal here too
+  const completeData = complete(17);
+  const completeArcSet = analyzer.findFeedbackArcSet(completeData);
+  assert.equal(completeArcSet.size, (17 * 16) / 2);
+  assert.equal(completeArcSet.exact, false);
+  assert.ok(acyclicWithout(completeData, completeArcSet.edges.map(edge => edge.id)));
+
+  const ringData = ring(20);
+  const ringArcSet = analyzer.findFeedbackArcSet(ringData);
+  assert.equal(ringArcSet.size, 1);
+  assert.deepEqual(ringArcSet.components.map(component => component.method), ['heuristic']);
+  assert.ok(acyclicWithout(ringData, ringArcSet.edges.map(edge => edge.id)));
+});
+
+test('findFeedbackArcSet always cuts self-loops and leaves acyclic graphs alone', () => {
+  const data = graph([['api', 'api'], ['api', 'db'], ['web', 'api']]);
+  const arcSet = analyzer.findFeedbackArcSet(data);
+
+  assert.deepEqual(arcSet.edges.map(edge => edge.id), ['e0']);
+  assert.deepEqual(arcSet.components, []);
+});
+
+test('rankCycleCriticality ranks the dependency shared by most cycles first', () => {
+  // Cycles: a ⇄ b and a -> b -> c -> a, which share a -> b
+  const data = graph([['a', 'b'], ['b', 'a'], ['b', 'c'], ['c', 'a'], ['c', 'd']]);
+  const ranking = analyzer.rankCycleCriticality(data, ['a', 'b', 'c']);
+
+  assert.equal(ranking.totalCycles, 2);
+  assert.equal(ranking.complete, true);
+  assert.deepEqual(ranking.edges[0], {
+    edgeId: 'e0',
+    source: 'a',
+    target: 'b',
+    label: undefined,
+    cycleCount: 2,
+    weightedScore: 1 / 2 + 1 / 3,
+  });
+  assert.deepEqual(
+    ranking.edges.slice(1).map(edge => [edge.edgeId, edge.cycleCount]).sort(),
+    [['e1', 1], ['e2', 1], ['e3', 1]]
+  );
+  assert.equal(ranking.edges.find(edge => edge.edgeId === 'e1')?.weightedScore, 1 / 2);
+  assert.deepEqual(
+    ranking.nodes.map(node => [node.nodeId, node.cycleCount]).sort(),
+    [['a', 2], ['b', 2], ['c', 1]]
+  );
+  assert.equal(ranking.nodes[2].nodeId, 'c');
+});
+
+test('buildCondensation collapses cycles and orders release waves by dependency', () => {
+  const data = graph([['web', 'api'], ['api', 'auth'], ['auth', 'api'], ['api', 'db'], ['auth', 'db'], ['worker', 'db']]);
+  const { nodes, edges, waves } = analyzer.buildCondensation(data);
+
+  const servicesOf = new Map(nodes.map(node => [node.id, [...node.nodes].sort().join('+')]));
+  assert.deepEqual(
+    nodes.map(node => [servicesOf.get(node.id), node.cyclic, node.wave]).sort(),
+    [['api+auth', true, 1], ['db', false, 0], ['web', false, 2], ['worker', false, 1]]
+  );
+  assert.deepEqual(
+    edges.map(edge => [servicesOf.get(edge.source), servicesOf.get(edge.target), edge.edgeCount]).sort(),
+    [['api+auth', 'db', 2], ['web', 'api+auth', 1], ['worker', 'db', 1]]
+  );
+  assert.deepEqual(
+    waves.map(wave => [wave.index, [...wave.services].sort()]),
+    [[0, ['db']], [1, ['api', 'auth', 'worker']], [2, ['web']]]
+  );
+});
+
+test('findBoundedCycles finds the cycles up to the length limit, shortest first', () => {
+  // a ⇄ b, the triangle a -> b -> c -> a and the square a -> d -> e -> f -> a
+  const data = graph([['a', 'b'], ['b', 'a'], ['b', 'c'], ['c', 'a'], ['a', 'd'], ['d', 'e'], ['e', 'f'], ['f', 'a']]);
+  const cyclesUpTo = (maxLength: number) =>
+    analyzer.findBoundedCycles(data, serviceIds(data), maxLength).cycles.map(cycle => cycle.nodes);
+
+  assert.deepEqual(cyclesUpTo(2), [['a', 'b']]);
+  assert.deepEqual(cyclesUpTo(3), [['a', 'b'], ['a', 'b', 'c']]);
+  assert.deepEqual(cyclesUpTo(4), [['a', 'b'], ['a', 'b', 'c'], ['a', 'd', 'e', 'f']]);
+
+  const capped = analyzer.findBoundedCycles(data, serviceIds(data), 4, { maxCycles: 2 });
+  assert.equal(capped.total, 2);
+  assert.equal(capped.truncatedBy, 'count');
+});
+
+test('edge filters restrict cycle detection to the chosen dependency kinds', () => {
+  const data = graph([
+    ['orders', 'payments', 'sync-rpc'],
+    ['payments', 'orders', 'sync-rpc'],
+    ['orders', 'inventory', 'sync-rpc'],
+    ['inventory', 'orders', 'async-event'],
+    ['audit', 'orders'],
+    ['orders', 'audit'],
+  ]);
+  const pairs = (filter?: { kinds: EdgeKind[]; includeUntyped?: boolean }) =>
+    analyzer
+      .detectTinyCycles(data, serviceIds(data), filter)
+      .map(({ node1, node2 }) => [node1, node2].sort().join('⇄'))
+      .sort();
+
+  assert.deepEqual(pairs(), ['audit⇄orders', 'inventory⇄orders', 'orders⇄payments']);
+  assert.deepEqual(pairs({ kinds: ['sync-rpc'] }), ['orders⇄payments']);
+  assert.deepEqual(pairs({ kinds: ['sync-rpc', 'async-event'] }), ['inventory⇄orders', 'orders⇄payments']);
+  assert.deepEqual(pairs({ kinds: ['sync-rpc'], includeUntyped: true }), ['audit⇄orders', 'orders⇄payments']);
+  assert.deepEqual(analyzer.findStronglyConnectedComponents(data, { kinds: ['async-event'] }), []);
+});
+
+test('calculateServiceMetrics scores coupling, PageRank and betweenness', () => {
+  // Two clients call the gateway, web twice, and the gateway calls orders
+  const data = graph([['web', 'gateway'], ['web', 'gateway'], ['mobile', 'gateway'], ['gateway', 'orders']]);
+  const { services, betweennessSampled } = analyzer.calculateServiceMetrics(data);
+  const metrics = new Map(services.map(service => [service.nodeId, service]));
+  const gateway = metrics.get('gateway')!;
+
+  assert.equal(betweennessSampled, false);
+  assert.deepEqual(
+    [gateway.inDegree, gateway.outDegree, gateway.afferentCoupling, gateway.efferentCoupling, gateway.instability],
+    [3, 1, 2, 1, 1 / 3]
+  );
+  assert.equal(metrics.get('web')!.instability, 1);
+  assert.equal(metrics.get('orders')!.instability, 0);
+
+  // Only the gateway sits between others: web -> orders and mobile -> orders, of (n - 1)(n - 2) = 6 pairs
+  assert.ok(Math.abs(gateway.betweenness - 2 / 6) < 1e-9);
+  assert.deepEqual(['web', 'mobile', 'orders'].map(id => metrics.get(id)!.betweenness), [0, 0, 0]);
+
+  const pageRank = (id: string) => metrics.get(id)!.pageRank;
+  assert.ok(Math.abs(services.reduce((sum, service) => sum + service.pageRank, 0) - 1) < 1e-6);
+  assert.ok(pageRank('orders') > pageRank('gateway'));
+  assert.ok(pageRank('gateway') > pageRank('web'));
+  assert.ok(Math.abs(pageRank('web') - pageRank('mobile')) < 1e-9);
+});
+
+test('calculateImpact finds the services upstream and downstream with their distance', () => {
+  const data = graph([['web', 'api'], ['api', 'db'], ['worker', 'db'], ['api', 'cache'], ['web', 'cdn']]);
+  const byId = (services: { nodeId: string; depth: number }[]) =>
+    services.map(({ nodeId, depth }) => [nodeId, depth]).sort();
+
+  const db = analyzer.calculateImpact(data, 'db');
+  assert.deepEqual(byId(db.upstream), [['api', 1], ['web', 2], ['worker', 1]]);
+  assert.deepEqual(db.downstream, []);
+
+  const api = analyzer.calculateImpact(data, 'api');
+  assert.deepEqual(byId(api.upstream), [['web', 1]]);
+  assert.deepEqual(byId(api.downstream), [['cache', 1], ['db', 1]]);
+
+  const apiByKind = analyzer.calculateImpact(data, 'api', { kinds: ['sync-rpc'] });
+  assert.deepEqual([apiByKind.upstream, apiByKind.downstream], [[], []]);
+});
+
+test('findDependencyPaths returns the shortest path, then loopless alternatives by length', () => {
+  const data = graph([
+    ['web', 'db'],
+    ['web', 'api'],
+    ['api', 'db'],
+    ['api', 'db'],
+    ['web', 'cache'],
+    ['cache', 'api'],
+    ['db', 'web'],
+  ]);
+  data.edges[2].label = 'reads';
+  data.edges[3].label = 'writes';
+
+  const paths = analyzer.findDependencyPaths(data, 'web', 'db', 10);
+  assert.deepEqual(paths.shortest?.nodes, ['web', 'db']);
+  assert.deepEqual(paths.alternatives.map(path => path.nodes), [['web', 'api', 'db'], ['web', 'cache', 'api', 'db']]);
+  assert.deepEqual(paths.alternatives[0].hops[1], {
+    source: 'api',
+    target: 'db',
+    edgeIds: ['e2', 'e3'],
+    labels: ['reads', 'writes'],
+  });
+  assert.equal(paths.alternatives[1].length, 3);
+
+  assert.equal(analyzer.findDependencyPaths(data, 'web', 'db', 2).alternatives.length, 1);
+
+  assert.deepEqual(analyzer.findDependencyPaths(data, 'db', 'cache', 10).shortest?.nodes, ['db', 'web', 'cache']);
+  assert.equal(analyzer.findDependencyPaths(data, 'cache', 'nowhere', 10).shortest, null);
+});
+
+test('detectCommunities splits loosely linked clusters and reports the coupling between them', () => {
+  // Two tightly knit clusters joined by a single call from checkout to billing
+  const data = graph([
+    ['cart', 'checkout'],
+    ['checkout', 'cart'],
+    ['checkout', 'catalog'],
+    ['catalog', 'cart'],
+    ['billing', 'invoices'],
+    ['invoices', 'billing'],
+    ['invoices', 'ledger'],
+    ['ledger', 'billing'],
+    ['checkout', 'billing'],
+  ]);
+  const report = analyzer.detectCommunities(data);
+
+  assert.deepEqual(
+    report.communities.map(community => [...community.nodes].sort()).sort(),
+    [['billing', 'invoices', 'ledger'], ['cart', 'catalog', 'checkout']]
+  );
+  assert.deepEqual(
+    report.communities.map(community => [community.internalEdges, community.externalEdges]),
+    [[4, 1], [4, 1]]
+  );
+  assert.equal(report.assignment.cart, report.assignment.catalog);
+  assert.notEqual(report.assignment.cart, report.assignment.billing);
+  assert.ok(report.modularity > 0.3, `modularity ${report.modularity}`);
+  assert.deepEqual(
+    report.hotSpots.map(({ source, target, edgeCount, edges }) => [source, target, edgeCount, edges.map(edge => edge.id)]),
+    [[report.assignment.checkout, report.assignment.billing, 1, ['e8']]]
+  );
+
+  // At a high enough resolution every service is its own context
+  assert.equal(analyzer.detectCommunities(data, 10).communities.length, 6);
+});
+
+test('findSinglePointsOfFailure finds articulation points, bridges and dominators', () => {
+  const data = graph([
+    ['gateway', 'api'],
+    ['mobile', 'api'],
+    ['api', 'orders'],
+    ['api', 'users'],
+    ['orders', 'db'],
+    ['users', 'db'],
+    ['db', 'backup'],
+  ]);
+  const report = analyzer.findSinglePointsOfFailure(data);
+
+  assert.deepEqual([...report.articulationPoints].sort(), ['api', 'db']);
+  assert.deepEqual(report.bridges.map(bridge => bridge.id).sort(), ['e0', 'e1', 'e6']);
+  assert.deepEqual([...report.entryPoints].sort(), ['gateway', 'mobile']);
+
+  const dominators = new Map(report.dominatorTree.map(node => [node.nodeId, node]));
+  // Both entry points reach the api, so neither dominates it
+  assert.equal(dominators.get('api')!.immediateDominator, null);
+  assert.deepEqual(
+    ['orders', 'users', 'db', 'backup'].map(id => dominators.get(id)!.immediateDominator),
+    ['api', 'api', 'api', 'db']
+  );
+  assert.deepEqual(
+    report.chokepoints.map(node => [node.nodeId, node.dominatedCount]),
+    [['api', 4], ['db', 1]]
+  );
+
+  const fromGateway = analyzer.findSinglePointsOfFailure(data, ['gateway']);
+  assert.deepEqual(fromGateway.entryPoints, ['gateway']);
+  assert.equal(fromGateway.dominatorTree.some(node => node.nodeId === 'mobile'), false);
+  assert.deepEqual(fromGateway.chokepoints.map(node => node.nodeId), ['api', 'db']);
+});
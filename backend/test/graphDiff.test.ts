@@ -0,0 +1,83 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { GraphData } from '../src/db/graphRepository';
+import { diffGraphs } from '../src/services/graphDiff';
+
+const BEFORE: GraphData = {
+  nodes: [
+    { id: 'orders', position: { x: 0, y: 0 }, data: { label: 'Orders' } },
+    { id: 'payments', position: { x: 100, y: 0 }, data: { label: 'Payments' } },
+    { id: 'legacy', position: { x: 200, y: 0 }, data: { label: 'Legacy billing' } },
+  ],
+  edges: [
+    { id: 'charge', source: 'orders', target: 'payments', label: 'charge' },
+    { id: 'invoice', source: 'orders', target: 'legacy', kind: 'sync-rpc' },
+  ],
+};
+
+test('an unchanged graph has an empty diff, whatever its layout', () => {
+  const moved: GraphData = {
+    ...BEFORE,
+    nodes: BEFORE.nodes.map(node => ({ ...node, position: { x: node.position.x + 50, y: 80 } })),
+  };
+
+  assert.deepEqual(diffGraphs(BEFORE, moved), {
+    addedServices: [],
+    removedServices: [],
+    changedServices: [],
+    addedDependencies: [],
+    removedDependencies: [],
+    changedDependencies: [],
+  });
+});
+
+test('services and dependencies are matched by id and reported with service labels', () => {
+  const after: GraphData = {
+    nodes: [
+      { id: 'orders', position: { x: 0, y: 0 }, data: { label: 'Orders' } },
+      { id: 'payments', position: { x: 100, y: 0 }, data: { label: 'Payment gateway' } },
+      { id: 'billing', position: { x: 200, y: 0 }, data: { label: 'Billing' } },
+    ],
+    edges: [
+      { id: 'charge', source: 'orders', target: 'billing', label: 'charge', kind: 'async-event' },
+      { id: 'settle', source: 'billing', target: 'payments' },
+    ],
+  };
+
+  assert.deepEqual(diffGraphs(BEFORE, after), {
+    addedServices: [{ id: 'billing', label: 'Billing' }],
+    removedServices: [{ id: 'legacy', label: 'Legacy billing' }],
+    changedServices: [
+      { id: 'payments', label: 'Payment gateway', changes: [{ field: 'label', before: 'Payments', after: 'Payment gateway' }] },
+    ],
+    addedDependencies: [
+      { id: 'settle', source: 'billing', target: 'payments', sourceLabel: 'Billing', targetLabel: 'Payment gateway' },
+    ],
+    // The removed service's label is still known from the old version
+    removedDependencies: [
+      {
+        id: 'invoice',
+        source: 'orders',
+        target: 'legacy',
+        sourceLabel: 'Orders',
+        targetLabel: 'Legacy billing',
+        kind: 'sync-rpc',
+      },
+    ],
+    changedDependencies: [
+      {
+        id: 'charge',
+        source: 'orders',
+        target: 'billing',
+        sourceLabel: 'Orders',
+        targetLabel: 'Billing',
+        label: 'charge',
+        kind: 'async-event',
+        changes: [
+          { field: 'target', before: 'Payment gateway', after: 'Billing' },
+          { field: 'kind', before: null, after: 'async-event' },
+        ],
+      },
+    ],
+  });
+});
@@ -0,0 +1,113 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'node:net';
+import express from 'express';
+import graphRoutes from '../src/routes/graphs';
+import { closeRepository, initRepository } from '../src/db/repository';
+import { MemoryGraphRepository } from '../src/db/memoryGraphRepository';
+import {
+  GRAPH_SORT_FIELDS,
+  GraphData,
+  GraphQuery,
+  GraphRepository,
+  GraphSummary,
+  graphSortValue,
+} from '../src/db/graphRepository';
+
+const METADATA = { description: '', tags: [], ownerTeam: '' };
+
+// A chain of services; graphs share sizes and names differ only in case, so every sort has ties
+const chain = (length: number): GraphData => ({
+  nodes: Array.from({ length }, (_, i) => ({ id: `n${i}`, position: { x: 0, y: 0 }, data: { label: `s${i}` } })),
+  edges: Array.from({ length: Math.max(length - 1, 0) }, (_, i) => ({ id: `e${i}`, source: `n${i}`, target: `n${i + 1}` })),
+});
+
+const GRAPHS: Array<[name: string, size: number]> = [
+  ['Orders', 3],
+  ['billing', 1],
+  ['orders', 0],
+  ['Auth', 3],
+  ['search', 1],
+];
+
+const createGraphs = async (repository: GraphRepository) => {
+  for (const [name, size] of GRAPHS) {
+    await repository.createGraphWithData(name, METADATA, chain(size), 'test', 'Initial version');
+  }
+};
+
+const compare = (a: string | number, b: string | number) => (a < b ? -1 : a > b ? 1 : 0);
+
+// What one unpaged, fully sorted listing would return
+const expectedOrder = (graphs: GraphSummary[], sort: GraphQuery['sort'], order: GraphQuery['order']) =>
+  graphs
+    .map(graph => ({ id: graph.id, value: graphSortValue(graph, sort) }))
+    .sort((a, b) => (order === 'asc' ? 1 : -1) * (compare(a.value, b.value) || compare(a.id, b.id)))
+    .map(({ id }) => id);
+
+test('paging through the memory store visits every graph once, in order, for every sort', async () => {
+  const repository = await MemoryGraphRepository.open();
+  await createGraphs(repository);
+  const all = (await repository.listGraphs({ sort: 'name', order: 'asc', limit: 100 })).graphs;
+
+  for (const sort of GRAPH_SORT_FIELDS) {
+    for (const order of ['asc', 'desc'] as const) {
+      const query: GraphQuery = { sort, order, limit: 2 };
+      const visited: string[] = [];
+      for (;;) {
+        const page = await repository.listGraphs(query);
+        assert.equal(page.total, GRAPHS.length);
+        visited.push(...page.graphs.map(graph => graph.id));
+        const last = page.graphs[page.graphs.length - 1];
+        if (!page.hasMore) break;
+        query.after = { value: graphSortValue(last, sort), id: last.id };
+      }
+
+      assert.deepEqual(visited, expectedOrder(all, sort, order), `${sort} ${order}`);
+    }
+  }
+});
+
+test('GET /api/graphs pages with cursors and keeps the plain array for clients without parameters', async t => {
+  process.env.STORAGE = 'memory';
+  t.mock.method(console, 'log', () => {});
+  const repository = await initRepository();
+  t.after(closeRepository);
+  await createGraphs(repository);
+
+  const app = express();
+  app.use(express.json());
+  app.use('/api/graphs', graphRoutes);
+  const server = app.listen(0);
+  t.after(() => server.close());
+  const { port } = server.address() as AddressInfo;
+  const list = async (query: string) => {
+    const response = await fetch(`http://localhost:${port}/api/graphs${query}`);
+    return { status: response.status, body: await response.json() };
+  };
+
+  const unpaged = await list('');
+  assert.equal(unpaged.status, 200);
+  assert.ok(Array.isArray(unpaged.body));
+  assert.deepEqual(
+    unpaged.body.map((graph: GraphSummary) => graph.id),
+    expectedOrder(unpaged.body, 'createdAt', 'desc')
+  );
+  assert.equal(unpaged.body.length, GRAPHS.length);
+
+  const visited: string[] = [];
+  let cursor: string | null = null;
+  do {
+    const page = await list(`?sort=nodeCount&order=asc&limit=2${cursor ? `&cursor=${cursor}` : ''}`);
+    assert.equal(page.status, 200);
+    assert.equal(page.body.total, GRAPHS.length);
+    visited.push(...page.body.graphs.map((graph: GraphSummary) => graph.id));
+    cursor = page.body.nextCursor;
+  } while (cursor);
+  assert.deepEqual(visited, expectedOrder(unpaged.body, 'nodeCount', 'asc'));
+
+  const first = await list('?sort=name&limit=1');
+  const mismatched = await list(`?sort=edgeCount&cursor=${first.body.nextCursor}`);
+  assert.equal(mismatched.status, 400);
+  assert.equal(mismatched.body.error, 'cursor is invalid or does not match sort and order');
+});
@@ -0,0 +1,57 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { GraphData } from '../src/db/graphRepository';
+import { cloneGraphData, mergeGraphs } from '../src/services/graphMerge';
+
+// Graphs written by hand or by other tools before saves were validated may have no usable positions
+const unpositioned = (labels: string[], dependencies: [number, number][]): GraphData => ({
+  nodes: labels.map((label, i) => ({ id: `n${i}`, position: { x: NaN, y: NaN }, data: { label } })),
+  edges: dependencies.map(([source, target], i) => ({ id: `e${i}`, source: `n${source}`, target: `n${target}` })),
+});
+
+test('graphs without positions are laid out side by side instead of piling up', () => {
+  const { data } = mergeGraphs([
+    { graphId: 'a', name: 'A', data: unpositioned(['web', 'orders', 'payments'], [[0, 1], [0, 2]]) },
+    { graphId: 'b', name: 'B', data: unpositioned(['billing', 'ledger'], [[0, 1]]) },
+  ]);
+
+  const positions = data.nodes.map(node => `${node.position.x},${node.position.y}`);
+  assert.equal(new Set(positions).size, data.nodes.length);
+
+  const xOf = (label: string) => data.nodes.find(node => node.data.label === label)!.position.x;
+  const rightmostOfA = Math.max(xOf('web'), xOf('orders'), xOf('payments'));
+  assert.ok(xOf('billing') > rightmostOfA);
+  assert.ok(xOf('ledger') > rightmostOfA);
+});
+
+test('a clone gets fresh ids and keeps everything else, without sharing objects with the original', () => {
+  const original: GraphData = {
+    nodes: [
+      { id: 'orders', type: 'input', position: { x: 10, y: 20 }, data: { label: 'Orders', team: 'checkout' } },
+      { id: 'payments', position: { x: 200, y: 20 }, data: { label: 'Payments' } },
+    ],
+    edges: [
+      { id: 'charge', source: 'orders', target: 'payments', label: 'charge', kind: 'sync-rpc', data: { offset: 1 } },
+      { id: 'refund', source: 'payments', target: 'orders' },
+    ],
+  };
+  const before = structuredClone(original);
+
+  const clone = cloneGraphData(original);
+
+  assert.deepEqual(clone, {
+    nodes: [
+      { id: 'node_1', type: 'input', position: { x: 10, y: 20 }, data: { label: 'Orders', team: 'checkout' } },
+      { id: 'node_2', position: { x: 200, y: 20 }, data: { label: 'Payments' } },
+    ],
+    edges: [
+      { id: 'e-node_1-node_2-1', source: 'node_1', target: 'node_2', label: 'charge', kind: 'sync-rpc', data: { offset: 1 } },
+      { id: 'e-node_2-node_1-2', source: 'node_2', target: 'node_1' },
+    ],
+  });
+
+  clone.nodes[0].position.x = 999;
+  clone.nodes[0].data.label = 'Renamed';
+  clone.edges[0].data!.offset = 5;
+  assert.deepEqual(original, before);
+});
@@ -0,0 +1,91 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'node:net';
+import express from 'express';
+import graphRoutes from '../src/routes/graphs';
+import { closeRepository, initRepository } from '../src/db/repository';
+import { validateGraphData } from '../src/services/graphSchema';
+
+const VALID = {
+  nodes: [
+    { id: 'orders', type: 'default', position: { x: 0, y: 0 }, data: { label: 'Orders' }, style: { width: 120 } },
+    { id: 'payments', position: { x: 200, y: 0 }, data: { label: 'Payments' } },
+  ],
+  edges: [{ id: 'e1', source: 'orders', target: 'payments', label: null, kind: 'sync-rpc', animated: true }],
+};
+
+test('valid graphs pass, fields outside the schema included', () => {
+  assert.deepEqual(validateGraphData(VALID), []);
+  assert.deepEqual(validateGraphData({ nodes: [], edges: [] }), []);
+});
+
+test('payloads without node and edge lists are rejected as a whole', () => {
+  assert.deepEqual(validateGraphData(null), [{ path: 'data', message: 'must be an object with nodes and edges' }]);
+  assert.deepEqual(validateGraphData({ nodes: {} }), [
+    { path: 'nodes', message: 'must be an array' },
+    { path: 'edges', message: 'must be an array' },
+  ]);
+});
+
+test('every bad node and edge is reported with its path', () => {
+  const violations = validateGraphData({
+    nodes: [
+      { id: 'orders', position: { x: 0, y: 0 }, data: { label: 'Orders' } },
+      { id: 'orders', type: 3, position: { x: 'left', y: Infinity }, data: { label: 'Copy' } },
+      { id: '', position: null, data: {} },
+      'payments',
+    ],
+    edges: [
+      { id: 'e1', source: 'orders', target: 'shipping', kind: 'carrier-pigeon' },
+      { id: 'e1', source: '', target: 'orders', label: 7, type: false },
+      null,
+    ],
+  });
+
+  assert.deepEqual(violations, [
+    { path: 'nodes[1].id', message: 'duplicates the id of nodes[0] ("orders")' },
+    { path: 'nodes[1].type', message: 'must be a string' },
+    { path: 'nodes[1].position.x', message: 'must be a finite number' },
+    { path: 'nodes[1].position.y', message: 'must be a finite number' },
+    { path: 'nodes[2].id', message: 'must be a non-empty string' },
+    { path: 'nodes[2].position', message: 'must be an object with numeric x and y' },
+    { path: 'nodes[2].data.label', message: 'must be a string' },
+    { path: 'nodes[3]', message: 'must be an object' },
+    { path: 'edges[0].target', message: 'references unknown node "shipping"' },
+    { path: 'edges[0].kind', message: 'must be one of: sync-rpc, async-event, shared-db, library, other' },
+    { path: 'edges[1].id', message: 'duplicates the id of edges[0] ("e1")' },
+    { path: 'edges[1].source', message: 'must be a non-empty string' },
+    { path: 'edges[1].label', message: 'must be a string' },
+    { path: 'edges[1].type', message: 'must be a string' },
+    { path: 'edges[2]', message: 'must be an object' },
+  ]);
+});
+
+test('saving an invalid graph is refused with 422 and the violations, and stores nothing', async t => {
+  process.env.STORAGE = 'memory';
+  t.mock.method(console, 'log', () => {});
+  const repository = await initRepository();
+  t.after(closeRepository);
+  const graph = await repository.createGraph('shop', { description: '', tags: [], ownerTeam: '' });
+
+  const app = express();
+  app.use(express.json());
+  app.use('/api/graphs', graphRoutes);
+  const server = app.listen(0);
+  t.after(() => server.close());
+  const { port } = server.address() as AddressInfo;
+
+  const response = await fetch(`http://localhost:${port}/api/graphs/${graph.id}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json', 'If-Match': '"0"' },
+    body: JSON.stringify({ data: { nodes: VALID.nodes, edges: [{ id: 'e1', source: 'orders', target: 'ghost' }] } }),
+  });
+
+  assert.equal(response.status, 422);
+  assert.deepEqual(await response.json(), {
+    error: 'Graph data is invalid',
+    violations: [{ path: 'edges[0].target', message: 'references unknown node "ghost"' }],
+    violationCount: 1,
+  });
+  assert.equal((await repository.getGraph(graph.id))?.revision, 0);
+});
@@ -0,0 +1,86 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { GraphData } from '../src/db/graphRepository';
+import { GraphAnalyzer } from '../src/services/graphAnalyzer';
+import { GraphPatch, GraphSimulator } from '../src/services/graphSimulator';
+
+const simulator = new GraphSimulator(new GraphAnalyzer());
+
+// orders -> payments -> orders, plus a call to inventory outside the cycle
+const shop = (): GraphData => ({
+  nodes: ['orders', 'payments', 'inventory'].map(id => ({ id, position: { x: 0, y: 0 }, data: { label: id } })),
+  edges: [
+    { id: 'charge', source: 'orders', target: 'payments' },
+    { id: 'callback', source: 'payments', target: 'orders' },
+    { id: 'reserve', source: 'orders', target: 'inventory' },
+  ],
+});
+
+test('patches that do not fit the graph are rejected with a reason', () => {
+  const invalid: Array<[unknown, RegExp]> = [
+    [null, /must be an object/],
+    [{ removeNodes: 'orders' }, /removeNodes/],
+    [{ removeNodes: ['shipping'] }, /shipping/],
+    [{ addNodes: [{ id: 'broker' }] }, /string id and label/],
+    [{ addNodes: [{ id: 'broker', label: 'Broker', position: { x: '1', y: 0 } }] }, /numeric x and y/],
+    [{ rerouteEdges: [{ edgeId: 7 }] }, /unknown or removed call/],
+    [{ removeEdges: ['callback'], rerouteEdges: [{ edgeId: 'callback', target: 'inventory' }] }, /callback/],
+    [{ rerouteEdges: [{ edgeId: 'callback', target: 'shipping' }] }, /unknown service shipping/],
+    [{ removeNodes: ['inventory'], addEdges: [{ source: 'payments', target: 'inventory' }] }, /unknown service/],
+    [{ addEdges: [{ source: 'payments', target: 'inventory', label: 3 }] }, /string label/],
+    [{ addEdges: [{ source: 'payments', target: 'inventory', kind: 'carrier-pigeon' }] }, /kind must be one of/],
+    [{ addEdges: [{ id: 'charge', source: 'payments', target: 'inventory' }] }, /charge already exists/],
+  ];
+
+  for (const [patch, reason] of invalid) {
+    assert.match(simulator.validatePatch(shop(), patch) ?? '', reason, JSON.stringify(patch));
+  }
+});
+
+test('a removed service takes its calls with it and may be replaced in the same patch', () => {
+  const patch: GraphPatch = {
+    removeNodes: ['inventory'],
+    addNodes: [{ id: 'stock', label: 'Stock', position: { x: 10, y: 20 } }],
+    addEdges: [{ source: 'orders', target: 'stock', kind: 'async-event' }],
+  };
+  assert.equal(simulator.validatePatch(shop(), patch), null);
+
+  const patched = simulator.applyPatch(shop(), patch);
+
+  assert.deepEqual(patched.nodes.map(node => node.id), ['orders', 'payments', 'stock']);
+  assert.deepEqual(patched.nodes[2].position, { x: 10, y: 20 });
+  assert.deepEqual(
+    patched.edges.map(edge => [edge.id, edge.source, edge.target, edge.kind]),
+    [
+      ['charge', 'orders', 'payments', undefined],
+      ['callback', 'payments', 'orders', undefined],
+      ['sim_e_0', 'orders', 'stock', 'async-event'],
+    ]
+  );
+});
+
+test('routing a callback through a new broker breaks the cycle without touching the stored graph', () => {
+  const graphData = shop();
+  const patch = {
+    addNodes: [{ id: 'broker', label: 'Broker' }],
+    rerouteEdges: [{ edgeId: 'callback', target: 'broker' }],
+    addEdges: [{ id: 'consume', source: 'orders', target: 'broker' }],
+  };
+  assert.equal(simulator.validatePatch(graphData, patch), null);
+
+  const { before, after, graphData: patched } = simulator.simulate(graphData, patch);
+
+  assert.deepEqual(before.cycles, { total: 1, complete: true });
+  assert.equal(before.cyclicServices, 2);
+  assert.equal(before.tinyCycles, 1);
+  assert.deepEqual(after.cycles, { total: 0, complete: true });
+  assert.equal(after.cyclicServices, 0);
+  assert.equal(after.nodeCount, 4);
+  assert.equal(after.edgeCount, 4);
+  assert.deepEqual(patched.edges.find(edge => edge.id === 'callback'), {
+    id: 'callback',
+    source: 'payments',
+    target: 'broker',
+  });
+  assert.deepEqual(graphData, shop());
+});
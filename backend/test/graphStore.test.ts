@@ -0,0 +1,157 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import neo4j, { ManagedTransaction } from 'neo4j-driver';
+import { GraphData, summarizeGraph } from '../src/db/graphRepository';
+import { loadGraph, saveGraphData } from '../src/db/graphStore';
+
+type Properties = Record<string, unknown>;
+
+/**
+ * Stands in for a transaction on a single graph: keeps what saveGraphData
+ * writes to each (:Service) and [:DEPENDS_ON] and answers loadGraph's reads
+ * with it, the way Neo4j hands back stored properties (integers as Integers).
+ */
+const fakeTransaction = (graph: Properties) => {
+  const services = new Map<string, Properties>();
+  const dependencies = new Map<string, { source: string; target: string; properties: Properties }>();
+  const record = (fields: Properties) => ({ get: (key: string) => fields[key] });
+  const stored = (properties: Properties) => ({ ...properties, order: neo4j.int(properties.order as number) });
+  const byOrder = (a: Properties, b: Properties) => Number(a.order) - Number(b.order);
+
+  const run = async (query: string, params: Properties) => {
+    if (query.includes('SET g += $stats')) {
+      Object.assign(graph, params.stats);
+      return { records: [record({ id: graph.id })] };
+    }
+    if (query.includes('UNWIND $services')) {
+      for (const service of params.services as Array<{ id: string; properties: Properties }>) {
+        services.set(service.id, { ...services.get(service.id), ...stored(service.properties), id: service.id });
+      }
+    } else if (query.includes('UNWIND $dependencies')) {
+      for (const { id, source, target, properties } of params.dependencies as Array<{
+        id: string;
+        source: string;
+        target: string;
+        properties: Properties;
+      }>) {
+        dependencies.set(id, { source, target, properties: { ...stored(properties), id } });
+      }
+    } else if (query.includes('RETURN properties(g) as graph')) {
+      return { records: [record({ graph, revision: neo4j.int(1) })] };
+    } else if (query.includes('RETURN properties(s)')) {
+      return { records: [...services.values()].sort(byOrder).map(properties => record({ properties })) };
+    } else if (query.includes('RETURN a.id as source')) {
+      return {
+        records: [...dependencies.values()]
+          .sort((a, b) => byOrder(a.properties, b.properties))
+          .map(dependency => record(dependency)),
+      };
+    }
+    return { records: [] };
+  };
+
+  // graphStore only ever calls run()
+  return { services, dependencies, tx: { run } as unknown as ManagedTransaction };
+};
+
+// Rendering-only fields ReactFlow adds, which GraphData does not name
+const ORDERS_STYLE = { style: { background: '#fee' } };
+const CHARGE_RENDERING = { animated: true, markerEnd: { type: 'arrowclosed' } };
+
+const GRAPH: GraphData = {
+  nodes: [
+    {
+      ...ORDERS_STYLE,
+      id: 'orders',
+      type: 'input',
+      position: { x: 10, y: 20.5 },
+      data: { label: 'Orders', team: 'checkout' },
+    },
+    { id: 'payments', position: { x: 200, y: 0 }, data: { label: 'Payments' } },
+  ],
+  edges: [
+    {
+      ...CHARGE_RENDERING,
+      id: 'charge',
+      source: 'orders',
+      target: 'payments',
+      label: 'charge',
+      kind: 'sync-rpc',
+      type: 'smoothstep',
+    },
+    { id: 'refund', source: 'payments', target: 'orders', data: { retries: 3 } },
+  ],
+};
+
+test('services and dependencies are stored as native properties with the rest kept as attributes', async () => {
+  const { services, dependencies, tx } = fakeTransaction({ id: 'g1' });
+
+  assert.equal(await saveGraphData(tx, 'g1', GRAPH), true);
+
+  assert.deepEqual(services.get('orders'), {
+    id: 'orders',
+    label: 'Orders',
+    type: 'input',
+    x: 10,
+    y: 20.5,
+    order: neo4j.int(0),
+    attributes: JSON.stringify({ ...ORDERS_STYLE, data: { team: 'checkout' } }),
+  });
+  assert.equal(services.get('payments')?.attributes, null);
+  assert.deepEqual(dependencies.get('charge'), {
+    source: 'orders',
+    target: 'payments',
+    properties: {
+      id: 'charge',
+      label: 'charge',
+      type: 'smoothstep',
+      kind: 'sync-rpc',
+      order: neo4j.int(0),
+      attributes: JSON.stringify(CHARGE_RENDERING),
+    },
+  });
+  assert.deepEqual(dependencies.get('refund')?.properties, {
+    id: 'refund',
+    label: null,
+    type: null,
+    kind: null,
+    order: neo4j.int(1),
+    attributes: JSON.stringify({ data: { retries: 3 } }),
+  });
+});
+
+test('a saved graph loads back exactly as it was saved, in order', async () => {
+  const graph = { id: 'g1', name: 'shop', createdAt: '2024-01-01T00:00:00.000Z' };
+  const { tx } = fakeTransaction(graph);
+  await saveGraphData(tx, 'g1', GRAPH);
+
+  const loaded = await loadGraph(tx, 'g1');
+
+  assert.deepEqual(loaded?.data, GRAPH);
+  assert.equal(loaded?.revision, 1);
+  assert.deepEqual(loaded?.stats, summarizeGraph(GRAPH));
+});
+
+test('graphs saved before metadata existed load with defaults', async () => {
+  const { tx } = fakeTransaction({
+    id: 'g1',
+    name: 'legacy',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    nodeCount: neo4j.int(0),
+  });
+
+  const loaded = await loadGraph(tx, 'g1');
+
+  assert.deepEqual(loaded, {
+    id: 'g1',
+    name: 'legacy',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    description: '',
+    tags: [],
+    ownerTeam: '',
+    stats: { nodeCount: 0, edgeCount: 0, sccCount: 0 },
+    revision: 1,
+    data: { nodes: [], edges: [] },
+  });
+});
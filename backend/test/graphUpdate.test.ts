@@ -0,0 +1,73 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'node:net';
+import express from 'express';
+import graphRoutes from '../src/routes/graphs';
+import { closeRepository, initRepository } from '../src/db/repository';
+import { GraphData } from '../src/db/graphRepository';
+
+const graphOf = (...labels: string[]): GraphData => ({
+  nodes: labels.map((label, i) => ({ id: `node_${i}`, position: { x: i * 100, y: 0 }, data: { label } })),
+  edges: [],
+});
+
+test('saves need the revision they were based on and conflicting saves get the current graph', async t => {
+  process.env.STORAGE = 'memory';
+  t.mock.method(console, 'log', () => {});
+  const repository = await initRepository();
+  t.after(closeRepository);
+  const graph = await repository.createGraph('shop', { description: '', tags: [], ownerTeam: '' });
+
+  const app = express();
+  app.use(express.json());
+  app.use('/api/graphs', graphRoutes);
+  const server = app.listen(0);
+  t.after(() => server.close());
+  const { port } = server.address() as AddressInfo;
+  const url = `http://localhost:${port}/api/graphs/${graph.id}`;
+  const put = async (data: GraphData, ifMatch: string | null, author: string) => {
+    const response = await fetch(url, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', ...(ifMatch !== null && { 'If-Match': ifMatch }) },
+      body: JSON.stringify({ data, author, message: `Saved by ${author}` }),
+    });
+    return { status: response.status, etag: response.headers.get('ETag'), body: await response.json() };
+  };
+
+  const loaded = await fetch(url);
+  assert.equal(loaded.headers.get('ETag'), '"0"');
+
+  const withoutRevision = await put(graphOf('orders'), null, 'ana');
+  assert.equal(withoutRevision.status, 428);
+  assert.match(withoutRevision.body.error, /If-Match/);
+  assert.equal((await put(graphOf('orders'), '0', 'ana')).status, 400);
+  assert.equal((await repository.getGraph(graph.id))?.revision, 0);
+
+  const saved = await put(graphOf('orders'), '"0"', 'ana');
+  assert.equal(saved.status, 200);
+  assert.equal(saved.etag, '"1"');
+  assert.equal(saved.body.revision, 1);
+
+  // Bo loaded revision 0 too and saves without having seen Ana's change
+  const conflict = await put(graphOf('payments'), '"0"', 'bo');
+  assert.equal(conflict.status, 409);
+  assert.equal(conflict.etag, '"1"');
+  assert.equal(conflict.body.revision, 1);
+  assert.deepEqual(conflict.body.data, graphOf('orders'));
+  assert.equal(conflict.body.lastSave.author, 'ana');
+  assert.equal(conflict.body.lastSave.message, 'Saved by ana');
+  assert.deepEqual(await repository.getGraphData(graph.id), graphOf('orders'));
+
+  // After merging, Bo saves against the revision the conflict reported
+  const merged = await put(graphOf('orders', 'payments'), conflict.etag, 'bo');
+  assert.equal(merged.status, 200);
+  assert.equal(merged.body.version, 2);
+
+  const overwritten = await put(graphOf('search'), '*', 'cy');
+  assert.equal(overwritten.status, 200);
+  assert.equal(overwritten.etag, '"3"');
+  assert.deepEqual(
+    (await repository.listVersions(graph.id))?.map(version => version.author),
+    ['cy', 'bo', 'ana']
+  );
+});
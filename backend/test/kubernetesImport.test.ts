@@ -0,0 +1,164 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { importKubernetesManifests } from '../src/services/kubernetesImport';
+
+const RENDERED = `---
+# Source: monitoring/templates/rules.yaml
+apiVersion: v1
+kind: ConfigMap
+metadata:
+  name: alert-rules
+data:
+  rules.yaml: |
+    groups:
+      - name: instances
+        rules:
+          - alert: InstanceDown
+            annotations:
+              summary: "{{ .Labels.instance }} is down"
+  summary: "{{ .Labels.job }}"
+---
+# Source: monitoring/templates/web.yaml
+apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: web
+spec:
+  template:
+    metadata:
+      labels: {app: web}
+    spec:
+      containers:
+        - name: web
+          env:
+            - name: ORDERS_URL
+              value: http://orders.default.svc:8080
+---
+apiVersion: v1
+kind: Service
+metadata:
+  name: orders
+spec:
+  type: ExternalName
+  externalName: orders.example.com
+`;
+
+test('accepts rendered manifests with template text in ConfigMap values', () => {
+  const { result, error } = importKubernetesManifests([{ name: 'rendered.yaml', content: RENDERED }]);
+
+  assert.equal(error, undefined);
+  assert.deepEqual(result!.data.nodes.map(node => node.data.label), ['web', 'orders']);
+  assert.deepEqual(result!.data.edges[0].data.origins, [
+    {
+      file: 'rendered.yaml (monitoring/templates/web.yaml)',
+      key: 'Deployment/web: spec.template.spec.containers[0].env[0].value',
+    },
+  ]);
+});
+
+test('rejects unrendered chart templates', () => {
+  const templates = [
+    'apiVersion: apps/v1\nkind: Deployment\nmetadata:\n  name: {{ .Release.Name }}\n',
+    '{{- include "app.deployment" . }}\n',
+    'apiVersion: v1\nkind: Service\nmetadata:\n  labels:\n    {{- include "app.labels" . | nindent 4 }}\n',
+  ];
+
+  for (const content of templates) {
+    const { error } = importKubernetesManifests([{ name: 'deployment.yaml', content }]);
+    assert.match(error ?? '', /unrendered Helm template/, content);
+  }
+});
+
+const CLUSTER = `
+apiVersion: networking.k8s.io/v1
+kind: Ingress
+metadata: {name: shop}
+spec:
+  rules:
+    - http:
+        paths:
+          - path: /
+            backend: {service: {name: web, port: {number: 80}}}
+---
+apiVersion: apps/v1
+kind: Deployment
+metadata: {name: web}
+spec:
+  template:
+    metadata:
+      labels: {app: web}
+    spec:
+      containers:
+        - name: web
+          env:
+            - name: ORDERS_URL
+              value: http://orders:8080
+            - name: PAYMENTS_HOST
+              valueFrom:
+                configMapKeyRef: {name: endpoints, key: payments}
+          envFrom:
+            - secretRef: {name: web-credentials}
+---
+apiVersion: apps/v1
+kind: StatefulSet
+metadata: {name: orders}
+spec:
+  template:
+    metadata:
+      labels: {app: orders}
+    spec:
+      containers:
+        - name: orders
+      volumes:
+        - name: config
+          configMap:
+            name: orders-config
+            items:
+              - key: queue.url
+                path: queue.url
+---
+apiVersion: v1
+kind: ConfigMap
+metadata: {name: endpoints}
+data:
+  payments: payments.default.svc
+---
+apiVersion: v1
+kind: ConfigMap
+metadata: {name: orders-config}
+data:
+  queue.url: amqp://queue:5672
+  unmounted.url: http://payments:80
+---
+apiVersion: v1
+kind: List
+items:
+  - {apiVersion: v1, kind: Service, metadata: {name: web}, spec: {selector: {app: web}}}
+  - {apiVersion: v1, kind: Service, metadata: {name: orders}, spec: {selector: {app: orders}}}
+  - {apiVersion: v1, kind: Service, metadata: {name: payments}, spec: {type: ExternalName, externalName: pay.example.com}}
+  - {apiVersion: v1, kind: Service, metadata: {name: queue}, spec: {selector: {app: queue}}}
+`;
+
+test('infers dependencies from env, ConfigMaps and Ingress backends through Service selectors', () => {
+  const { result, error } = importKubernetesManifests([{ name: 'cluster.yaml', content: CLUSTER }]);
+
+  assert.equal(error, undefined);
+  const labels = new Map(result!.data.nodes.map(node => [node.id, node.data.label]));
+  assert.deepEqual(Array.from(labels.values()), ['shop', 'web', 'orders', 'payments', 'queue']);
+  assert.deepEqual(
+    result!.data.edges.map(edge => [labels.get(edge.source), labels.get(edge.target), edge.label, edge.kind]),
+    [
+      ['web', 'orders', 'env ORDERS_URL', 'sync-rpc'],
+      ['web', 'payments', 'env PAYMENTS_HOST from endpoints', undefined],
+      ['orders', 'queue', 'config orders-config/queue.url', 'async-event'],
+      ['shop', 'web', 'ingress', 'sync-rpc'],
+    ]
+  );
+  assert.deepEqual(result!.warnings, [
+    {
+      file: 'cluster.yaml',
+      key: 'Deployment/web: spec.template.spec.containers[0].envFrom[0].secretRef',
+      message: 'Deployment/web reads variables from Secret web-credentials, which is not imported',
+    },
+  ]);
+});
@@ -0,0 +1,78 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { GraphData } from '../src/db/graphRepository';
+import { MemoryGraphRepository } from '../src/db/memoryGraphRepository';
+
+const graphOf = (...labels: string[]): GraphData => ({
+  nodes: labels.map((label, i) => ({ id: `n${i}`, position: { x: 0, y: 0 }, data: { label } })),
+  edges: [],
+});
+
+test('a change that cannot be written leaves the store as it was', async t => {
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'graphs-'));
+  t.after(() => fs.rm(directory, { recursive: true, force: true }));
+  const filePath = path.join(directory, 'graphs.json');
+
+  const repository = await MemoryGraphRepository.open(filePath);
+  const graph = await repository.createGraph('shop', { description: '', tags: [], ownerTeam: '' });
+  await repository.saveGraph(graph.id, graphOf('orders'), 0, 'ana', 'Initial version');
+
+  // The store is written to a temporary file first, which cannot be created over a directory
+  await fs.mkdir(`${filePath}.tmp`);
+  await assert.rejects(repository.saveGraph(graph.id, graphOf('orders', 'payments'), 1, 'ana', 'Add payments'));
+  await assert.rejects(repository.updateGraph(graph.id, { name: 'store' }));
+  await assert.rejects(repository.deleteGraph(graph.id));
+  await assert.rejects(
+    repository.recordAnalysisRun(graph.id, {
+      id: 'run1',
+      kind: 'analyze',
+      contentHash: 'hash',
+      parameters: {},
+      revision: 1,
+      createdAt: new Date().toISOString(),
+      durationMs: 1,
+      summary: {},
+      cacheable: true,
+    })
+  );
+
+  const unchanged = await repository.getGraph(graph.id);
+  assert.equal(unchanged?.name, 'shop');
+  assert.equal(unchanged?.revision, 1);
+  assert.deepEqual(unchanged?.data, graphOf('orders'));
+  assert.deepEqual(await repository.listAnalysisRuns(graph.id, undefined, 10), []);
+
+  // Once the file can be written again, the failed save never happened
+  await fs.rmdir(`${filePath}.tmp`);
+  assert.deepEqual(
+    await repository.saveGraph(graph.id, graphOf('orders', 'payments'), 1, 'ana', 'Add payments'),
+    { status: 'saved', version: 2 }
+  );
+  await repository.close();
+
+  const reopened = await MemoryGraphRepository.open(filePath);
+  assert.deepEqual((await reopened.getGraph(graph.id))?.data, graphOf('orders', 'payments'));
+  assert.deepEqual(
+    (await reopened.listVersions(graph.id))?.map(version => version.message),
+    ['Add payments', 'Initial version']
+  );
+});
+
+test('concurrent saves against the same revision let exactly one through', async () => {
+  const repository = await MemoryGraphRepository.open();
+  const graph = await repository.createGraph('shop', { description: '', tags: [], ownerTeam: '' });
+
+  const results = await Promise.all([
+    repository.saveGraph(graph.id, graphOf('orders'), 0, 'ana', 'First'),
+    repository.saveGraph(graph.id, graphOf('payments'), 0, 'bo', 'Second'),
+  ]);
+
+  assert.deepEqual(results, [
+    { status: 'saved', version: 1 },
+    { status: 'conflict', revision: 1 },
+  ]);
+  assert.deepEqual(await repository.getGraphData(graph.id), graphOf('orders'));
+});
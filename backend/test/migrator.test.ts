@@ -0,0 +1,131 @@
+import { test, TestContext } from 'node:test';
+import assert from 'node:assert/strict';
+import neo4j, { Driver, Neo4jError } from 'neo4j-driver';
+import { MIGRATIONS } from '../src/db/migrations';
+import { releaseMigrationLock, runMigrations } from '../src/db/migrator';
+
+type Properties = Record<string, unknown>;
+
+/**
+ * Stands in for a database with just what the runner reads and writes: the
+ * (:Migration) records and the (:MigrationLock) node, whose uniqueness
+ * constraint makes a second CREATE fail like Neo4j does.
+ */
+const fakeDatabase = (appliedVersions: number[] = []) => {
+  const migrations = new Map<number, Properties>(
+    appliedVersions.map(version => [
+      version,
+      { version: neo4j.int(version), name: `migration ${version}`, appliedAt: '2024-01-01T00:00:00.000Z', durationMs: neo4j.int(1) },
+    ])
+  );
+  let lock: { owner: string; lockedAt: string } | null = null;
+  const record = (fields: Properties) => ({ get: (key: string) => fields[key] });
+
+  const run = async (query: string, params: Properties = {}) => {
+    if (query.startsWith('MATCH (m:Migration)')) {
+      const applied = Array.from(migrations.values()).sort((a, b) => Number(a.version) - Number(b.version));
+      return { records: applied.map(migration => record({ migration })) };
+    }
+    if (query.startsWith('CREATE (:MigrationLock')) {
+      if (lock) {
+        throw new Neo4jError(
+          'Node already exists with label `MigrationLock` and property `name`',
+          'Neo.ClientError.Schema.ConstraintValidationFailed',
+          '22N41',
+          'constraint violation'
+        );
+      }
+      lock = { owner: params.owner as string, lockedAt: params.lockedAt as string };
+    } else if (query.startsWith('MATCH (l:MigrationLock {name: $name}) RETURN')) {
+      return { records: lock ? [record(lock)] : [] };
+    } else if (query.startsWith('MATCH (l:MigrationLock {name: $name, owner: $owner}) DELETE')) {
+      if (lock?.owner === params.owner) lock = null;
+    } else if (query.startsWith('MATCH (l:MigrationLock {name: $name}) DELETE')) {
+      const released = lock ? 1 : 0;
+      lock = null;
+      return { records: [record({ released: neo4j.int(released) })] };
+    } else if (query.startsWith('CREATE (m:Migration)')) {
+      const migration = params.record as Properties;
+      migrations.set(Number(migration.version), migration);
+    }
+    return { records: [] };
+  };
+
+  // The runner only uses session(), run() and close()
+  const driver = { session: () => ({ run, close: async () => {} }) } as unknown as Driver;
+  return {
+    driver,
+    appliedVersions: () => Array.from(migrations.keys()),
+    lock: () => lock,
+    holdLock: (owner: string) => {
+      lock = { owner, lockedAt: '2024-01-01T00:00:00.000Z' };
+    },
+  };
+};
+
+// Replaces every migration's up() so no real schema work runs, and records the order they ran in
+const recordMigrations = (t: TestContext) => {
+  const ran: number[] = [];
+  for (const migration of MIGRATIONS) {
+    t.mock.method(migration, 'up', async () => {
+      ran.push(migration.version);
+    });
+  }
+  return ran;
+};
+
+const quiet = () => {};
+const ALL_VERSIONS = MIGRATIONS.map(migration => migration.version);
+
+test('pending migrations run once, in version order, skipping applied ones', async t => {
+  const ran = recordMigrations(t);
+  const database = fakeDatabase([1, 2]);
+
+  const applied = await runMigrations(database.driver, quiet);
+
+  assert.deepEqual(applied.map(migration => migration.version), ALL_VERSIONS.slice(2));
+  assert.deepEqual(ran, ALL_VERSIONS.slice(2));
+  assert.deepEqual(database.appliedVersions(), ALL_VERSIONS);
+  assert.equal(database.lock(), null);
+
+  assert.deepEqual(await runMigrations(database.driver, quiet), []);
+  assert.deepEqual(ran, ALL_VERSIONS.slice(2));
+});
+
+test('a lock held by another backend refuses to migrate until it is released', async t => {
+  const ran = recordMigrations(t);
+  const database = fakeDatabase();
+  database.holdLock('other-host:42');
+
+  await assert.rejects(runMigrations(database.driver, quiet), /locked by other-host:42 since 2024-01-01/);
+  assert.deepEqual(ran, []);
+  assert.deepEqual(database.appliedVersions(), []);
+  assert.equal(database.lock()?.owner, 'other-host:42');
+
+  assert.equal(await releaseMigrationLock(database.driver), true);
+  assert.equal(await releaseMigrationLock(database.driver), false);
+  assert.deepEqual((await runMigrations(database.driver, quiet)).map(migration => migration.version), ALL_VERSIONS);
+});
+
+test('a failed migration releases the lock and is not recorded, so it runs again next time', async t => {
+  const ran = recordMigrations(t);
+  const database = fakeDatabase();
+  const failing = MIGRATIONS[1];
+  t.mock.method(failing, 'up', async () => {
+    throw new Error('connection reset');
+  });
+
+  await assert.rejects(runMigrations(database.driver, quiet), /connection reset/);
+  assert.deepEqual(database.appliedVersions(), [MIGRATIONS[0].version]);
+  assert.equal(database.lock(), null);
+  assert.deepEqual(ran, [MIGRATIONS[0].version]);
+});
+
+test('a database migrated by a newer backend is refused', async t => {
+  const ran = recordMigrations(t);
+  const database = fakeDatabase([...ALL_VERSIONS, 99]);
+
+  await assert.rejects(runMigrations(database.driver, quiet), /does not know \(99 migration 99\); upgrade the backend/);
+  assert.deepEqual(ran, []);
+  assert.equal(database.lock(), null);
+});
@@ -0,0 +1,57 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'node:net';
+import express from 'express';
+import graphRoutes from '../src/routes/graphs';
+import { closeRepository, initRepository } from '../src/db/repository';
+import aiSuggestionService from '../src/services/aiSuggestionService';
+
+const TINY_CYCLE = {
+  nodes: [
+    { id: 'orders', type: 'default', position: { x: 0, y: 0 }, data: { label: 'Orders' } },
+    { id: 'payments', type: 'default', position: { x: 200, y: 0 }, data: { label: 'Payments' } },
+  ],
+  edges: [
+    { id: 'e1', source: 'orders', target: 'payments', label: 'charge' },
+    { id: 'e2', source: 'payments', target: 'orders', label: 'payment status callback' },
+  ],
+};
+
+test('suggest-fix falls back to the rule-based suggestion when the AI service fails', async t => {
+  process.env.STORAGE = 'memory';
+  process.env.GEMINI_API_KEY = 'test-key';
+  t.after(() => {
+    delete process.env.GEMINI_API_KEY;
+  });
+  t.mock.method(console, 'log', () => {});
+  t.mock.method(console, 'error', () => {});
+  const suggestFix = t.mock.method(aiSuggestionService, 'suggestFix', async () => {
+    throw new Error('quota exceeded');
+  });
+
+  const repository = await initRepository();
+  t.after(closeRepository);
+  const graph = await repository.createGraph('shop', { description: '', tags: [], ownerTeam: '' });
+  await repository.saveGraph(graph.id, TINY_CYCLE, '*', 'test', 'Initial version');
+
+  const app = express();
+  app.use(express.json());
+  app.use('/api/graphs', graphRoutes);
+  const server = app.listen(0);
+  t.after(() => server.close());
+  const { port } = server.address() as AddressInfo;
+
+  const response = await fetch(`http://localhost:${port}/api/graphs/${graph.id}/suggest-fix`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ node1: 'orders', node2: 'payments' }),
+  });
+
+  assert.equal(response.status, 200);
+  const suggestion = await response.json();
+  assert.equal(suggestFix.mock.callCount(), 1);
+  assert.equal(suggestion.source, 'rules');
+  assert.deepEqual(suggestion.cycle, { node1: 'orders', node2: 'payments' });
+  assert.ok(suggestion.strategies.length > 0);
+  assert.match(suggestion.suggestion, /"Orders" and "Payments" depend on each other/);
+});
@@ -18,11 +18,32 @@ import ReactFlow, {
   EdgeProps,
 } from 'reactflow';
 import 'reactflow/dist/style.css';
-import { graphApi, GraphData } from '@/lib/api';
+import {
+  graphApi,
+  GraphData,
+  GraphConflict,
+  GraphConflictError,
+  GraphValidationError,
+  DependencyOrigin,
+  EdgeKind,
+  EDGE_KINDS,
+} from '@/lib/api';
+import { hasGraphChanges, mergeGraphs } from '@/lib/graphMerge';
+import VersionHistory, { VERSION_AUTHOR_STORAGE_KEY } from '@/components/VersionHistory';
 
 let nodeId = 0;
 const getNodeId = () => `node_${nodeId++}`;
 
+// Continue numbering new services after the highest node_N id in the graph
+const syncNodeId = (nodes: { id: string }[]) => {
+  // Not Math.max(...ids), which overflows the call stack on large graphs
+  const maxId = nodes.reduce((max, n) => {
+    const match = n.id.match(/node_(\d+)/);
+    return match ? Math.max(max, parseInt(match[1])) : max;
+  }, 0);
+  nodeId = maxId + 1;
+};
+
 // Custom edge component with offset for multiple edges
 function CustomEdge({
   id,
@@ -91,21 +112,38 @@ export default function GraphEditor() {
   const [showEdgeLabelModal, setShowEdgeLabelModal] = useState(false);
   const [pendingConnection, setPendingConnection] = useState<Connection | null>(null);
   const [edgeLabel, setEdgeLabel] = useState('');
+  const [edgeKind, setEdgeKind] = useState<EdgeKind | ''>('sync-rpc');
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [editingNode, setEditingNode] = useState<string | null>(null);
   const [editNodeName, setEditNodeName] = useState('');
   const [editingEdge, setEditingEdge] = useState<string | null>(null);
   const [editEdgeLabel, setEditEdgeLabel] = useState('');
+  const [editEdgeKind, setEditEdgeKind] = useState<EdgeKind | ''>('');
+  const [showSaveModal, setShowSaveModal] = useState(false);
+  const [saveMessage, setSaveMessage] = useState('');
+  const [saveAuthor, setSaveAuthor] = useState('');
+  const [showHistory, setShowHistory] = useState(false);
+  // Revision and graph as last loaded or saved, to detect and merge concurrent saves
+  const [revision, setRevision] = useState(0);
+  const [baseGraph, setBaseGraph] = useState<GraphData>({ nodes: [], edges: [] });
+  const [conflict, setConflict] = useState<GraphConflict | null>(null);
+  const [saveStatus, setSaveStatus] = useState('');
 
   useEffect(() => {
     loadGraph();
   }, [id]);
 
+  useEffect(() => {
+    setSaveAuthor(localStorage.getItem(VERSION_AUTHOR_STORAGE_KEY) || '');
+  }, []);
+
   const loadGraph = async () => {
     try {
       const graph = await graphApi.getGraph(id);
       setGraphName(graph.name);
+      setRevision(graph.revision);
+      setBaseGraph(graph.data || { nodes: [], edges: [] });
       if (graph.data) {
         const loadedNodes = graph.data.nodes || [];
         const loadedEdges = graph.data.edges || [];
@@ -116,14 +154,7 @@ export default function GraphEditor() {
         setNodes(loadedNodes);
         setEdges(edgesWithOffsets);
         // Update nodeId counter
-        const maxId = Math.max(
-          0,
-          ...loadedNodes.map(n => {
-            const match = n.id.match(/node_(\d+)/);
-            return match ? parseInt(match[1]) : 0;
-          })
-        );
-        nodeId = maxId + 1;
+        syncNodeId(loadedNodes);
       }
     } catch (error) {
       console.error('Error loading graph:', error);
@@ -149,12 +180,12 @@ export default function GraphEditor() {
     const result: Edge[] = [];
     edgeGroups.forEach((group) => {
       if (group.length === 1) {
-        result.push({ ...group[0], data: { offset: 0 } });
+        result.push({ ...group[0], data: { ...group[0].data, offset: 0 } });
       } else {
         // For multiple edges, distribute them with offsets
         group.forEach((edge, index) => {
           const offset = index - (group.length - 1) / 2;
-          result.push({ ...edge, data: { offset } });
+          result.push({ ...edge, data: { ...edge.data, offset } });
         });
       }
     });
@@ -174,11 +205,12 @@ export default function GraphEditor() {
     // Generate unique ID for edge to support multiple edges
     const edgeId = `e-${pendingConnection.source}-${pendingConnection.target}-${Date.now()}-${Math.random().toString(36).substring(7)}`;
     
-    const newEdge: Edge = {
+    const newEdge: Edge & { kind?: EdgeKind } = {
       id: edgeId,
       source: pendingConnection.source!,
       target: pendingConnection.target!,
       label: edgeLabel || undefined,
+      kind: edgeKind || undefined,
       type: pendingConnection.source === pendingConnection.target ? 'default' : 'custom',
       markerEnd: {
         type: MarkerType.ArrowClosed,
@@ -198,6 +230,7 @@ export default function GraphEditor() {
     setShowEdgeLabelModal(false);
     setPendingConnection(null);
     setEdgeLabel('');
+    setEdgeKind('sync-rpc');
   };
 
   const handleAddNode = () => {
@@ -215,26 +248,82 @@ export default function GraphEditor() {
     setShowAddNodeModal(false);
   };
 
-  const handleSave = async () => {
+  // Every save is recorded as a version with the author and message. Saves
+  // are rejected with a conflict if someone else saved since `expectedRevision`.
+  const handleSave = async (message?: string, expectedRevision = revision): Promise<boolean> => {
     setSaving(true);
     try {
       const graphData: GraphData = {
         nodes: nodes as any,
         edges: edges as any,
       };
-      await graphApi.updateGraph(id, graphData);
-      alert('Graph saved successfully!');
+      const author = saveAuthor.trim() || undefined;
+      if (author) {
+        localStorage.setItem(VERSION_AUTHOR_STORAGE_KEY, author);
+      }
+      const saved = await graphApi.updateGraph(id, graphData, expectedRevision, author, message);
+      setRevision(saved.revision);
+      setBaseGraph(graphData);
+      setShowSaveModal(false);
+      setSaveMessage('');
+      setConflict(null);
+      setSaveStatus(`Saved as version ${saved.version}`);
+      return true;
     } catch (error) {
+      if (error instanceof GraphConflictError) {
+        // Keep the message so overwriting records it
+        setSaveMessage(message || '');
+        setShowSaveModal(false);
+        setConflict(error.conflict);
+        return false;
+      }
+      if (error instanceof GraphValidationError) {
+        const more = error.violationCount - error.violations.length;
+        alert(
+          'Graph was not saved because it is invalid:\n' +
+            error.violations.map(violation => `${violation.path}: ${violation.message}`).join('\n') +
+            (more > 0 ? `\n...and ${more} more` : '')
+        );
+        return false;
+      }
       console.error('Error saving graph:', error);
       alert('Error saving graph');
+      return false;
     } finally {
       setSaving(false);
     }
   };
 
+  // Combine the conflicting save with ours and let the user review it before saving
+  const handleMerge = () => {
+    if (!conflict) return;
+
+    const merged = mergeGraphs<Node, Edge>(baseGraph, conflict.data, { nodes, edges });
+    setNodes(merged.nodes);
+    setEdges(calculateEdgeOffsets(merged.edges));
+    syncNodeId(merged.nodes);
+    setBaseGraph(conflict.data);
+    setRevision(conflict.revision);
+    setConflict(null);
+
+    const overlapNote = merged.overlaps.length > 0
+      ? `; kept your edits to ${merged.overlaps.slice(0, 3).join(', ')}` +
+        (merged.overlaps.length > 3 ? ` and ${merged.overlaps.length - 3} more` : '')
+      : '';
+    setSaveStatus(`Merged with version ${conflict.revision}${overlapNote}. Review and save.`);
+  };
+
+  const handleDiscardMine = async () => {
+    setConflict(null);
+    await loadGraph();
+    setSaveStatus(`Loaded version ${conflict?.revision}`);
+  };
+
+  // Analysis reads the saved graph, so save first unless nothing changed since the last load or save
   const handleAnalyze = async () => {
-    await handleSave();
-    router.push(`/result/${id}`);
+    if (!hasGraphChanges(baseGraph, { nodes, edges }) || (await handleSave('Saved for analysis'))) {
+      router.push(`/result/${id}`);
+    }
   };
 
   const handleNodeDoubleClick = useCallback((_event: React.MouseEvent, node: Node) => {
@@ -256,23 +345,28 @@ export default function GraphEditor() {
     setEditNodeName('');
   };
 
-  const handleEdgeDoubleClick = useCallback((_event: React.MouseEvent, edge: Edge) => {
+  const handleEdgeDoubleClick = useCallback((_event: React.MouseEvent, edge: Edge & { kind?: EdgeKind }) => {
     setEditingEdge(edge.id);
     setEditEdgeLabel(edge.label as string || '');
+    setEditEdgeKind(edge.kind || '');
   }, []);
 
+  // Where an imported dependency was declared, so it can be checked against the source files
+  const editingEdgeOrigins: DependencyOrigin[] = edges.find(edge => edge.id === editingEdge)?.data?.origins ?? [];
+
   const handleUpdateEdgeLabel = () => {
     if (!editingEdge) return;
     
     setEdges((eds) =>
       eds.map((edge) =>
         edge.id === editingEdge
-          ? { ...edge, label: editEdgeLabel || undefined }
+          ? { ...edge, label: editEdgeLabel || undefined, kind: editEdgeKind || undefined }
           : edge
       )
     );
     setEditingEdge(null);
     setEditEdgeLabel('');
+    setEditEdgeKind('');
   };
 
   if (loading) {
@@ -295,6 +389,7 @@ export default function GraphEditor() {
             ← Back
           </button>
           <h1 className="text-2xl font-bold">{graphName}</h1>
+          {saveStatus && <span className="text-sm text-gray-500">{saveStatus}</span>}
         </div>
         <div className="flex gap-2">
           <button
@@ -304,7 +399,13 @@ export default function GraphEditor() {
             Add Microservice
           </button>
           <button
-            onClick={handleSave}
+            onClick={() => setShowHistory(true)}
+            className="bg-gray-600 hover:bg-gray-700 text-white px-4 py-2 rounded-lg font-medium transition"
+          >
+            History
+          </button>
+          <button
+            onClick={() => setShowSaveModal(true)}
             disabled={saving}
             className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-medium transition disabled:bg-gray-400"
           >
@@ -342,6 +443,107 @@ export default function GraphEditor() {
         </ReactFlow>
       </div>
 
+      {/* Save Modal */}
+      {showSaveModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 w-96">
+            <h2 className="text-2xl font-bold mb-4">Save Version</h2>
+            <input
+              type="text"
+              value={saveAuthor}
+              onChange={(e) => setSaveAuthor(e.target.value)}
+              placeholder="Your name"
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg mb-4 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <textarea
+              value={saveMessage}
+              onChange={(e) => setSaveMessage(e.target.value)}
+              placeholder="What changed? (optional)"
+              maxLength={500}
+              rows={3}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg mb-4 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <div className="flex justify-end gap-2">
+              <button
+                onClick={() => {
+                  setShowSaveModal(false);
+                  setSaveMessage('');
+                }}
+                className="px-4 py-2 text-gray-600 hover:text-gray-800"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => handleSave(saveMessage)}
+                disabled={saving}
+                className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-2 rounded-lg font-medium transition disabled:bg-gray-400"
+              >
+                {saving ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Conflict Modal */}
+      {conflict && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 w-[32rem]">
+            <h2 className="text-2xl font-bold mb-4">Graph Changed Since You Loaded It</h2>
+            <p className="text-gray-700 mb-2">
+              {conflict.lastSave
+                ? `${conflict.lastSave.author} saved version ${conflict.revision} at ${new Date(conflict.lastSave.createdAt).toLocaleString()}.`
+                : `Someone saved version ${conflict.revision}.`}
+            </p>
+            {conflict.lastSave?.message && (
+              <p className="text-gray-600 italic mb-2">&ldquo;{conflict.lastSave.message}&rdquo;</p>
+            )}
+            <p className="text-sm text-gray-500 mb-4">
+              Their graph has {conflict.data.nodes.length} services and {conflict.data.edges.length} dependencies;
+              yours has {nodes.length} and {edges.length}. Merge keeps both sets of changes, and yours where you
+              both edited the same service or dependency.
+            </p>
+            <div className="flex justify-end gap-2">
+              <button
+                onClick={() => setConflict(null)}
+                className="px-4 py-2 text-gray-600 hover:text-gray-800"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleDiscardMine}
+                className="px-4 py-2 text-red-600 hover:text-red-800"
+              >
+                Discard Mine
+              </button>
+              <button
+                onClick={() => handleSave(saveMessage, conflict.revision)}
+                disabled={saving}
+                className="bg-amber-600 hover:bg-amber-700 text-white px-4 py-2 rounded-lg font-medium transition disabled:bg-gray-400"
+              >
+                Overwrite
+              </button>
+              <button
+                onClick={handleMerge}
+                className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-medium transition"
+              >
+                Merge
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Version History */}
+      {showHistory && (
+        <VersionHistory
+          graphId={id}
+          graphName={graphName}
+          onClose={() => setShowHistory(false)}
+          onRestored={loadGraph}
+        />
+      )}
+
       {/* Add Node Modal */}
       {showAddNodeModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -394,12 +596,24 @@ export default function GraphEditor() {
                 if (e.key === 'Enter') handleAddEdge();
               }}
             />
+            <label className="block text-sm font-medium text-gray-700 mb-1">Dependency kind</label>
+            <select
+              value={edgeKind}
+              onChange={(e) => setEdgeKind(e.target.value as EdgeKind | '')}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg mb-4 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">Unspecified</option>
+              {EDGE_KINDS.map((kind) => (
+                <option key={kind.value} value={kind.value}>{kind.label}</option>
+              ))}
+            </select>
             <div className="flex justify-end gap-2">
               <button
                 onClick={() => {
                   setShowEdgeLabelModal(false);
                   setPendingConnection(null);
                   setEdgeLabel('');
+                  setEdgeKind('sync-rpc');
                 }}
                 className="px-4 py-2 text-gray-600 hover:text-gray-800"
               >
@@ -458,7 +672,7 @@ export default function GraphEditor() {
       {editingEdge && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
           <div className="bg-white rounded-lg p-6 w-96">
-            <h2 className="text-2xl font-bold mb-4">Edit Relationship Name</h2>
+            <h2 className="text-2xl font-bold mb-4">Edit Relationship</h2>
             <input
               type="text"
               value={editEdgeLabel}
@@ -470,11 +684,35 @@ export default function GraphEditor() {
               }}
               autoFocus
             />
+            <label className="block text-sm font-medium text-gray-700 mb-1">Dependency kind</label>
+            <select
+              value={editEdgeKind}
+              onChange={(e) => setEditEdgeKind(e.target.value as EdgeKind | '')}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg mb-4 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">Unspecified</option>
+              {EDGE_KINDS.map((kind) => (
+                <option key={kind.value} value={kind.value}>{kind.label}</option>
+              ))}
+            </select>
+            {editingEdgeOrigins.length > 0 && (
+              <div className="mb-4">
+                <p className="text-sm font-medium text-gray-700 mb-1">Imported from</p>
+                <ul className="text-xs text-gray-500 space-y-1 max-h-32 overflow-y-auto">
+                  {editingEdgeOrigins.map((origin, i) => (
+                    <li key={i}>
+                      {origin.file}: {origin.key}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
             <div className="flex justify-end gap-2">
               <button
                 onClick={() => {
                   setEditingEdge(null);
                   setEditEdgeLabel('');
+                  setEditEdgeKind('');
                 }}
                 className="px-4 py-2 text-gray-600 hover:text-gray-800"
               >
@@ -1,24 +1,71 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { graphApi, Graph } from '@/lib/api';
+import { graphApi, Graph, GraphListParams, GraphSortField } from '@/lib/api';
+import GraphDetailsForm, { GraphDetails } from '@/components/GraphDetailsForm';
+import MergeGraphsDialog from '@/components/MergeGraphsDialog';
+import ImportGraphDialog from '@/components/ImportGraphDialog';
+import VersionHistory, { VERSION_AUTHOR_STORAGE_KEY } from '@/components/VersionHistory';
+
+const PAGE_SIZE = 50;
+const SEARCH_DEBOUNCE_MS = 300;
+
+const SORT_OPTIONS: { value: GraphSortField; label: string }[] = [
+  { value: 'updatedAt', label: 'Last updated' },
+  { value: 'createdAt', label: 'Created' },
+  { value: 'name', label: 'Name' },
+  { value: 'nodeCount', label: 'Services' },
+  { value: 'edgeCount', label: 'Dependencies' },
+  { value: 'sccCount', label: 'Cycles' },
+];
 
 export default function Home() {
   const router = useRouter();
   const [graphs, setGraphs] = useState<Graph[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
-  const [newGraphName, setNewGraphName] = useState('');
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [search, setSearch] = useState('');
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  const [ownerTeamFilter, setOwnerTeamFilter] = useState('');
+  const [sort, setSort] = useState<GraphSortField>('updatedAt');
+  const [order, setOrder] = useState<'asc' | 'desc'>('desc');
   const [showCreateModal, setShowCreateModal] = useState(false);
+  const [editingGraph, setEditingGraph] = useState<Graph | null>(null);
+  const [historyGraph, setHistoryGraph] = useState<Graph | null>(null);
+  // Graphs ticked for merging, in the order they were ticked
+  const [selectedGraphs, setSelectedGraphs] = useState<Graph[]>([]);
+  const [showMergeDialog, setShowMergeDialog] = useState(false);
+  const [showImportDialog, setShowImportDialog] = useState(false);
+  // Only the latest request may update the list, so slow responses to old filters are dropped
+  const requestId = useRef(0);
+
+  const hasFilters = search.trim() !== '' || tagFilter.length > 0 || ownerTeamFilter.trim() !== '';
+
+  const listParams = (): GraphListParams => ({
+    q: search.trim() || undefined,
+    tags: tagFilter,
+    ownerTeam: ownerTeamFilter.trim() || undefined,
+    sort,
+    order,
+    limit: PAGE_SIZE,
+  });
 
   useEffect(() => {
-    loadGraphs();
-  }, []);
+    const timeout = setTimeout(loadGraphs, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [search, tagFilter, ownerTeamFilter, sort, order]);
 
   const loadGraphs = async () => {
+    const request = ++requestId.current;
     try {
-      const data = await graphApi.getAllGraphs();
-      setGraphs(data);
+      const page = await graphApi.getAllGraphs(listParams());
+      if (request !== requestId.current) return;
+      setGraphs(page.graphs);
+      setTotal(page.total);
+      setNextCursor(page.nextCursor);
     } catch (error) {
       console.error('Error loading graphs:', error);
     } finally {
@@ -26,31 +73,92 @@ export default function Home() {
     }
   };
 
-  const handleCreateGraph = async () => {
-    if (!newGraphName.trim()) return;
+  const handleLoadMore = async () => {
+    if (!nextCursor) return;
 
+    const request = requestId.current;
+    setLoadingMore(true);
     try {
-      const newGraph = await graphApi.createGraph(newGraphName);
-      setGraphs([...graphs, { ...newGraph, createdAt: new Date().toISOString() }]);
-      setNewGraphName('');
-      setShowCreateModal(false);
-      router.push(`/graph/${newGraph.id}`);
+      const page = await graphApi.getAllGraphs({ ...listParams(), cursor: nextCursor });
+      if (request !== requestId.current) return;
+      setGraphs(current => [...current, ...page.graphs]);
+      setTotal(page.total);
+      setNextCursor(page.nextCursor);
     } catch (error) {
-      console.error('Error creating graph:', error);
+      console.error('Error loading graphs:', error);
+    } finally {
+      setLoadingMore(false);
     }
   };
 
+  const handleCreateGraph = async ({ name, ...metadata }: GraphDetails) => {
+    const newGraph = await graphApi.createGraph(name, metadata);
+    setShowCreateModal(false);
+    router.push(`/graph/${newGraph.id}`);
+  };
+
+  const handleEditGraph = async (details: GraphDetails) => {
+    if (!editingGraph) return;
+
+    const updated = await graphApi.updateGraphDetails(editingGraph.id, details);
+    setGraphs(graphs.map(g => (g.id === updated.id ? updated : g)));
+    setEditingGraph(null);
+  };
+
+  const handleCloneGraph = async (graph: Graph) => {
+    try {
+      const author = localStorage.getItem(VERSION_AUTHOR_STORAGE_KEY) || undefined;
+      const copy = await graphApi.cloneGraph(graph.id, { author });
+      setGraphs([copy, ...graphs]);
+      setTotal(total + 1);
+    } catch (error) {
+      console.error('Error cloning graph:', error);
+      alert('Failed to clone graph');
+    }
+  };
+
+  const handleMerged = (graph: Graph) => {
+    setShowMergeDialog(false);
+    setSelectedGraphs([]);
+    router.push(`/graph/${graph.id}`);
+  };
+
+  const handleImported = (graph: Graph) => {
+    setShowImportDialog(false);
+    router.push(`/graph/${graph.id}`);
+  };
+
+  const toggleSelected = (graph: Graph) => {
+    setSelectedGraphs(current =>
+      current.some(g => g.id === graph.id) ? current.filter(g => g.id !== graph.id) : [...current, graph]
+    );
+  };
+
   const handleDeleteGraph = async (id: string) => {
     if (!confirm('Are you sure you want to delete this graph?')) return;
 
     try {
       await graphApi.deleteGraph(id);
       setGraphs(graphs.filter(g => g.id !== id));
+      setSelectedGraphs(selectedGraphs.filter(g => g.id !== id));
+      setTotal(total - 1);
     } catch (error) {
       console.error('Error deleting graph:', error);
     }
   };
 
+  const addTagFilter = (tag: string) => {
+    if (!tagFilter.includes(tag)) {
+      setTagFilter([...tagFilter, tag]);
+    }
+  };
+
+  const clearFilters = () => {
+    setSearch('');
+    setTagFilter([]);
+    setOwnerTeamFilter('');
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -64,15 +172,90 @@ export default function Home() {
       <div className="max-w-6xl mx-auto">
         <div className="flex justify-between items-center mb-8">
           <h1 className="text-4xl font-bold">Microservices Graph Manager</h1>
+          <div className="flex gap-3">
+            {selectedGraphs.length >= 2 && (
+              <button
+                onClick={() => setShowMergeDialog(true)}
+                className="bg-purple-600 hover:bg-purple-700 text-white px-6 py-3 rounded-lg font-medium transition"
+              >
+                Merge {selectedGraphs.length} Graphs
+              </button>
+            )}
+            <button
+              onClick={() => setShowImportDialog(true)}
+              className="bg-gray-600 hover:bg-gray-700 text-white px-6 py-3 rounded-lg font-medium transition"
+            >
+              Import
+            </button>
+            <button
+              onClick={() => setShowCreateModal(true)}
+              className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-3 rounded-lg font-medium transition"
+            >
+              Create New Graph
+            </button>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 mb-4">
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search name, description, tags or team"
+            className="flex-1 min-w-[16rem] px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <input
+            type="text"
+            value={ownerTeamFilter}
+            onChange={(e) => setOwnerTeamFilter(e.target.value)}
+            placeholder="Owner team"
+            className="w-48 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <select
+            value={sort}
+            onChange={(e) => setSort(e.target.value as GraphSortField)}
+            className="px-3 py-2 border border-gray-300 rounded-lg bg-white"
+          >
+            {SORT_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>
+                Sort by {option.label.toLowerCase()}
+              </option>
+            ))}
+          </select>
           <button
-            onClick={() => setShowCreateModal(true)}
-            className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-3 rounded-lg font-medium transition"
+            onClick={() => setOrder(order === 'asc' ? 'desc' : 'asc')}
+            title={order === 'asc' ? 'Ascending' : 'Descending'}
+            className="px-3 py-2 border border-gray-300 rounded-lg bg-white hover:bg-gray-50"
           >
-            Create New Graph
+            {order === 'asc' ? '↑' : '↓'}
           </button>
         </div>
 
-        {graphs.length === 0 ? (
+        {hasFilters && (
+          <div className="flex flex-wrap items-center gap-2 mb-4 text-sm">
+            {tagFilter.map(tag => (
+              <button
+                key={tag}
+                onClick={() => setTagFilter(tagFilter.filter(t => t !== tag))}
+                className="bg-blue-100 text-blue-800 px-2 py-1 rounded-full hover:bg-blue-200"
+              >
+                #{tag} ×
+              </button>
+            ))}
+            <span className="text-gray-500">
+              {total} matching graph{total === 1 ? '' : 's'}
+            </span>
+            <button onClick={clearFilters} className="text-blue-600 hover:text-blue-900">
+              Clear filters
+            </button>
+          </div>
+        )}
+
+        {graphs.length === 0 && hasFilters ? (
+          <div className="text-center py-16 bg-gray-50 rounded-lg">
+            <p className="text-xl text-gray-600">No graphs match these filters</p>
+          </div>
+        ) : graphs.length === 0 ? (
           <div className="text-center py-16 bg-gray-50 rounded-lg">
             <p className="text-xl text-gray-600 mb-4">No graphs created yet</p>
             <button
@@ -87,11 +270,26 @@ export default function Home() {
             <table className="min-w-full divide-y divide-gray-200">
               <thead className="bg-gray-50">
                 <tr>
+                  <th className="pl-6 py-3 w-4">
+                    <span className="sr-only">Select for merging</span>
+                  </th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Name
                   </th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Created At
+                    Owner
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Services
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Dependencies
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Cycles
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Updated
                   </th>
                   <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Actions
@@ -101,12 +299,66 @@ export default function Home() {
               <tbody className="bg-white divide-y divide-gray-200">
                 {graphs.map((graph) => (
                   <tr key={graph.id} className="hover:bg-gray-50">
-                    <td className="px-6 py-4 whitespace-nowrap">
+                    <td className="pl-6 py-4">
+                      <input
+                        type="checkbox"
+                        checked={selectedGraphs.some(g => g.id === graph.id)}
+                        onChange={() => toggleSelected(graph)}
+                        title="Select for merging"
+                      />
+                    </td>
+                    <td className="px-6 py-4">
                       <div className="text-sm font-medium text-gray-900">{graph.name}</div>
+                      {graph.description && (
+                        <div className="text-sm text-gray-500 line-clamp-2">{graph.description}</div>
+                      )}
+                      {graph.tags.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          {graph.tags.map(tag => (
+                            <button
+                              key={tag}
+                              onClick={() => addTagFilter(tag)}
+                              title="Show graphs with this tag"
+                              className="text-xs bg-gray-100 text-gray-700 px-2 py-0.5 rounded-full hover:bg-blue-100"
+                            >
+                              #{tag}
+                            </button>
+                          ))}
+                        </div>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="text-sm text-gray-500">
-                        {new Date(graph.createdAt).toLocaleString()}
+                      {graph.ownerTeam ? (
+                        <button
+                          onClick={() => setOwnerTeamFilter(graph.ownerTeam)}
+                          title="Show graphs of this team"
+                          className="text-sm text-gray-700 hover:text-blue-600"
+                        >
+                          {graph.ownerTeam}
+                        </button>
+                      ) : (
+                        <span className="text-sm text-gray-400">—</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm text-gray-700">
+                      {graph.stats.nodeCount}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm text-gray-700">
+                      {graph.stats.edgeCount}
+                    </td>
+                    <td
+                      className={`px-6 py-4 whitespace-nowrap text-right text-sm ${
+                        graph.stats.sccCount > 0 ? 'text-red-600 font-medium' : 'text-gray-700'
+                      }`}
+                    >
+                      {graph.stats.sccCount}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div
+                        className="text-sm text-gray-500"
+                        title={`Created ${new Date(graph.createdAt).toLocaleString()}`}
+                      >
+                        {new Date(graph.updatedAt).toLocaleString()}
                       </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
@@ -122,6 +374,24 @@ export default function Home() {
                       >
                         Metrics
                       </button>
+                      <button
+                        onClick={() => handleCloneGraph(graph)}
+                        className="text-gray-600 hover:text-gray-900 mr-4"
+                      >
+                        Clone
+                      </button>
+                      <button
+                        onClick={() => setEditingGraph(graph)}
+                        className="text-gray-600 hover:text-gray-900 mr-4"
+                      >
+                        Details
+                      </button>
+                      <button
+                        onClick={() => setHistoryGraph(graph)}
+                        className="text-gray-600 hover:text-gray-900 mr-4"
+                      >
+                        History
+                      </button>
                       <button
                         onClick={() => handleDeleteGraph(graph.id)}
                         className="text-red-600 hover:text-red-900"
@@ -133,45 +403,69 @@ export default function Home() {
                 ))}
               </tbody>
             </table>
-          </div>
-        )}
-
-        {/* Create Graph Modal */}
-        {showCreateModal && (
-          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-            <div className="bg-white rounded-lg p-6 w-96">
-              <h2 className="text-2xl font-bold mb-4">Create New Graph</h2>
-              <input
-                type="text"
-                value={newGraphName}
-                onChange={(e) => setNewGraphName(e.target.value)}
-                placeholder="Enter graph name"
-                className="w-full px-4 py-2 border border-gray-300 rounded-lg mb-4 focus:outline-none focus:ring-2 focus:ring-blue-500"
-                onKeyPress={(e) => {
-                  if (e.key === 'Enter') handleCreateGraph();
-                }}
-              />
-              <div className="flex justify-end gap-2">
-                <button
-                  onClick={() => {
-                    setShowCreateModal(false);
-                    setNewGraphName('');
-                  }}
-                  className="px-4 py-2 text-gray-600 hover:text-gray-800"
-                >
-                  Cancel
-                </button>
+            {nextCursor && (
+              <div className="flex justify-center items-center gap-4 py-4 border-t border-gray-200">
+                <span className="text-sm text-gray-500">
+                  Showing {graphs.length} of {total}
+                </span>
                 <button
-                  onClick={handleCreateGraph}
-                  disabled={!newGraphName.trim()}
-                  className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-2 rounded-lg font-medium transition disabled:bg-gray-400"
+                  onClick={handleLoadMore}
+                  disabled={loadingMore}
+                  className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-medium transition disabled:bg-gray-400"
                 >
-                  Create
+                  {loadingMore ? 'Loading...' : 'Load more'}
                 </button>
               </div>
-            </div>
+            )}
           </div>
         )}
+
+        {/* Version History */}
+        {historyGraph && (
+          <VersionHistory
+            graphId={historyGraph.id}
+            graphName={historyGraph.name}
+            onClose={() => setHistoryGraph(null)}
+          />
+        )}
+
+        {/* Merge Graphs Modal */}
+        {showMergeDialog && (
+          <MergeGraphsDialog
+            graphs={selectedGraphs}
+            onClose={() => setShowMergeDialog(false)}
+            onMerged={handleMerged}
+          />
+        )}
+
+        {/* Import Modal */}
+        {showImportDialog && (
+          <ImportGraphDialog
+            onClose={() => setShowImportDialog(false)}
+            onImported={handleImported}
+          />
+        )}
+
+        {/* Create Graph Modal */}
+        {showCreateModal && (
+          <GraphDetailsForm
+            title="Create New Graph"
+            submitLabel="Create"
+            onSubmit={handleCreateGraph}
+            onClose={() => setShowCreateModal(false)}
+          />
+        )}
+
+        {/* Edit Details Modal */}
+        {editingGraph && (
+          <GraphDetailsForm
+            title="Graph Details"
+            submitLabel="Save"
+            initial={editingGraph}
+            onSubmit={handleEditGraph}
+            onClose={() => setEditingGraph(null)}
+          />
+        )}
       </div>
     </div>
   );
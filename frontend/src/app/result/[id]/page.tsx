@@ -6,34 +6,76 @@ import ReactFlow, {
   Background,
   Controls,
   MiniMap,
+  MarkerType,
+  Node,
+  Edge,
   useNodesState,
   useEdgesState,
 } from 'reactflow';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import 'reactflow/dist/style.css';
-import { graphApi, AnalysisResult, Cycle, TinyCycle, FixSuggestion } from '@/lib/api';
+import { graphApi, apiErrorMessage, AnalysisResult, AnalysisRunSummary, Cycle, CyclePage, TinyCycle, FixSuggestion, FeedbackArcSet, CycleCriticality, Condensation, BoundedCycles, EdgeKind, EDGE_KINDS, ServiceMetrics, ServiceMetricsReport, ImpactAnalysis, DependencyPaths, DependencyPath, CommunityReport, SinglePointsOfFailure, GraphPatch, Simulation, SimulationSnapshot } from '@/lib/api';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { 
   AlertCircle, 
   ArrowLeft, 
+  ArrowUpDown,
   BarChart3, 
   CheckCircle2, 
   Edit, 
+  Flame,
   Loader2, 
   RefreshCw, 
+  Scissors,
   Sparkles,
   TrendingUp,
   Network,
   GitBranch,
-  Zap
+  Layers,
+  FlaskConical,
+  X,
+  Boxes,
+  ShieldAlert,
+  Route,
+  Zap,
+  History
 } from 'lucide-react';
 
+type ServiceSortKey = keyof Omit<ServiceMetrics, 'nodeId'>;
+type ServiceColumnKey = Exclude<ServiceSortKey, 'label'>;
+
+const SERVICE_COLUMNS: { key: ServiceColumnKey; label: string; format: (value: number) => string }[] = [
+  { key: 'pageRank', label: 'PageRank', format: (value) => value.toFixed(4) },
+  { key: 'betweenness', label: 'Betweenness', format: (value) => value.toFixed(4) },
+  { key: 'afferentCoupling', label: 'Ca (in)', format: (value) => String(value) },
+  { key: 'efferentCoupling', label: 'Ce (out)', format: (value) => String(value) },
+  { key: 'instability', label: 'Instability', format: (value) => value.toFixed(2) },
+];
+
+const SIMULATION_ROWS: { label: string; value: (snapshot: SimulationSnapshot) => number; suffix?: (snapshot: SimulationSnapshot) => string }[] = [
+  { label: 'Services', value: (snapshot) => snapshot.nodeCount },
+  { label: 'Calls', value: (snapshot) => snapshot.edgeCount },
+  { label: 'Cyclic components', value: (snapshot) => snapshot.stronglyConnectedComponents.length },
+  { label: 'Services in cycles', value: (snapshot) => snapshot.cyclicServices },
+  { label: 'Tiny cycles', value: (snapshot) => snapshot.tinyCycles },
+  // Counting stops at a budget; "+" marks a lower bound
+  { label: 'Elementary cycles', value: (snapshot) => snapshot.cycles.total, suffix: (snapshot) => (snapshot.cycles.complete ? '' : '+') },
+  { label: 'Self-loops', value: (snapshot) => snapshot.selfLoops },
+  { label: 'Max degree', value: (snapshot) => snapshot.maxDegree },
+];
+
+// Past analyze runs shown in the history table
+const ANALYSIS_HISTORY_SIZE = 20;
+
+const SCRATCH_SELECT_CLASS = 'h-9 rounded-md border border-input bg-background px-2 text-sm';
+
 export default function ResultPage() {
   const params = useParams();
   const router = useRouter();
@@ -42,27 +84,91 @@ export default function ResultPage() {
   const [nodes, setNodes, onNodesChange] = useNodesState([]);
   const [edges, setEdges, onEdgesChange] = useEdgesState([]);
   const [result, setResult] = useState<AnalysisResult | null>(null);
+  const [analysisRuns, setAnalysisRuns] = useState<AnalysisRunSummary[]>([]);
   const [loading, setLoading] = useState(true);
   const [analyzing, setAnalyzing] = useState(false);
   const [selectedComponent, setSelectedComponent] = useState<number | null>(null);
   const [cycles, setCycles] = useState<Cycle[]>([]);
+  const [cyclePage, setCyclePage] = useState<CyclePage | null>(null);
+  const [loadingMoreCycles, setLoadingMoreCycles] = useState(false);
   const [tinyCycles, setTinyCycles] = useState<TinyCycle[]>([]);
   const [loadingCycles, setLoadingCycles] = useState(false);
   const [loadingTinyCycles, setLoadingTinyCycles] = useState(false);
+  const [maxCycleLength, setMaxCycleLength] = useState(3);
+  const [boundedCycles, setBoundedCycles] = useState<BoundedCycles | null>(null);
+  const [loadingBoundedCycles, setLoadingBoundedCycles] = useState(false);
+  const [criticality, setCriticality] = useState<CycleCriticality | null>(null);
+  const [loadingCriticality, setLoadingCriticality] = useState(false);
   const [suggestions, setSuggestions] = useState<Map<string, FixSuggestion>>(new Map());
   const [loadingSuggestion, setLoadingSuggestion] = useState<string | null>(null);
+  const [feedbackArcSet, setFeedbackArcSet] = useState<FeedbackArcSet | null>(null);
+  const [loadingFeedbackArcSet, setLoadingFeedbackArcSet] = useState(false);
+  const [condensation, setCondensation] = useState<Condensation | null>(null);
+  const [serviceMetrics, setServiceMetrics] = useState<ServiceMetricsReport | null>(null);
+  const [serviceSort, setServiceSort] = useState<{ key: ServiceSortKey; descending: boolean }>({
+    key: 'pageRank',
+    descending: true,
+  });
+  const [impact, setImpact] = useState<ImpactAnalysis | null>(null);
+  const [scratchMode, setScratchMode] = useState(false);
+  const [patch, setPatch] = useState<GraphPatch>({});
+  const [simulation, setSimulation] = useState<Simulation | null>(null);
+  const [simulating, setSimulating] = useState(false);
+  const [scratchEdge, setScratchEdge] = useState('');
+  const [rerouteTarget, setRerouteTarget] = useState('');
+  const [newServiceName, setNewServiceName] = useState('');
+  const [newCallFrom, setNewCallFrom] = useState('');
+  const [newCallTo, setNewCallTo] = useState('');
+  const [newCallKind, setNewCallKind] = useState<EdgeKind>('async-event');
+  const [singlePoints, setSinglePoints] = useState<SinglePointsOfFailure | null>(null);
+  const [entryPoint, setEntryPoint] = useState('');
+  const [loadingSinglePoints, setLoadingSinglePoints] = useState(false);
+  const [communities, setCommunities] = useState<CommunityReport | null>(null);
+  const [communityResolution, setCommunityResolution] = useState(1);
+  const [loadingCommunities, setLoadingCommunities] = useState(false);
+  const [pathFrom, setPathFrom] = useState('');
+  const [pathTo, setPathTo] = useState('');
+  const [dependencyPaths, setDependencyPaths] = useState<DependencyPaths | null>(null);
+  const [selectedPath, setSelectedPath] = useState<DependencyPath | null>(null);
+  const [loadingPaths, setLoadingPaths] = useState(false);
+  const [edgeKindFilter, setEdgeKindFilter] = useState<EdgeKind | 'all'>('all');
+  const [condensedNodes, setCondensedNodes] = useState<Node[]>([]);
+  const [condensedEdges, setCondensedEdges] = useState<Edge[]>([]);
+  const [loadingCondensation, setLoadingCondensation] = useState(false);
+
+  const filter = edgeKindFilter === 'all' ? undefined : { edgeKinds: [edgeKindFilter] };
 
   useEffect(() => {
     loadResults();
-  }, [id]);
+  }, [id, edgeKindFilter]);
+
+  // Repaint the canvas in the new community colors, dropping any highlight
+  useEffect(() => {
+    highlightImpact(null);
+  }, [communities]);
 
   const loadResults = async () => {
     setAnalyzing(true);
     try {
-      const analysisResult = await graphApi.analyzeGraph(id);
+      const analysisResult = await graphApi.analyzeGraph(id, filter);
       setResult(analysisResult);
+      setAnalysisRuns(await graphApi.getAnalysisRuns(id, 'analyze', ANALYSIS_HISTORY_SIZE));
       setNodes(analysisResult.graphData.nodes);
       setEdges(analysisResult.graphData.edges);
+      // Components change with the filter, so drop any per-component results
+      setSelectedComponent(null);
+      setCycles([]);
+      setCyclePage(null);
+      setTinyCycles([]);
+      setBoundedCycles(null);
+      setCriticality(null);
+      setFeedbackArcSet(null);
+      setCondensation(null);
+      setSinglePoints(null);
+      setSimulation(null);
+      setImpact(null);
+      setDependencyPaths(null);
+      setSelectedPath(null);
     } catch (error) {
       console.error('Error analyzing graph:', error);
       alert('Error analyzing graph. Please make sure the graph has been saved.');
@@ -70,14 +176,144 @@ export default function ResultPage() {
       setLoading(false);
       setAnalyzing(false);
     }
+
+    try {
+      setServiceMetrics(await graphApi.getServiceMetrics(id, filter));
+    } catch (error) {
+      console.error('Error loading service metrics:', error);
+      setServiceMetrics(null);
+    }
+
+    await loadCommunities(communityResolution);
+  };
+
+  const loadCommunities = async (resolution: number) => {
+    setLoadingCommunities(true);
+    try {
+      setCommunities(await graphApi.getCommunities(id, resolution, filter));
+    } catch (error) {
+      console.error('Error detecting communities:', error);
+      setCommunities(null);
+    } finally {
+      setLoadingCommunities(false);
+    }
+  };
+
+  const handleChangeResolution = (resolution: number) => {
+    setCommunityResolution(resolution);
+    loadCommunities(resolution);
+  };
+
+  // Spread community colors around the hue wheel by the golden angle so neighbors stay distinct
+  const communityColor = (index: number, lightness: number) => `hsl(${(index * 137.5) % 360}, 65%, ${lightness}%)`;
+
+  const communityStyle = (nodeId: string): React.CSSProperties | undefined => {
+    const index = communities ? communities.communities.findIndex(c => c.id === communities.assignment[nodeId]) : -1;
+    if (index === -1) return undefined;
+    return { border: `2px solid ${communityColor(index, 45)}`, background: communityColor(index, 92) };
+  };
+
+  // Color the canvas by blast radius: upstream dependents red, downstream dependencies blue
+  const highlightImpact = (nextImpact: ImpactAnalysis | null) => {
+    if (!result) return;
+
+    const upstream = new Set(nextImpact?.upstream.map(service => service.nodeId));
+    const downstream = new Set(nextImpact?.downstream.map(service => service.nodeId));
+    setNodes(result.graphData.nodes.map((node) => {
+      let style: React.CSSProperties | undefined;
+      if (nextImpact?.nodeId === node.id) {
+        style = { border: '2px solid #7c3aed', background: '#ede9fe' };
+      } else if (upstream.has(node.id)) {
+        style = { border: '2px solid #dc2626', background: '#fef2f2' };
+      } else if (downstream.has(node.id)) {
+        style = { border: '2px solid #2563eb', background: '#eff6ff' };
+      } else if (nextImpact) {
+        style = { opacity: 0.4 };
+      } else {
+        style = communityStyle(node.id);
+      }
+      return { ...node, style };
+    }));
+    setEdges(result.graphData.edges);
+    setImpact(nextImpact);
+    setSelectedPath(null);
+  };
+
+  // Draw a dependency path on the canvas: its services and calls in purple, everything else faded
+  const highlightPath = (path: DependencyPath | null) => {
+    if (!result) return;
+
+    const pathNodes = new Set(path?.nodes);
+    const pathEdges = new Set(path?.hops.flatMap(hop => hop.edgeIds));
+    setNodes(result.graphData.nodes.map((node) => {
+      let style: React.CSSProperties | undefined;
+      if (pathNodes.has(node.id)) {
+        style = { border: '2px solid #7c3aed', background: '#ede9fe' };
+      } else if (path) {
+        style = { opacity: 0.4 };
+      } else {
+        style = communityStyle(node.id);
+      }
+      return { ...node, style };
+    }));
+    setEdges(result.graphData.edges.map((edge) => {
+      if (pathEdges.has(edge.id)) {
+        return { ...edge, animated: true, style: { stroke: '#7c3aed', strokeWidth: 2 } };
+      }
+      return path ? { ...edge, style: { opacity: 0.3 } } : edge;
+    }));
+    setSelectedPath(path);
+    setImpact(null);
+  };
+
+  const handleFindPaths = async () => {
+    if (!pathFrom || !pathTo) return;
+
+    setLoadingPaths(true);
+    try {
+      const paths = await graphApi.getDependencyPaths(id, pathFrom, pathTo, 5, filter);
+      setDependencyPaths(paths);
+      highlightPath(paths.shortest);
+    } catch (error) {
+      console.error('Error finding dependency paths:', error);
+      alert('Error finding dependency paths');
+    } finally {
+      setLoadingPaths(false);
+    }
   };
 
+  const serviceLabel = (nodeId: string) => nodes.find(n => n.id === nodeId)?.data?.label || nodeId;
+
+  const handleNodeClick = async (_event: React.MouseEvent, node: Node) => {
+    try {
+      highlightImpact(await graphApi.getImpact(id, node.id, filter));
+    } catch (error) {
+      console.error('Error loading impact:', error);
+      alert('Error calculating blast radius');
+    }
+  };
+
+  const handleSortServices = (key: ServiceSortKey) => {
+    setServiceSort(current => ({
+      key,
+      descending: current.key === key ? !current.descending : key !== 'label',
+    }));
+  };
+
+  const sortedServices = [...(serviceMetrics?.services || [])].sort((a, b) => {
+    const order = serviceSort.key === 'label'
+      ? a.label.localeCompare(b.label)
+      : a[serviceSort.key] - b[serviceSort.key];
+    return serviceSort.descending ? -order : order;
+  });
+
   const handleFindCycles = async (componentIndex: number, componentNodes: string[]) => {
     setLoadingCycles(true);
     setSelectedComponent(componentIndex);
     try {
-      const response = await graphApi.findCycles(id, componentNodes);
-      setCycles(response.cycles);
+      const page = await graphApi.findCycles(id, componentNodes, {}, filter);
+      setCycles(page.cycles);
+      setCyclePage(page);
     } catch (error) {
       console.error('Error finding cycles:', error);
       alert('Error finding cycles in component');
@@ -86,11 +322,30 @@ export default function ResultPage() {
     }
   };
 
+  const handleLoadMoreCycles = async (componentNodes: string[]) => {
+    if (!cyclePage || cyclePage.nextCursor === null) return;
+
+    setLoadingMoreCycles(true);
+    try {
+      const page = await graphApi.findCycles(id, componentNodes, {
+        cursor: cyclePage.nextCursor,
+        limit: cyclePage.limit,
+      }, filter);
+      setCycles([...cycles, ...page.cycles]);
+      setCyclePage(page);
+    } catch (error) {
+      console.error('Error loading more cycles:', error);
+      alert('Error loading more cycles');
+    } finally {
+      setLoadingMoreCycles(false);
+    }
+  };
+
   const handleDetectTinyCycles = async (componentIndex: number, componentNodes: string[]) => {
     setLoadingTinyCycles(true);
     setSelectedComponent(componentIndex);
     try {
-      const response = await graphApi.detectTinyCycles(id, componentNodes);
+      const response = await graphApi.detectTinyCycles(id, componentNodes, filter);
       setTinyCycles(response.tinyCycles);
     } catch (error) {
       console.error('Error detecting tiny cycles:', error);
@@ -100,6 +355,190 @@ export default function ResultPage() {
     }
   };
 
+  const handleFindBoundedCycles = async (componentIndex: number, componentNodes: string[]) => {
+    setLoadingBoundedCycles(true);
+    setSelectedComponent(componentIndex);
+    try {
+      const response = await graphApi.findBoundedCycles(id, componentNodes, maxCycleLength, filter);
+      setBoundedCycles(response);
+    } catch (error) {
+      console.error('Error finding short cycles:', error);
+      alert('Error finding short cycles in component');
+    } finally {
+      setLoadingBoundedCycles(false);
+    }
+  };
+
+  const handleRankCriticality = async (componentIndex: number, componentNodes: string[]) => {
+    setLoadingCriticality(true);
+    setSelectedComponent(componentIndex);
+    try {
+      const response = await graphApi.getCycleCriticality(id, componentNodes, filter);
+      setCriticality(response);
+    } catch (error) {
+      console.error('Error ranking cycle criticality:', error);
+      alert('Error ranking critical dependencies in component');
+    } finally {
+      setLoadingCriticality(false);
+    }
+  };
+
+  const handleComputeFeedbackArcSet = async () => {
+    setLoadingFeedbackArcSet(true);
+    try {
+      const response = await graphApi.getFeedbackArcSet(id, filter);
+      setFeedbackArcSet(response);
+    } catch (error) {
+      console.error('Error computing feedback arc set:', error);
+      alert('Error computing cycle-breaking plan');
+    } finally {
+      setLoadingFeedbackArcSet(false);
+    }
+  };
+
+  const handleFindSinglePoints = async () => {
+    setLoadingSinglePoints(true);
+    try {
+      const response = await graphApi.getSinglePointsOfFailure(id, entryPoint ? [entryPoint] : undefined, filter);
+      setSinglePoints(response);
+    } catch (error) {
+      console.error('Error finding single points of failure:', error);
+      alert('Error finding single points of failure');
+    } finally {
+      setLoadingSinglePoints(false);
+    }
+  };
+
+  // Scratch mode: build a patch, then show the patched graph with changes in green and removed calls in red
+  const scratchLabel = (nodeId: string) =>
+    patch.addNodes?.find(node => node.id === nodeId)?.label || serviceLabel(nodeId);
+
+  const updatePatch = (nextPatch: GraphPatch) => {
+    setPatch(nextPatch);
+    setSimulation(null);
+    highlightImpact(null);
+  };
+
+  const handleRemoveCall = () => {
+    if (!scratchEdge) return;
+    updatePatch({
+      ...patch,
+      removeEdges: [...(patch.removeEdges || []), scratchEdge],
+      rerouteEdges: patch.rerouteEdges?.filter(reroute => reroute.edgeId !== scratchEdge),
+    });
+    setScratchEdge('');
+  };
+
+  const handleRerouteCall = () => {
+    if (!scratchEdge || !rerouteTarget) return;
+    const reroutes = (patch.rerouteEdges || []).filter(reroute => reroute.edgeId !== scratchEdge);
+    updatePatch({ ...patch, rerouteEdges: [...reroutes, { edgeId: scratchEdge, target: rerouteTarget }] });
+    setScratchEdge('');
+    setRerouteTarget('');
+  };
+
+  const handleAddService = () => {
+    if (!result || !newServiceName.trim()) return;
+    const addNodes = patch.addNodes || [];
+    // New services go in a column to the right of the graph
+    const positions = result.graphData.nodes.map(node => node.position);
+    const position = {
+      x: positions.reduce((max, p) => Math.max(max, p.x), 0) + 250,
+      y: positions.reduce((min, p) => Math.min(min, p.y), Infinity) + 120 * addNodes.length,
+    };
+    if (!Number.isFinite(position.y)) position.y = 120 * addNodes.length;
+    updatePatch({
+      ...patch,
+      addNodes: [...addNodes, { id: `scratch_${Date.now()}`, label: newServiceName.trim(), position }],
+    });
+    setNewServiceName('');
+  };
+
+  const handleAddCall = () => {
+    if (!newCallFrom || !newCallTo) return;
+    updatePatch({
+      ...patch,
+      addEdges: [...(patch.addEdges || []), { source: newCallFrom, target: newCallTo, kind: newCallKind }],
+    });
+    setNewCallFrom('');
+    setNewCallTo('');
+  };
+
+  const handleSimulate = async () => {
+    if (!result) return;
+
+    setSimulating(true);
+    try {
+      const response = await graphApi.simulate(id, patch, filter);
+      setSimulation(response);
+
+      const originalEdges = new Map(result.graphData.edges.map(edge => [edge.id, edge]));
+      const originalNodes = new Set(result.graphData.nodes.map(node => node.id));
+      setNodes(response.graphData.nodes.map(node => ({
+        ...node,
+        style: originalNodes.has(node.id) ? undefined : { border: '2px solid #16a34a', background: '#f0fdf4' },
+      })));
+      setEdges([
+        ...response.graphData.edges.map((edge) => {
+          const original = originalEdges.get(edge.id);
+          const changed = !original || original.source !== edge.source || original.target !== edge.target;
+          return changed ? { ...edge, animated: true, style: { stroke: '#16a34a', strokeWidth: 2 } } : edge;
+        }),
+        ...result.graphData.edges
+          .filter(edge => !response.graphData.edges.some(patched => patched.id === edge.id))
+          .map(edge => ({ ...edge, id: `removed_${edge.id}`, style: { stroke: '#dc2626', strokeDasharray: '4 4' } })),
+      ]);
+    } catch (error) {
+      console.error('Error simulating change:', error);
+      alert(apiErrorMessage(error) || 'Error simulating change');
+    } finally {
+      setSimulating(false);
+    }
+  };
+
+  const handleToggleScratchMode = () => {
+    setScratchMode(!scratchMode);
+    setPatch({});
+    setSimulation(null);
+    highlightImpact(null);
+  };
+
+  const handleBuildCondensation = async () => {
+    setLoadingCondensation(true);
+    try {
+      const response = await graphApi.getCondensation(id, filter);
+      const labelOf = (nodeId: string) => nodes.find(n => n.id === nodeId)?.data?.label || nodeId;
+
+      // Lay the super-nodes out in rows, one row per release wave
+      const columnInWave = new Map<number, number>();
+      setCondensedNodes(response.nodes.map((component) => {
+        const column = columnInWave.get(component.wave) || 0;
+        columnInWave.set(component.wave, column + 1);
+        return {
+          id: component.id,
+          position: { x: column * 220, y: component.wave * 140 },
+          data: { label: component.nodes.map(labelOf).join(', ') },
+          style: component.cyclic
+            ? { border: '2px solid #dc2626', background: '#fef2f2' }
+            : undefined,
+        };
+      }));
+      setCondensedEdges(response.edges.map((edge) => ({
+        id: `${edge.source}->${edge.target}`,
+        source: edge.source,
+        target: edge.target,
+        label: edge.edgeCount > 1 ? `${edge.edgeCount} calls` : undefined,
+        markerEnd: { type: MarkerType.ArrowClosed },
+      })));
+      setCondensation(response);
+    } catch (error) {
+      console.error('Error building condensation:', error);
+      alert('Error computing deployment waves');
+    } finally {
+      setLoadingCondensation(false);
+    }
+  };
+
   const handleSuggestFix = async (tinyCycle: TinyCycle) => {
     const cycleKey = `${tinyCycle.node1}-${tinyCycle.node2}`;
     setLoadingSuggestion(cycleKey);
@@ -108,7 +547,7 @@ export default function ResultPage() {
       setSuggestions(new Map(suggestions.set(cycleKey, suggestion)));
     } catch (error) {
       console.error('Error getting suggestion:', error);
-      alert('Error getting AI suggestion. Please check your Gemini API key.');
+      alert('Error getting fix suggestion. If GEMINI_API_KEY is set, please check that it is valid.');
     } finally {
       setLoadingSuggestion(null);
     }
@@ -154,6 +593,48 @@ export default function ResultPage() {
     );
   }
 
+  // Scratch mode choices and the pending changes, each with the patch that undoes it
+  const scratchRemovedEdges = new Set(patch.removeEdges);
+  const scratchEdges = result.graphData.edges.filter(edge => !scratchRemovedEdges.has(edge.id));
+  const scratchServices = [
+    ...result.graphData.nodes.map(node => node.id),
+    ...(patch.addNodes || []).map(node => node.id),
+  ];
+  const scratchChanges = [
+    ...(patch.removeEdges || []).map(edgeId => {
+      const edge = result.graphData.edges.find(e => e.id === edgeId)!;
+      return {
+        key: `remove-${edgeId}`,
+        text: `Remove ${scratchLabel(edge.source)} → ${scratchLabel(edge.target)}`,
+        undo: { ...patch, removeEdges: patch.removeEdges!.filter(e => e !== edgeId) },
+      };
+    }),
+    ...(patch.addNodes || []).map(node => ({
+      key: `node-${node.id}`,
+      text: `Add service ${node.label}`,
+      // Calls to a service go with it
+      undo: {
+        ...patch,
+        addNodes: patch.addNodes!.filter(n => n.id !== node.id),
+        rerouteEdges: patch.rerouteEdges?.filter(r => r.target !== node.id),
+        addEdges: patch.addEdges?.filter(e => e.source !== node.id && e.target !== node.id),
+      },
+    })),
+    ...(patch.rerouteEdges || []).map(reroute => {
+      const edge = result.graphData.edges.find(e => e.id === reroute.edgeId)!;
+      return {
+        key: `reroute-${reroute.edgeId}`,
+        text: `Reroute ${scratchLabel(edge.source)} → ${scratchLabel(edge.target)} to ${scratchLabel(reroute.target!)}`,
+        undo: { ...patch, rerouteEdges: patch.rerouteEdges!.filter(r => r !== reroute) },
+      };
+    }),
+    ...(patch.addEdges || []).map((edge, index) => ({
+      key: `call-${index}`,
+      text: `Add ${scratchLabel(edge.source)} → ${scratchLabel(edge.target)} (${edge.kind})`,
+      undo: { ...patch, addEdges: patch.addEdges!.filter(e => e !== edge) },
+    })),
+  ];
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100">
       {/* Header */}
@@ -171,9 +652,25 @@ export default function ResultPage() {
                   <BarChart3 className="h-6 w-6" />
                   Analysis Results
                 </h1>
+                <p className="text-xs text-muted-foreground">
+                  {result.run.cached
+                    ? `Unchanged since the analysis of ${new Date(result.run.createdAt).toLocaleString()}; showing the stored result`
+                    : `Analyzed ${new Date(result.run.createdAt).toLocaleString()}`}
+                </p>
               </div>
             </div>
             <div className="flex gap-2">
+              <select
+                value={edgeKindFilter}
+                onChange={(e) => setEdgeKindFilter(e.target.value as EdgeKind | 'all')}
+                className="h-10 rounded-md border border-input bg-background px-3 text-sm"
+                title="Only analyze dependencies of this kind"
+              >
+                <option value="all">All dependencies</option>
+                {EDGE_KINDS.map((kind) => (
+                  <option key={kind.value} value={kind.value}>{kind.label} only</option>
+                ))}
+              </select>
               <Button variant="outline" onClick={() => router.push(`/graph/${id}`)}>
                 <Edit className="mr-2 h-4 w-4" />
                 Edit Graph
@@ -276,6 +773,68 @@ export default function ResultPage() {
           </Card>
         </div>
 
+        {/* Analysis History */}
+        {analysisRuns.length > 1 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-xl flex items-center gap-2">
+                <History className="h-5 w-5" />
+                Analysis History
+              </CardTitle>
+              <CardDescription>
+                One run per distinct graph content and dependency filter, newest first
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Analyzed</TableHead>
+                    <TableHead>Version</TableHead>
+                    <TableHead>Dependencies analyzed</TableHead>
+                    <TableHead className="text-right">Services</TableHead>
+                    <TableHead className="text-right">Dependencies</TableHead>
+                    <TableHead className="text-right">SCCs</TableHead>
+                    <TableHead className="text-right">Services in cycles</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {analysisRuns.map((run, index) => {
+                    // Compare with the previous run under the same dependency filter
+                    const previous = analysisRuns
+                      .slice(index + 1)
+                      .find(r => JSON.stringify(r.parameters) === JSON.stringify(run.parameters));
+                    const sccChange = previous ? run.summary.sccCount - previous.summary.sccCount : 0;
+                    const runFilter = run.parameters.filter as { kinds?: EdgeKind[] } | undefined;
+                    return (
+                      <TableRow key={run.id} className={run.id === result.run.id ? 'bg-muted/50' : undefined}>
+                        <TableCell>{new Date(run.createdAt).toLocaleString()}</TableCell>
+                        <TableCell>{run.revision > 0 ? `v${run.revision}` : 'unsaved'}</TableCell>
+                        <TableCell>
+                          {runFilter?.kinds
+                            ? runFilter.kinds.map(kind => EDGE_KINDS.find(k => k.value === kind)?.label ?? kind).join(', ')
+                            : 'All'}
+                        </TableCell>
+                        <TableCell className="text-right">{run.summary.nodeCount}</TableCell>
+                        <TableCell className="text-right">{run.summary.edgeCount}</TableCell>
+                        <TableCell className="text-right">
+                          {run.summary.sccCount}
+                          {sccChange !== 0 && (
+                            <span className={`ml-2 text-xs ${sccChange > 0 ? 'text-destructive' : 'text-green-600'}`}>
+                              {sccChange > 0 ? `+${sccChange}` : sccChange}
+                            </span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">{run.summary.cyclicServices}</TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
           {/* Strongly Connected Components */}
           <Card className="lg:col-span-2">
@@ -331,6 +890,41 @@ export default function ResultPage() {
                             ) : null}
                             Tiny Cycles
                           </Button>
+                          <div className="flex">
+                            <select
+                              value={maxCycleLength}
+                              onChange={(e) => setMaxCycleLength(parseInt(e.target.value))}
+                              className="h-9 rounded-l-md border border-r-0 border-input bg-background px-2 text-sm"
+                              title="Maximum cycle length"
+                            >
+                              {[2, 3, 4, 5, 6].map((length) => (
+                                <option key={length} value={length}>≤ {length}</option>
+                              ))}
+                            </select>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              className="rounded-l-none"
+                              onClick={() => handleFindBoundedCycles(index, component)}
+                              disabled={loadingBoundedCycles && selectedComponent === index}
+                            >
+                              {loadingBoundedCycles && selectedComponent === index ? (
+                                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                              ) : null}
+                              Short Cycles
+                            </Button>
+                          </div>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleRankCriticality(index, component)}
+                            disabled={loadingCriticality && selectedComponent === index}
+                          >
+                            {loadingCriticality && selectedComponent === index ? (
+                              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                            ) : null}
+                            Hotspots
+                          </Button>
                           <Button
                             size="sm"
                             variant="destructive"
@@ -394,7 +988,7 @@ export default function ResultPage() {
                                     ) : (
                                       <>
                                         <Sparkles className="mr-2 h-4 w-4" />
-                                        Fix with AI
+                                        Suggest Fix
                                       </>
                                     )}
                                   </Button>
@@ -407,7 +1001,7 @@ export default function ResultPage() {
                                     <CardHeader>
                                       <CardTitle className="text-lg flex items-center gap-2">
                                         <Sparkles className="h-5 w-5 text-blue-600" />
-                                        AI-Powered Solution
+                                        {suggestion.source === 'ai' ? 'AI-Powered Solution' : 'Recommended Fixes'}
                                       </CardTitle>
                                     </CardHeader>
                                     <CardContent>
@@ -440,14 +1034,90 @@ export default function ResultPage() {
                       </div>
                     )}
                     
-                    {selectedComponent === index && cycles.length > 0 && (
+                    {selectedComponent === index && boundedCycles && (
+                      <div className="space-y-3 pt-4 border-t">
+                        <h4 className="font-semibold text-orange-600">
+                          Cycles of up to {boundedCycles.maxLength} services: {boundedCycles.total}{boundedCycles.complete ? '' : '+'}
+                        </h4>
+                        {boundedCycles.truncatedBy && (
+                          <p className="text-xs text-muted-foreground">
+                            Search stopped early after hitting the{' '}
+                            {boundedCycles.truncatedBy === 'time' ? 'time' : 'cycle count'} budget.
+                          </p>
+                        )}
+                        {boundedCycles.cycles.length > 0 && (
+                          <ScrollArea className="h-[200px]">
+                            <div className="space-y-2">
+                              {boundedCycles.cycles.map((cycle, cycleIdx) => (
+                                <div key={cycleIdx} className="flex items-center justify-between text-sm">
+                                  <span>
+                                    {[...cycle.nodes, cycle.nodes[0]].map((nodeId) => {
+                                      const node = nodes.find(n => n.id === nodeId);
+                                      return node?.data?.label || nodeId;
+                                    }).join(' → ')}
+                                  </span>
+                                  <Badge variant="secondary">Length: {cycle.length}</Badge>
+                                </div>
+                              ))}
+                            </div>
+                          </ScrollArea>
+                        )}
+                      </div>
+                    )}
+
+                    {selectedComponent === index && criticality && criticality.edges.length > 0 && (
+                      <div className="space-y-3 pt-4 border-t">
+                        <div className="flex items-center gap-2">
+                          <Flame className="h-5 w-5 text-red-600" />
+                          <h4 className="font-semibold text-red-600">
+                            Top Offending Calls
+                          </h4>
+                          <Badge variant="outline">
+                            across {criticality.totalCycles}{criticality.complete ? '' : '+'} cycles
+                          </Badge>
+                        </div>
+                        <div className="space-y-2">
+                          {criticality.edges.slice(0, 10).map((edge, edgeIdx) => {
+                            const source = nodes.find(n => n.id === edge.source);
+                            const target = nodes.find(n => n.id === edge.target);
+                            return (
+                              <div key={edge.edgeId} className="flex items-center justify-between text-sm">
+                                <div className="flex items-center gap-2">
+                                  <Badge variant="outline">#{edgeIdx + 1}</Badge>
+                                  <span>
+                                    {source?.data?.label || edge.source} → {target?.data?.label || edge.target}
+                                  </span>
+                                  {edge.label && <Badge variant="secondary">{edge.label}</Badge>}
+                                </div>
+                                <div className="flex gap-2">
+                                  <Badge variant="destructive">{edge.cycleCount} cycles</Badge>
+                                  <Badge variant="secondary">score {edge.weightedScore.toFixed(2)}</Badge>
+                                </div>
+                              </div>
+                            );
+                          })}
+                        </div>
+                      </div>
+                    )}
+
+                    {selectedComponent === index && cyclePage && cycles.length > 0 && (
                       <div className="space-y-3 pt-4 border-t">
                         <h4 className="font-semibold">
-                          Elementary Cycles Found: {cycles.length}
+                          Elementary Cycles Found: {cyclePage.total}{cyclePage.complete ? '' : '+'}
                         </h4>
+                        {cyclePage.truncatedBy && (
+                          <Alert>
+                            <AlertCircle className="h-4 w-4" />
+                            <AlertDescription className="text-sm">
+                              Enumeration stopped early after hitting the{' '}
+                              {cyclePage.truncatedBy === 'time' ? 'time' : 'cycle count'} budget
+                              ({cyclePage.elapsedMs} ms). The total is a lower bound.
+                            </AlertDescription>
+                          </Alert>
+                        )}
                         <ScrollArea className="h-[300px]">
                           <div className="space-y-2">
-                            {cycles.slice(0, 20).map((cycle, cycleIdx) => (
+                            {cycles.map((cycle, cycleIdx) => (
                               <Card key={cycleIdx} className="border-red-200 bg-red-50/50">
                                 <CardContent className="pt-4">
                                   <div className="flex items-center justify-between">
@@ -468,11 +1138,24 @@ export default function ResultPage() {
                                 </CardContent>
                               </Card>
                             ))}
-                            {cycles.length > 20 && (
-                              <p className="text-xs text-muted-foreground text-center py-2">
-                                Showing first 20 of {cycles.length} cycles
+                            <div className="flex items-center justify-center gap-4 py-2">
+                              <p className="text-xs text-muted-foreground">
+                                Showing {cycles.length} of {cyclePage.total}{cyclePage.complete ? '' : '+'} cycles
                               </p>
-                            )}
+                              {cyclePage.nextCursor !== null && (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => handleLoadMoreCycles(component)}
+                                  disabled={loadingMoreCycles}
+                                >
+                                  {loadingMoreCycles ? (
+                                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                  ) : null}
+                                  Load more
+                                </Button>
+                              )}
+                            </div>
                           </div>
                         </ScrollArea>
                       </div>
@@ -486,19 +1169,588 @@ export default function ResultPage() {
             </CardContent>
           </Card>
 
+          {/* Per-Service Metrics */}
+          {serviceMetrics && (
+            <Card className="lg:col-span-2">
+              <CardHeader>
+                <CardTitle className="text-xl flex items-center gap-2">
+                  <Network className="h-5 w-5" />
+                  Per-Service Metrics
+                </CardTitle>
+                <CardDescription className="mt-2">
+                  Hubs score high on PageRank and betweenness; instability near 1 means a service mostly depends on others
+                  {serviceMetrics.betweennessSampled && ' (betweenness estimated from a sample of services)'}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ScrollArea className="h-[400px]">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>
+                          <Button variant="ghost" size="sm" onClick={() => handleSortServices('label')}>
+                            Service
+                            <ArrowUpDown className="ml-2 h-3 w-3" />
+                          </Button>
+                        </TableHead>
+                        {SERVICE_COLUMNS.map((column) => (
+                          <TableHead key={column.key} className="text-right">
+                            <Button variant="ghost" size="sm" onClick={() => handleSortServices(column.key)}>
+                              {column.label}
+                              <ArrowUpDown className="ml-2 h-3 w-3" />
+                            </Button>
+                          </TableHead>
+                        ))}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {sortedServices.map((service) => (
+                        <TableRow key={service.nodeId}>
+                          <TableCell className="font-medium">{service.label}</TableCell>
+                          {SERVICE_COLUMNS.map((column) => (
+                            <TableCell key={column.key} className="text-right tabular-nums">
+                              {column.format(service[column.key])}
+                            </TableCell>
+                          ))}
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </ScrollArea>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Cycle-Breaking Plan */}
+          {(result.metrics.stronglyConnectedComponents.length > 0 || result.metrics.selfLoops > 0) && (
+            <Card className="lg:col-span-2">
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <CardTitle className="text-xl flex items-center gap-2">
+                      <Scissors className="h-5 w-5" />
+                      Cycle-Breaking Plan
+                    </CardTitle>
+                    <CardDescription className="mt-2">
+                      The smallest set of calls whose removal makes the graph acyclic
+                    </CardDescription>
+                  </div>
+                  <Button
+                    variant="outline"
+                    onClick={handleComputeFeedbackArcSet}
+                    disabled={loadingFeedbackArcSet}
+                  >
+                    {loadingFeedbackArcSet ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : null}
+                    Compute Plan
+                  </Button>
+                </div>
+              </CardHeader>
+              {feedbackArcSet && (
+                <CardContent className="space-y-3">
+                  <div className="flex items-center gap-2">
+                    <h4 className="font-semibold">Break these {feedbackArcSet.size} calls</h4>
+                    <Badge variant={feedbackArcSet.exact ? 'secondary' : 'outline'}>
+                      {feedbackArcSet.exact ? 'Minimum' : 'Heuristic'}
+                    </Badge>
+                  </div>
+                  {!feedbackArcSet.exact && (
+                    <p className="text-xs text-muted-foreground">
+                      Some components are too large to solve exactly; their cuts come from the
+                      Eades–Lin–Smyth heuristic and may not be minimal.
+                    </p>
+                  )}
+                  <div className="space-y-2">
+                    {feedbackArcSet.edges.map((edge, edgeIdx) => {
+                      const source = nodes.find(n => n.id === edge.source);
+                      const target = nodes.find(n => n.id === edge.target);
+                      return (
+                        <div key={edge.id} className="flex items-center gap-2 text-sm">
+                          <Badge variant="outline">{edgeIdx + 1}</Badge>
+                          <span>
+                            {source?.data?.label || edge.source} → {target?.data?.label || edge.target}
+                          </span>
+                          {edge.label && (
+                            <Badge variant="secondary">{edge.label}</Badge>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                </CardContent>
+              )}
+            </Card>
+          )}
+
+          {/* Bounded Contexts */}
+          {communities && (
+            <Card className="lg:col-span-2">
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <CardTitle className="text-xl flex items-center gap-2">
+                      <Boxes className="h-5 w-5" />
+                      Bounded Contexts
+                    </CardTitle>
+                    <CardDescription className="mt-2">
+                      Services grouped by community detection (modularity {communities.modularity.toFixed(3)}).
+                      Nodes on the canvas are colored by community.
+                    </CardDescription>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {loadingCommunities && <Loader2 className="h-4 w-4 animate-spin" />}
+                    <select
+                      value={communityResolution}
+                      onChange={(e) => handleChangeResolution(parseFloat(e.target.value))}
+                      className="h-10 rounded-md border border-input bg-background px-3 text-sm"
+                      title="Higher resolution gives more, smaller contexts"
+                    >
+                      {[0.5, 1, 1.5, 2, 3].map((resolution) => (
+                        <option key={resolution} value={resolution}>Resolution {resolution}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div className="space-y-2">
+                  <h4 className="font-semibold">{communities.communities.length} candidate contexts</h4>
+                  <ScrollArea className="h-[300px]">
+                    <div className="space-y-2 pr-3">
+                      {communities.communities.map((community, index) => (
+                        <div key={community.id} className="flex items-start gap-2 text-sm">
+                          <span
+                            className="mt-1 h-3 w-3 shrink-0 rounded-full"
+                            style={{ background: communityColor(index, 45) }}
+                          />
+                          <span className="shrink-0 font-medium">Context {index + 1}</span>
+                          <div className="flex flex-wrap gap-1">
+                            {community.nodes.map((nodeId) => (
+                              <Badge key={nodeId} variant="secondary">{serviceLabel(nodeId)}</Badge>
+                            ))}
+                            <span className="text-xs text-muted-foreground">
+                              {community.internalEdges} internal / {community.externalEdges} external calls
+                            </span>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </ScrollArea>
+                </div>
+                <div className="space-y-2">
+                  <h4 className="font-semibold">Coupling hot spots</h4>
+                  {communities.hotSpots.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No calls cross context boundaries.</p>
+                  ) : (
+                    <ScrollArea className="h-[300px]">
+                      <div className="space-y-3 pr-3">
+                        {communities.hotSpots.map((hotSpot) => (
+                          <div key={`${hotSpot.source}->${hotSpot.target}`} className="text-sm space-y-1">
+                            <div className="flex items-center gap-2">
+                              <Badge variant="destructive">{hotSpot.edgeCount}</Badge>
+                              <span className="font-medium">
+                                Context {communities.communities.findIndex(c => c.id === hotSpot.source) + 1}
+                                {' → '}
+                                Context {communities.communities.findIndex(c => c.id === hotSpot.target) + 1}
+                              </span>
+                            </div>
+                            {hotSpot.edges.map((edge) => (
+                              <div key={edge.id} className="ml-8 text-muted-foreground">
+                                {serviceLabel(edge.source)} → {serviceLabel(edge.target)}
+                                {edge.label && ` (${edge.label})`}
+                              </div>
+                            ))}
+                          </div>
+                        ))}
+                      </div>
+                    </ScrollArea>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Single Points of Failure */}
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle className="text-xl flex items-center gap-2">
+                    <ShieldAlert className="h-5 w-5" />
+                    Single Points of Failure
+                  </CardTitle>
+                  <CardDescription className="mt-2">
+                    Services and calls that hold the architecture together, and chokepoints behind the entry points
+                  </CardDescription>
+                </div>
+                <div className="flex items-center gap-2">
+                  <select
+                    value={entryPoint}
+                    onChange={(e) => setEntryPoint(e.target.value)}
+                    className="h-10 rounded-md border border-input bg-background px-3 text-sm"
+                    title="Entry point, e.g. the API gateway"
+                  >
+                    <option value="">Services nothing depends on</option>
+                    {result.graphData.nodes.map((node) => (
+                      <option key={node.id} value={node.id}>{node.data?.label || node.id}</option>
+                    ))}
+                  </select>
+                  <Button
+                    variant="outline"
+                    onClick={handleFindSinglePoints}
+                    disabled={loadingSinglePoints}
+                  >
+                    {loadingSinglePoints ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : null}
+                    Analyze
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+            {singlePoints && (
+              <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-6 text-sm">
+                <div className="space-y-2">
+                  <h4 className="font-semibold">Articulation points ({singlePoints.articulationPoints.length})</h4>
+                  <p className="text-xs text-muted-foreground">
+                    Removing one of these services splits the graph into disconnected parts
+                  </p>
+                  <div className="flex flex-wrap gap-1">
+                    {singlePoints.articulationPoints.map((nodeId) => (
+                      <Badge key={nodeId} variant="destructive">{serviceLabel(nodeId)}</Badge>
+                    ))}
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <h4 className="font-semibold">Bridges ({singlePoints.bridges.length})</h4>
+                  <p className="text-xs text-muted-foreground">
+                    The only call linking two parts of the graph
+                  </p>
+                  <div className="max-h-[240px] overflow-y-auto space-y-1">
+                    {singlePoints.bridges.map((edge) => (
+                      <div key={edge.id}>
+                        {serviceLabel(edge.source)} → {serviceLabel(edge.target)}
+                        {edge.label && <Badge variant="secondary" className="ml-2">{edge.label}</Badge>}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <h4 className="font-semibold">Chokepoints ({singlePoints.chokepoints.length})</h4>
+                  <p className="text-xs text-muted-foreground">
+                    Every request from {singlePoints.entryPoints.map(serviceLabel).join(', ') || 'the entry points'} to
+                    a guarded service must pass through its chokepoint
+                  </p>
+                  <div className="max-h-[240px] overflow-y-auto space-y-1">
+                    {singlePoints.chokepoints.map((chokepoint) => (
+                      <div key={chokepoint.nodeId} className="flex items-center gap-2">
+                        <span className="font-medium">{serviceLabel(chokepoint.nodeId)}</span>
+                        <span className="text-muted-foreground">
+                          guards {chokepoint.dominatedCount} service{chokepoint.dominatedCount === 1 ? '' : 's'}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </CardContent>
+            )}
+          </Card>
+
+          {/* Deployment Waves */}
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle className="text-xl flex items-center gap-2">
+                    <Layers className="h-5 w-5" />
+                    Deployment Waves
+                  </CardTitle>
+                  <CardDescription className="mt-2">
+                    Cycles collapsed into single units, ordered so every wave only depends on earlier ones
+                  </CardDescription>
+                </div>
+                <Button
+                  variant="outline"
+                  onClick={handleBuildCondensation}
+                  disabled={loadingCondensation}
+                >
+                  {loadingCondensation ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : null}
+                  Compute Waves
+                </Button>
+              </div>
+            </CardHeader>
+            {condensation && (
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  {condensation.waves.map((wave) => (
+                    <div key={wave.index} className="flex items-start gap-2 text-sm">
+                      <Badge variant="outline" className="shrink-0">Wave {wave.index + 1}</Badge>
+                      <div className="flex flex-wrap gap-1">
+                        {wave.services.map((nodeId) => {
+                          const node = nodes.find(n => n.id === nodeId);
+                          return (
+                            <Badge key={nodeId} variant="secondary">
+                              {node?.data?.label || nodeId}
+                            </Badge>
+                          );
+                        })}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+                <div className="h-[400px] border rounded-lg overflow-hidden">
+                  <ReactFlow
+                    nodes={condensedNodes}
+                    edges={condensedEdges}
+                    fitView
+                    nodesDraggable={false}
+                    nodesConnectable={false}
+                    elementsSelectable={false}
+                  >
+                    <Background />
+                    <Controls />
+                  </ReactFlow>
+                </div>
+              </CardContent>
+            )}
+          </Card>
+
+          {/* What-if Simulation */}
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle className="text-xl flex items-center gap-2">
+                    <FlaskConical className="h-5 w-5" />
+                    What-if Simulation
+                  </CardTitle>
+                  <CardDescription className="mt-2">
+                    Try a refactor in scratch mode and compare the results; nothing is saved
+                  </CardDescription>
+                </div>
+                <Button variant={scratchMode ? 'secondary' : 'outline'} onClick={handleToggleScratchMode}>
+                  {scratchMode ? 'Exit Scratch Mode' : 'Scratch Mode'}
+                </Button>
+              </div>
+            </CardHeader>
+            {scratchMode && (
+              <CardContent className="space-y-4">
+                <div className="space-y-2 text-sm">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <select value={scratchEdge} onChange={(e) => setScratchEdge(e.target.value)} className={SCRATCH_SELECT_CLASS}>
+                      <option value="">Pick a call…</option>
+                      {scratchEdges.map((edge) => (
+                        <option key={edge.id} value={edge.id}>
+                          {scratchLabel(edge.source)} → {scratchLabel(edge.target)}
+                          {edge.label ? ` (${edge.label})` : ''}
+                        </option>
+                      ))}
+                    </select>
+                    <Button size="sm" variant="outline" onClick={handleRemoveCall} disabled={!scratchEdge}>
+                      Remove
+                    </Button>
+                    <span className="text-muted-foreground">or reroute to</span>
+                    <select value={rerouteTarget} onChange={(e) => setRerouteTarget(e.target.value)} className={SCRATCH_SELECT_CLASS}>
+                      <option value="">Service…</option>
+                      {scratchServices.map((nodeId) => (
+                        <option key={nodeId} value={nodeId}>{scratchLabel(nodeId)}</option>
+                      ))}
+                    </select>
+                    <Button size="sm" variant="outline" onClick={handleRerouteCall} disabled={!scratchEdge || !rerouteTarget}>
+                      Reroute
+                    </Button>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <input
+                      value={newServiceName}
+                      onChange={(e) => setNewServiceName(e.target.value)}
+                      placeholder="New service, e.g. event-bus"
+                      className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+                    />
+                    <Button size="sm" variant="outline" onClick={handleAddService} disabled={!newServiceName.trim()}>
+                      Add Service
+                    </Button>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <select value={newCallFrom} onChange={(e) => setNewCallFrom(e.target.value)} className={SCRATCH_SELECT_CLASS}>
+                      <option value="">From…</option>
+                      {scratchServices.map((nodeId) => (
+                        <option key={nodeId} value={nodeId}>{scratchLabel(nodeId)}</option>
+                      ))}
+                    </select>
+                    <span className="text-muted-foreground">→</span>
+                    <select value={newCallTo} onChange={(e) => setNewCallTo(e.target.value)} className={SCRATCH_SELECT_CLASS}>
+                      <option value="">To…</option>
+                      {scratchServices.map((nodeId) => (
+                        <option key={nodeId} value={nodeId}>{scratchLabel(nodeId)}</option>
+                      ))}
+                    </select>
+                    <select
+                      value={newCallKind}
+                      onChange={(e) => setNewCallKind(e.target.value as EdgeKind)}
+                      className={SCRATCH_SELECT_CLASS}
+                    >
+                      {EDGE_KINDS.map((kind) => (
+                        <option key={kind.value} value={kind.value}>{kind.label}</option>
+                      ))}
+                    </select>
+                    <Button size="sm" variant="outline" onClick={handleAddCall} disabled={!newCallFrom || !newCallTo}>
+                      Add Call
+                    </Button>
+                  </div>
+                </div>
+
+                {scratchChanges.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {scratchChanges.map((change) => (
+                      <Badge key={change.key} variant="secondary" className="gap-1">
+                        {change.text}
+                        <button onClick={() => updatePatch(change.undo)} title="Undo this change">
+                          <X className="h-3 w-3" />
+                        </button>
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+
+                <Button onClick={handleSimulate} disabled={simulating || scratchChanges.length === 0}>
+                  {simulating ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : null}
+                  Simulate
+                </Button>
+
+                {simulation && (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Metric</TableHead>
+                        <TableHead className="text-right">Before</TableHead>
+                        <TableHead className="text-right">After</TableHead>
+                        <TableHead className="text-right">Change</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {SIMULATION_ROWS.map((row) => {
+                        const before = row.value(simulation.before);
+                        const after = row.value(simulation.after);
+                        const change = after - before;
+                        return (
+                          <TableRow key={row.label}>
+                            <TableCell>{row.label}</TableCell>
+                            <TableCell className="text-right">{before}{row.suffix?.(simulation.before)}</TableCell>
+                            <TableCell className="text-right">{after}{row.suffix?.(simulation.after)}</TableCell>
+                            <TableCell
+                              className={`text-right ${change < 0 ? 'text-green-600' : change > 0 ? 'text-red-600' : 'text-muted-foreground'}`}
+                            >
+                              {change > 0 ? `+${change}` : change}
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            )}
+          </Card>
+
           {/* Graph Visualization */}
           <Card className="lg:col-span-2">
             <CardHeader>
               <CardTitle className="text-xl">Graph Visualization</CardTitle>
-              <CardDescription>Interactive view of your microservices architecture</CardDescription>
+              <CardDescription>
+                Interactive view of your microservices architecture. Click a service to see its blast radius,
+                or pick two services to trace how one depends on the other.
+              </CardDescription>
             </CardHeader>
-            <CardContent>
+            <CardContent className="space-y-4">
+              <div className="flex flex-wrap items-center gap-2">
+                <select
+                  value={pathFrom}
+                  onChange={(e) => setPathFrom(e.target.value)}
+                  className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+                  title="Service that depends"
+                >
+                  <option value="">From service…</option>
+                  {result.graphData.nodes.map((node) => (
+                    <option key={node.id} value={node.id}>{node.data?.label || node.id}</option>
+                  ))}
+                </select>
+                <span className="text-muted-foreground">→</span>
+                <select
+                  value={pathTo}
+                  onChange={(e) => setPathTo(e.target.value)}
+                  className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+                  title="Service depended on"
+                >
+                  <option value="">To service…</option>
+                  {result.graphData.nodes.map((node) => (
+                    <option key={node.id} value={node.id}>{node.data?.label || node.id}</option>
+                  ))}
+                </select>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={handleFindPaths}
+                  disabled={loadingPaths || scratchMode || !pathFrom || !pathTo || pathFrom === pathTo}
+                >
+                  {loadingPaths ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <Route className="h-4 w-4 mr-1" />
+                  )}
+                  Find Paths
+                </Button>
+              </div>
+              {dependencyPaths && (
+                <div className="space-y-2 text-sm">
+                  {dependencyPaths.shortest ? (
+                    [dependencyPaths.shortest, ...dependencyPaths.alternatives].map((path, index) => (
+                      <button
+                        key={path.nodes.join('>')}
+                        onClick={() => highlightPath(selectedPath === path ? null : path)}
+                        className={`w-full text-left rounded-md border p-2 hover:bg-muted ${
+                          selectedPath === path ? 'border-purple-500 bg-purple-50' : ''
+                        }`}
+                      >
+                        <div className="flex items-center gap-2 mb-1">
+                          <Badge variant={index === 0 ? 'default' : 'secondary'}>
+                            {index === 0 ? 'Shortest' : `Alternative ${index}`}
+                          </Badge>
+                          <span className="text-muted-foreground">{path.length} hops</span>
+                        </div>
+                        <div className="flex flex-wrap items-center gap-1">
+                          <span className="font-medium">{serviceLabel(path.nodes[0])}</span>
+                          {path.hops.map((hop, hopIndex) => (
+                            <span key={hopIndex} className="flex items-center gap-1">
+                              <span className="text-muted-foreground">
+                                —{hop.labels.filter(Boolean).join(' / ') || 'depends on'}→
+                              </span>
+                              <span className="font-medium">{serviceLabel(hop.target)}</span>
+                            </span>
+                          ))}
+                        </div>
+                      </button>
+                    ))
+                  ) : (
+                    <p className="text-muted-foreground">
+                      {serviceLabel(dependencyPaths.from)} does not depend on {serviceLabel(dependencyPaths.to)}.
+                    </p>
+                  )}
+                </div>
+              )}
               <div className="h-[500px] border rounded-lg overflow-hidden">
                 <ReactFlow
                   nodes={nodes}
                   edges={edges}
                   onNodesChange={onNodesChange}
                   onEdgesChange={onEdgesChange}
+                  onNodeClick={scratchMode ? undefined : handleNodeClick}
+                  onPaneClick={scratchMode ? undefined : () => highlightImpact(null)}
                   fitView
                   nodesDraggable={false}
                   nodesConnectable={false}
@@ -509,6 +1761,37 @@ export default function ResultPage() {
                   <MiniMap />
                 </ReactFlow>
               </div>
+              {impact && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                  <div className="space-y-2">
+                    <h4 className="font-semibold text-red-600">
+                      Upstream impact: {impact.upstream.length} services depend on{' '}
+                      {serviceLabel(impact.nodeId)}
+                    </h4>
+                    <div className="flex flex-wrap gap-1">
+                      {impact.upstream.map((service) => (
+                        <Badge key={service.nodeId} variant="outline" className="border-red-300">
+                          {serviceLabel(service.nodeId)}
+                          <span className="ml-1 text-muted-foreground">({service.depth})</span>
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <h4 className="font-semibold text-blue-600">
+                      Downstream: depends on {impact.downstream.length} services
+                    </h4>
+                    <div className="flex flex-wrap gap-1">
+                      {impact.downstream.map((service) => (
+                        <Badge key={service.nodeId} variant="outline" className="border-blue-300">
+                          {serviceLabel(service.nodeId)}
+                          <span className="ml-1 text-muted-foreground">({service.depth})</span>
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+              )}
             </CardContent>
           </Card>
         </div>
@@ -0,0 +1,113 @@
+'use client';
+
+import { useState } from 'react';
+import { apiErrorMessage, GraphMetadata } from '@/lib/api';
+
+export interface GraphDetails extends GraphMetadata {
+  name: string;
+}
+
+interface GraphDetailsFormProps {
+  title: string;
+  submitLabel: string;
+  initial?: GraphDetails;
+  onSubmit: (details: GraphDetails) => Promise<void>;
+  onClose: () => void;
+}
+
+const EMPTY_DETAILS: GraphDetails = { name: '', description: '', tags: [], ownerTeam: '' };
+
+// Tags are edited as one comma-separated field
+const parseTags = (value: string) =>
+  value
+    .split(',')
+    .map(tag => tag.trim())
+    .filter(Boolean);
+
+export default function GraphDetailsForm({
+  title,
+  submitLabel,
+  initial = EMPTY_DETAILS,
+  onSubmit,
+  onClose,
+}: GraphDetailsFormProps) {
+  const [name, setName] = useState(initial.name);
+  const [description, setDescription] = useState(initial.description);
+  const [tags, setTags] = useState(initial.tags.join(', '));
+  const [ownerTeam, setOwnerTeam] = useState(initial.ownerTeam);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async () => {
+    if (!name.trim()) return;
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      await onSubmit({
+        name: name.trim(),
+        description: description.trim(),
+        tags: parseTags(tags),
+        ownerTeam: ownerTeam.trim(),
+      });
+    } catch (error) {
+      setError(apiErrorMessage(error) || 'Failed to save graph details');
+      setSubmitting(false);
+    }
+  };
+
+  const inputClassName =
+    'w-full px-4 py-2 border border-gray-300 rounded-lg mb-3 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-96">
+        <h2 className="text-2xl font-bold mb-4">{title}</h2>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Enter graph name"
+          className={inputClassName}
+          onKeyPress={(e) => {
+            if (e.key === 'Enter') handleSubmit();
+          }}
+        />
+        <textarea
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          placeholder="Description (optional)"
+          rows={3}
+          className={inputClassName}
+        />
+        <input
+          type="text"
+          value={tags}
+          onChange={(e) => setTags(e.target.value)}
+          placeholder="Tags, comma-separated (optional)"
+          className={inputClassName}
+        />
+        <input
+          type="text"
+          value={ownerTeam}
+          onChange={(e) => setOwnerTeam(e.target.value)}
+          placeholder="Owner team (optional)"
+          className={inputClassName}
+        />
+        {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+        <div className="flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-2 text-gray-600 hover:text-gray-800">
+            Cancel
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={!name.trim() || submitting}
+            className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-2 rounded-lg font-medium transition disabled:bg-gray-400"
+          >
+            {submitLabel}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
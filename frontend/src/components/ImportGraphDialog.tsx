@@ -0,0 +1,214 @@
+'use client';
+
+import { useState } from 'react';
+import { graphApi, apiErrorMessage, DependencyOrigin, Graph, GraphData, ImportFile, ImportFormat, ImportWarning } from '@/lib/api';
+import { VERSION_AUTHOR_STORAGE_KEY } from '@/components/VersionHistory';
+
+interface ImportGraphDialogProps {
+  onClose: () => void;
+  onImported: (graph: Graph) => void;
+}
+
+interface ImportPreview {
+  data: GraphData;
+  warnings: ImportWarning[];
+}
+
+const IMPORT_FORMATS: Record<ImportFormat, { title: string; description: string; accept: string }> = {
+  compose: {
+    title: 'docker-compose',
+    description:
+      'Each compose service becomes a service. Dependencies come from depends_on, links and environment variables ' +
+      'that point at another service. Files are combined like docker compose -f.',
+    accept: '.yml,.yaml',
+  },
+  kubernetes: {
+    title: 'Kubernetes',
+    description:
+      'Upload manifests or the output of helm template. Deployments and other workloads become services; a dependency ' +
+      'is inferred wherever env or a ConfigMap references a Service DNS name, and Ingresses point at their Services.',
+    accept: '.yml,.yaml,.json',
+  },
+};
+
+const describeOrigin = ({ file, key }: DependencyOrigin) => `${file}: ${key}`;
+
+const withoutExtension = (fileName: string) => fileName.replace(/\.[^.]+$/, '');
+
+// A folder upload includes every file in it; keep the ones the format reads
+const hasExtension = (fileName: string, accept: string) =>
+  accept.split(',').some(extension => fileName.toLowerCase().endsWith(extension));
+
+export default function ImportGraphDialog({ onClose, onImported }: ImportGraphDialogProps) {
+  const [format, setFormat] = useState<ImportFormat>('compose');
+  const [uploadFolder, setUploadFolder] = useState(false);
+  const [files, setFiles] = useState<ImportFile[]>([]);
+  const [name, setName] = useState('');
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { description, accept } = IMPORT_FORMATS[format];
+
+  const handleFormatChange = (next: ImportFormat) => {
+    setFormat(next);
+    setUploadFolder(false);
+    setFiles([]);
+    setPreview(null);
+    setError(null);
+  };
+
+  const handleFilesChosen = async (fileList: FileList | null) => {
+    if (!fileList || fileList.length === 0) return;
+
+    const chosenFiles = Array.from(fileList).filter(file => hasExtension(file.name, accept));
+    setPreview(null);
+    setError(null);
+    if (chosenFiles.length === 0) {
+      setFiles([]);
+      setError(`No ${accept} files found`);
+      return;
+    }
+
+    const chosen = await Promise.all(
+      chosenFiles.map(async file => ({ name: file.webkitRelativePath || file.name, content: await file.text() }))
+    );
+    setFiles(chosen);
+    if (!name.trim()) {
+      // A folder is named after the folder, single files after the first file
+      setName(chosenFiles[0].webkitRelativePath.split('/')[0] || withoutExtension(chosenFiles[0].name));
+    }
+
+    setPreviewing(true);
+    try {
+      setPreview(await graphApi.previewImport(format, chosen));
+    } catch (error) {
+      console.error('Error previewing import:', error);
+      setError(apiErrorMessage(error) || 'Failed to read the files');
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!name.trim() || files.length === 0) return;
+
+    setImporting(true);
+    try {
+      const author = localStorage.getItem(VERSION_AUTHOR_STORAGE_KEY) || undefined;
+      const result = await graphApi.importGraph(format, files, { name: name.trim(), author });
+      onImported(result.graph);
+    } catch (error) {
+      console.error('Error importing graph:', error);
+      setError(apiErrorMessage(error) || 'Failed to import the graph');
+      setImporting(false);
+    }
+  };
+
+  const labelOf = (nodeId: string) => preview?.data.nodes.find(node => node.id === nodeId)?.data.label ?? nodeId;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-[40rem] max-h-[80vh] flex flex-col">
+        <h2 className="text-2xl font-bold mb-2">Import Graph</h2>
+        <div className="flex gap-2 mb-2">
+          {(Object.keys(IMPORT_FORMATS) as ImportFormat[]).map(option => (
+            <button
+              key={option}
+              onClick={() => handleFormatChange(option)}
+              className={`px-3 py-1 rounded-full text-sm ${
+                option === format ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {IMPORT_FORMATS[option].title}
+            </button>
+          ))}
+        </div>
+        <p className="text-sm text-gray-600 mb-4">{description}</p>
+
+        {format === 'kubernetes' && (
+          <label className="flex items-center gap-2 text-sm text-gray-700 mb-2">
+            <input type="checkbox" checked={uploadFolder} onChange={(e) => setUploadFolder(e.target.checked)} />
+            Upload a folder
+          </label>
+        )}
+        <input
+          // Remounted when switching between files and a folder, since the browser keeps the old mode otherwise
+          key={`${format}-${uploadFolder}`}
+          type="file"
+          multiple
+          accept={accept}
+          {...(uploadFolder && ({ webkitdirectory: '' } as Record<string, string>))}
+          onChange={(e) => handleFilesChosen(e.target.files)}
+          className="w-full text-sm mb-4 file:mr-3 file:px-4 file:py-2 file:rounded-lg file:border-0 file:bg-gray-100 hover:file:bg-gray-200"
+        />
+
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Name of the imported graph"
+          className="w-full px-4 py-2 border border-gray-300 rounded-lg mb-4 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+
+        <div className="flex-1 overflow-y-auto mb-4">
+          {error && <p className="text-sm text-red-600 whitespace-pre-wrap">{error}</p>}
+          {previewing && <p className="text-sm text-gray-500">Reading files...</p>}
+          {preview && (
+            <>
+              <p className="text-sm text-gray-700 mb-2">
+                {preview.data.nodes.length} services and {preview.data.edges.length} dependencies found in{' '}
+                {files.length} file{files.length === 1 ? '' : 's'}.
+              </p>
+              {preview.warnings.length > 0 && (
+                <>
+                  <h3 className="text-sm font-semibold text-amber-700 mb-1">
+                    {preview.warnings.length} warning{preview.warnings.length === 1 ? '' : 's'}
+                  </h3>
+                  <ul className="text-sm space-y-1 mb-3">
+                    {preview.warnings.map((warning, i) => (
+                      <li key={i} className="border-l-2 border-amber-400 pl-2">
+                        {warning.message}
+                        <span className="text-gray-500"> ({[warning.file, warning.key].filter(Boolean).join(': ')})</span>
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              )}
+              <h3 className="text-sm font-semibold text-gray-700 mb-1">Dependencies</h3>
+              <ul className="text-sm space-y-1">
+                {preview.data.edges.map(edge => (
+                  <li key={edge.id}>
+                    <span className="font-medium">
+                      {labelOf(edge.source)} → {labelOf(edge.target)}
+                    </span>
+                    <span className="text-gray-500"> {edge.label}</span>
+                    <ul className="text-xs text-gray-500 ml-4">
+                      {(edge.data?.origins ?? []).map((origin: DependencyOrigin, i: number) => (
+                        <li key={i}>{describeOrigin(origin)}</li>
+                      ))}
+                    </ul>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-2 text-gray-600 hover:text-gray-800">
+            Cancel
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={!preview || !name.trim() || importing}
+            className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-2 rounded-lg font-medium transition disabled:bg-gray-400"
+          >
+            {importing ? 'Importing...' : 'Import'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { graphApi, apiErrorMessage, Graph, GraphMergeReport, MergeConflictType } from '@/lib/api';
+import { VERSION_AUTHOR_STORAGE_KEY } from '@/components/VersionHistory';
+
+interface MergeGraphsDialogProps {
+  // In merge order: the first graph wins where services disagree
+  graphs: Graph[];
+  onClose: () => void;
+  onMerged: (graph: Graph) => void;
+}
+
+type MergePreview = GraphMergeReport & { serviceCount: number; dependencyCount: number };
+
+const CONFLICT_LABELS: Record<MergeConflictType, string> = {
+  'duplicate-label': 'Duplicate label',
+  'label-spelling': 'Different spelling',
+  'service-type': 'Different type',
+  'dependency-mismatch': 'Different dependency',
+};
+
+export default function MergeGraphsDialog({ graphs, onClose, onMerged }: MergeGraphsDialogProps) {
+  const [name, setName] = useState(graphs.map(graph => graph.name).join(' + '));
+  const [preview, setPreview] = useState<MergePreview | null>(null);
+  const [merging, setMerging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadPreview();
+  }, []);
+
+  const loadPreview = async () => {
+    try {
+      const { data, ...report } = await graphApi.previewMerge(graphs.map(graph => graph.id));
+      setPreview({ ...report, serviceCount: data.nodes.length, dependencyCount: data.edges.length });
+    } catch (error) {
+      console.error('Error previewing merge:', error);
+      setError(apiErrorMessage(error) || 'Failed to preview the merge');
+    }
+  };
+
+  const handleMerge = async () => {
+    if (!name.trim()) return;
+
+    setMerging(true);
+    try {
+      const author = localStorage.getItem(VERSION_AUTHOR_STORAGE_KEY) || undefined;
+      const result = await graphApi.mergeGraphs(graphs.map(graph => graph.id), { name: name.trim(), author });
+      onMerged(result.graph);
+    } catch (error) {
+      console.error('Error merging graphs:', error);
+      setError(apiErrorMessage(error) || 'Failed to merge graphs');
+      setMerging(false);
+    }
+  };
+
+  const graphName = (graphId: string) => graphs.find(graph => graph.id === graphId)?.name ?? graphId;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-[36rem] max-h-[80vh] flex flex-col">
+        <h2 className="text-2xl font-bold mb-2">Merge Graphs</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          Services with the same label become one service. Where graphs disagree, {graphs[0].name} wins.
+        </p>
+
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Name of the merged graph"
+          className="w-full px-4 py-2 border border-gray-300 rounded-lg mb-4 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+
+        <div className="flex-1 overflow-y-auto mb-4">
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          {!preview && !error && <p className="text-sm text-gray-500">Previewing merge...</p>}
+          {preview && (
+            <>
+              <p className="text-sm text-gray-700 mb-2">
+                {preview.serviceCount} services and {preview.dependencyCount} dependencies;{' '}
+                {preview.unifiedServices} services unified and {preview.deduplicatedDependencies} duplicate
+                dependencies dropped.
+              </p>
+              {preview.conflicts.length === 0 ? (
+                <p className="text-sm text-green-700">No conflicts.</p>
+              ) : (
+                <>
+                  <h3 className="text-sm font-semibold text-amber-700 mb-1">
+                    {preview.conflicts.length} conflict{preview.conflicts.length === 1 ? '' : 's'}
+                  </h3>
+                  <ul className="text-sm space-y-1">
+                    {preview.conflicts.map((conflict, i) => (
+                      <li key={i} className="border-l-2 border-amber-400 pl-2">
+                        <span className="font-medium">{CONFLICT_LABELS[conflict.type]}:</span> {conflict.message}
+                        <span className="text-gray-500"> ({conflict.graphIds.map(graphName).join(', ')})</span>
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-2 text-gray-600 hover:text-gray-800">
+            Cancel
+          </button>
+          <button
+            onClick={handleMerge}
+            disabled={!preview || !name.trim() || merging}
+            className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-2 rounded-lg font-medium transition disabled:bg-gray-400"
+          >
+            {merging ? 'Merging...' : 'Merge'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
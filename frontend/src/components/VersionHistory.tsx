@@ -0,0 +1,200 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { graphApi, DependencyChange, FieldChange, GraphDiff, GraphVersionSummary, ServiceChange } from '@/lib/api';
+
+// Remembers who is saving, so the name is asked once per browser
+export const VERSION_AUTHOR_STORAGE_KEY = 'versionAuthor';
+
+interface VersionHistoryProps {
+  graphId: string;
+  graphName?: string;
+  onClose: () => void;
+  // Called after a version has been restored, e.g. to reload the editor
+  onRestored?: () => void;
+}
+
+const DIFF_SECTIONS: { key: keyof Omit<GraphDiff, 'from' | 'to'>; title: string; className: string }[] = [
+  { key: 'addedServices', title: 'Added services', className: 'text-green-700' },
+  { key: 'removedServices', title: 'Removed services', className: 'text-red-700' },
+  { key: 'changedServices', title: 'Renamed services', className: 'text-amber-700' },
+  { key: 'addedDependencies', title: 'Added dependencies', className: 'text-green-700' },
+  { key: 'removedDependencies', title: 'Removed dependencies', className: 'text-red-700' },
+  { key: 'changedDependencies', title: 'Changed dependencies', className: 'text-amber-700' },
+];
+
+type DiffItem = ServiceChange | DependencyChange | ((ServiceChange | DependencyChange) & { changes: FieldChange[] });
+
+const describeDiffItem = (item: DiffItem) => {
+  const name = 'source' in item
+    ? `${item.sourceLabel} → ${item.targetLabel}${item.label ? ` (${item.label})` : ''}`
+    : item.label;
+  if (!('changes' in item)) return name;
+
+  const changes = item.changes.map(
+    change => `${change.field}: ${change.before ?? 'none'} → ${change.after ?? 'none'}`
+  );
+  return `${name} — ${changes.join(', ')}`;
+};
+
+export default function VersionHistory({ graphId, graphName, onClose, onRestored }: VersionHistoryProps) {
+  const [versions, setVersions] = useState<GraphVersionSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<number[]>([]);
+  const [diff, setDiff] = useState<GraphDiff | null>(null);
+
+  useEffect(() => {
+    loadVersions();
+  }, [graphId]);
+
+  const loadVersions = async () => {
+    try {
+      setVersions(await graphApi.getVersions(graphId));
+    } catch (error) {
+      console.error('Error loading versions:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleSelected = (version: number) => {
+    setSelected(current =>
+      current.includes(version)
+        ? current.filter(v => v !== version)
+        : [...current, version].slice(-2)
+    );
+  };
+
+  // Diff from the older version to the newer one, or to the current graph
+  const handleCompare = async (from: number, to?: number) => {
+    try {
+      setDiff(await graphApi.diffVersions(graphId, from, to));
+    } catch (error) {
+      console.error('Error comparing versions:', error);
+      alert('Failed to compare versions');
+    }
+  };
+
+  const handleRestore = async (version: number) => {
+    if (!confirm(`Restore version ${version}? The current graph is kept as an earlier version.`)) return;
+
+    try {
+      const author = localStorage.getItem(VERSION_AUTHOR_STORAGE_KEY) || undefined;
+      await graphApi.restoreVersion(graphId, version, author);
+      setDiff(null);
+      setSelected([]);
+      await loadVersions();
+      onRestored?.();
+    } catch (error) {
+      console.error('Error restoring version:', error);
+      alert('Failed to restore version');
+    }
+  };
+
+  const [older, newer] = [...selected].sort((a, b) => a - b);
+  const diffEmpty = diff !== null && DIFF_SECTIONS.every(section => diff[section.key].length === 0);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-[48rem] max-h-[85vh] flex flex-col">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl font-bold">History{graphName ? ` — ${graphName}` : ''}</h2>
+          <button onClick={onClose} className="px-4 py-2 text-gray-600 hover:text-gray-800">
+            Close
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="text-gray-500">Loading...</div>
+        ) : versions.length === 0 ? (
+          <div className="text-gray-500">No versions yet. Every save records one.</div>
+        ) : (
+          <div className="overflow-y-auto flex-1 space-y-4">
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-gray-500">Select two versions to compare them.</p>
+              <button
+                onClick={() => handleCompare(older, newer)}
+                disabled={selected.length !== 2}
+                className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-medium transition disabled:bg-gray-400"
+              >
+                Compare selected
+              </button>
+            </div>
+
+            <table className="min-w-full divide-y divide-gray-200">
+              <tbody className="divide-y divide-gray-200">
+                {versions.map((version, i) => (
+                  <tr key={version.version} className="hover:bg-gray-50">
+                    <td className="py-2 pr-2 align-top">
+                      <input
+                        type="checkbox"
+                        checked={selected.includes(version.version)}
+                        onChange={() => toggleSelected(version.version)}
+                      />
+                    </td>
+                    <td className="py-2 pr-4 align-top text-sm">
+                      <div className="font-medium text-gray-900">
+                        v{version.version}
+                        {i === 0 && <span className="ml-2 text-xs text-green-700">latest</span>}
+                      </div>
+                      <div className="text-gray-700">{version.message || <span className="italic text-gray-400">No message</span>}</div>
+                      <div className="text-xs text-gray-500">
+                        {version.author} · {new Date(version.createdAt).toLocaleString()} · {version.nodeCount} services,{' '}
+                        {version.edgeCount} dependencies
+                      </div>
+                    </td>
+                    <td className="py-2 align-top text-right text-sm font-medium whitespace-nowrap">
+                      <button
+                        onClick={() => handleCompare(version.version)}
+                        className="text-blue-600 hover:text-blue-900 mr-4"
+                      >
+                        Diff with current
+                      </button>
+                      {i > 0 && (
+                        <button
+                          onClick={() => handleRestore(version.version)}
+                          className="text-amber-600 hover:text-amber-900"
+                        >
+                          Restore
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {diff && (
+              <div className="border border-gray-200 rounded-lg p-4">
+                <div className="flex justify-between items-center mb-2">
+                  <h3 className="font-semibold">
+                    v{diff.from} → {diff.to === null ? 'current' : `v${diff.to}`}
+                  </h3>
+                  <button onClick={() => setDiff(null)} className="text-sm text-gray-600 hover:text-gray-800">
+                    Hide
+                  </button>
+                </div>
+                {diffEmpty ? (
+                  <p className="text-sm text-gray-500">No architectural changes.</p>
+                ) : (
+                  DIFF_SECTIONS.filter(section => diff[section.key].length > 0).map(section => (
+                    <div key={section.key} className="mb-2">
+                      <div className={`text-sm font-medium ${section.className}`}>
+                        {section.title} ({diff[section.key].length})
+                      </div>
+                      <ul className="text-sm text-gray-700 list-disc ml-5">
+                        {diff[section.key].map(item => (
+                          <li key={item.id}>{describeDiffItem(item)}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  ))
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
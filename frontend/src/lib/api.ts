@@ -2,10 +2,47 @@ import axios from 'axios';
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api';
 
-export interface Graph {
+export interface GraphMetadata {
+  description: string;
+  tags: string[];
+  ownerTeam: string;
+}
+
+export interface GraphStats {
+  nodeCount: number;
+  edgeCount: number;
+  // Dependency cycles: strongly connected components with more than one service
+  sccCount: number;
+}
+
+export interface Graph extends GraphMetadata {
   id: string;
   name: string;
   createdAt: string;
+  updatedAt: string;
+  stats: GraphStats;
+}
+
+export type GraphSortField = 'name' | 'createdAt' | 'updatedAt' | 'nodeCount' | 'edgeCount' | 'sccCount';
+
+export interface GraphListParams {
+  // Matches name, description, tags and owner team
+  q?: string;
+  // Graphs must carry all of these tags
+  tags?: string[];
+  ownerTeam?: string;
+  sort?: GraphSortField;
+  order?: 'asc' | 'desc';
+  limit?: number;
+  // nextCursor of the previous page, with the same sort and order
+  cursor?: string;
+}
+
+export interface GraphPage {
+  graphs: Graph[];
+  // Graphs matching the filters, across all pages
+  total: number;
+  nextCursor: string | null;
 }
 
 export interface Node {
@@ -15,12 +52,31 @@ export interface Node {
   data: { label: string };
 }
 
+export type EdgeKind = 'sync-rpc' | 'async-event' | 'shared-db' | 'library' | 'other';
+
+export const EDGE_KINDS: { value: EdgeKind; label: string }[] = [
+  { value: 'sync-rpc', label: 'Synchronous call (HTTP/gRPC)' },
+  { value: 'async-event', label: 'Asynchronous event' },
+  { value: 'shared-db', label: 'Shared database' },
+  { value: 'library', label: 'Shared library' },
+  { value: 'other', label: 'Other' },
+];
+
 export interface Edge {
   id: string;
   source: string;
   target: string;
   label?: string;
   type?: string;
+  kind?: EdgeKind;
+  // origins is set on imported dependencies: where each declaration came from
+  data?: { offset?: number; origins?: DependencyOrigin[] };
+}
+
+// Restricts an analysis to dependencies of the given kinds
+export interface EdgeFilter {
+  edgeKinds: EdgeKind[];
+  includeUntyped?: boolean;
 }
 
 export interface GraphData {
@@ -41,25 +97,389 @@ export interface GraphMetrics {
   multiEdges: number;
 }
 
+export interface ServiceMetrics {
+  nodeId: string;
+  label: string;
+  inDegree: number;
+  outDegree: number;
+  afferentCoupling: number;
+  efferentCoupling: number;
+  instability: number;
+  pageRank: number;
+  betweenness: number;
+}
+
+export interface ServiceMetricsReport {
+  services: ServiceMetrics[];
+  betweennessSampled: boolean;
+}
+
+export interface Community {
+  id: string;
+  nodes: string[];
+  internalEdges: number;
+  externalEdges: number;
+}
+
+export interface CommunityCoupling {
+  source: string;
+  target: string;
+  edgeCount: number;
+  edges: Array<{ id: string; source: string; target: string; label?: string }>;
+}
+
+export interface CommunityReport {
+  communities: Community[];
+  assignment: Record<string, string>;
+  modularity: number;
+  resolution: number;
+  hotSpots: CommunityCoupling[];
+}
+
+export interface DominatorTreeNode {
+  nodeId: string;
+  immediateDominator: string | null;
+  dominatedCount: number;
+}
+
+export interface SinglePointsOfFailure {
+  articulationPoints: string[];
+  bridges: Array<{ id: string; source: string; target: string; label?: string }>;
+  entryPoints: string[];
+  dominatorTree: DominatorTreeNode[];
+  chokepoints: DominatorTreeNode[];
+}
+
+export interface GraphPatch {
+  removeNodes?: string[];
+  removeEdges?: string[];
+  addNodes?: Array<{ id: string; label: string; position?: { x: number; y: number } }>;
+  rerouteEdges?: Array<{ edgeId: string; source?: string; target?: string }>;
+  addEdges?: Array<{ id?: string; source: string; target: string; label?: string; kind?: EdgeKind }>;
+}
+
+export interface SimulationSnapshot {
+  nodeCount: number;
+  edgeCount: number;
+  avgDegree: number;
+  maxDegree: number;
+  density: number;
+  selfLoops: number;
+  stronglyConnectedComponents: string[][];
+  cyclicServices: number;
+  tinyCycles: number;
+  cycles: { total: number; complete: boolean };
+}
+
+export interface Simulation {
+  before: SimulationSnapshot;
+  after: SimulationSnapshot;
+  graphData: GraphData;
+}
+
+export interface ImpactedService {
+  nodeId: string;
+  depth: number;
+}
+
+export interface ImpactAnalysis {
+  nodeId: string;
+  upstream: ImpactedService[];
+  downstream: ImpactedService[];
+}
+
+export interface PathHop {
+  source: string;
+  target: string;
+  edgeIds: string[];
+  labels: string[];
+}
+
+export interface DependencyPath {
+  nodes: string[];
+  hops: PathHop[];
+  length: number;
+}
+
+export interface DependencyPaths {
+  from: string;
+  to: string;
+  shortest: DependencyPath | null;
+  alternatives: DependencyPath[];
+}
+
 export interface Cycle {
   nodes: string[];
   length: number;
 }
 
+export interface CyclePage {
+  cycles: Cycle[];
+  total: number;
+  cursor: number;
+  limit: number;
+  nextCursor: number | null;
+  complete: boolean;
+  truncatedBy: 'count' | 'time' | null;
+  elapsedMs: number;
+}
+
+export interface CycleSearchParams {
+  cursor?: number;
+  limit?: number;
+  maxCycles?: number;
+  timeBudgetMs?: number;
+}
+
+export interface BoundedCycles {
+  cycles: Cycle[];
+  maxLength: number;
+  total: number;
+  complete: boolean;
+  truncatedBy: 'count' | 'time' | null;
+  elapsedMs: number;
+}
+
+export interface CriticalityScore {
+  cycleCount: number;
+  weightedScore: number;
+}
+
+export interface EdgeCriticality extends CriticalityScore {
+  edgeId: string;
+  source: string;
+  target: string;
+  label?: string;
+}
+
+export interface NodeCriticality extends CriticalityScore {
+  nodeId: string;
+}
+
+export interface CycleCriticality {
+  edges: EdgeCriticality[];
+  nodes: NodeCriticality[];
+  totalCycles: number;
+  complete: boolean;
+  truncatedBy: 'count' | 'time' | null;
+  elapsedMs: number;
+}
+
+export interface CondensedNode {
+  id: string;
+  nodes: string[];
+  cyclic: boolean;
+  wave: number;
+}
+
+export interface CondensedEdge {
+  source: string;
+  target: string;
+  edgeCount: number;
+}
+
+export interface ReleaseWave {
+  index: number;
+  components: string[];
+  services: string[];
+}
+
+export interface Condensation {
+  nodes: CondensedNode[];
+  edges: CondensedEdge[];
+  waves: ReleaseWave[];
+}
+
+export interface FeedbackArcSetComponent {
+  nodes: string[];
+  method: 'exact' | 'heuristic';
+  edgeIds: string[];
+}
+
+export interface FeedbackArcSet {
+  edges: Edge[];
+  size: number;
+  exact: boolean;
+  components: FeedbackArcSetComponent[];
+}
+
 export interface TinyCycle {
   node1: string;
   node2: string;
 }
 
+export type FixPatternId =
+  | 'dependency-inversion'
+  | 'event-bus'
+  | 'merge-services'
+  | 'extract-shared-service'
+  | 'callback-to-event';
+
+export interface FixRecommendation {
+  pattern: FixPatternId;
+  name: string;
+  score: number;
+  rationale: string[];
+  steps: string[];
+  edge?: { id: string; source: string; target: string; label?: string };
+}
+
 export interface FixSuggestion {
   cycle: TinyCycle;
   suggestion: string;
   strategies: string[];
+  // Gemini when an API key is configured, otherwise the offline rule-based recommender
+  source: 'rules' | 'ai';
+  recommendations: FixRecommendation[];
+}
+
+export interface GraphVersionSummary {
+  version: number;
+  author: string;
+  message: string;
+  createdAt: string;
+  nodeCount: number;
+  edgeCount: number;
+}
+
+export interface GraphVersion extends GraphVersionSummary {
+  data: GraphData;
+}
+
+// Endpoint changes are reported by service label
+export interface FieldChange {
+  field: 'source' | 'target' | 'label' | 'kind';
+  before: string | null;
+  after: string | null;
+}
+
+export interface ServiceChange {
+  id: string;
+  label: string;
+}
+
+export interface DependencyChange extends Edge {
+  sourceLabel: string;
+  targetLabel: string;
+}
+
+export interface GraphDiff {
+  from: number;
+  // null when compared against the current graph
+  to: number | null;
+  addedServices: ServiceChange[];
+  removedServices: ServiceChange[];
+  changedServices: (ServiceChange & { changes: FieldChange[] })[];
+  addedDependencies: DependencyChange[];
+  removedDependencies: DependencyChange[];
+  changedDependencies: (DependencyChange & { changes: FieldChange[] })[];
+}
+
+// Server state sent back when a save is rejected because the graph moved on
+export interface GraphConflict {
+  revision: number;
+  data: GraphData;
+  lastSave: { author: string; message: string; createdAt: string } | null;
+}
+
+// Thrown by updateGraph when someone else saved the graph first
+export class GraphConflictError extends Error {
+  constructor(public conflict: GraphConflict) {
+    super('Graph was modified since it was loaded');
+  }
+}
+
+export interface SchemaViolation {
+  // Where the violation is, e.g. edges[3].target
+  path: string;
+  message: string;
+}
+
+export interface GraphValidation {
+  valid: boolean;
+  // The first 100 violations; violationCount has the total
+  violations: SchemaViolation[];
+  violationCount: number;
+}
+
+// Thrown by updateGraph when the graph data fails the server's schema
+export class GraphValidationError extends Error {
+  constructor(public violations: SchemaViolation[], public violationCount: number) {
+    super('Graph data is invalid');
+  }
+}
+
+export type MergeConflictType = 'duplicate-label' | 'label-spelling' | 'service-type' | 'dependency-mismatch';
+
+export interface MergeConflict {
+  type: MergeConflictType;
+  // Label of the merged service, or "source → target" for dependencies
+  label: string;
+  graphIds: string[];
+  message: string;
+}
+
+export interface GraphMergeReport {
+  conflicts: MergeConflict[];
+  unifiedServices: number;
+  deduplicatedDependencies: number;
+}
+
+// Sources a graph can be imported from; each has an /import/<format> endpoint
+export type ImportFormat = 'compose' | 'kubernetes';
+
+export interface ImportFile {
+  name: string;
+  content: string;
+}
+
+// Where an imported dependency was declared; kept in edge.data.origins
+export interface DependencyOrigin {
+  file: string;
+  key: string;
+}
+
+export interface ImportWarning {
+  file: string;
+  key?: string;
+  message: string;
+}
+
+export type AnalysisKind = 'analyze' | 'find-cycles' | 'detect-tiny-cycles';
+
+// The stored run an analysis response came from
+export interface AnalysisRunInfo {
+  id: string;
+  createdAt: string;
+  // Hash of the services and dependencies analyzed; moving services does not change it
+  contentHash: string;
+  // True when the graph was unchanged and the stored result was returned
+  cached: boolean;
+}
+
+export interface AnalysisRunSummary {
+  id: string;
+  kind: AnalysisKind;
+  contentHash: string;
+  parameters: Record<string, unknown>;
+  // Graph revision at the time of the run
+  revision: number;
+  createdAt: string;
+  durationMs: number;
+  // e.g. nodeCount, edgeCount, sccCount and cyclicServices for analyze runs
+  summary: Record<string, number>;
+  cacheable: boolean;
+}
+
+export interface AnalysisRun extends AnalysisRunSummary {
+  // Missing for runs cut short by a time budget
+  result?: unknown;
 }
 
 export interface AnalysisResult {
   metrics: GraphMetrics;
   graphData: GraphData;
+  run: AnalysisRunInfo;
 }
 
 const api = axios.create({
@@ -69,28 +489,110 @@ const api = axios.create({
   },
 });
 
+// The `error` message of a failed request's response body, if the server sent one
+export const apiErrorMessage = (error: unknown): string | undefined =>
+  axios.isAxiosError(error) && typeof error.response?.data?.error === 'string' ? error.response.data.error : undefined;
+
 export const graphApi = {
-  // Get all graphs
-  getAllGraphs: async (): Promise<Graph[]> => {
-    const response = await api.get('/graphs');
+  // One page of graphs, filtered and sorted
+  getAllGraphs: async (params: GraphListParams = {}): Promise<GraphPage> => {
+    const response = await api.get('/graphs', {
+      params: { ...params, tags: params.tags?.length ? params.tags.join(',') : undefined },
+    });
     return response.data;
   },
 
   // Get a specific graph
-  getGraph: async (id: string): Promise<{ id: string; name: string; data: GraphData }> => {
+  getGraph: async (id: string): Promise<Graph & { revision: number; data: GraphData }> => {
     const response = await api.get(`/graphs/${id}`);
     return response.data;
   },
 
   // Create a new graph
-  createGraph: async (name: string): Promise<{ id: string; name: string }> => {
-    const response = await api.post('/graphs', { name });
+  createGraph: async (name: string, metadata?: Partial<GraphMetadata>): Promise<Graph> => {
+    const response = await api.post('/graphs', { name, ...metadata });
     return response.data;
   },
 
-  // Update a graph
-  updateGraph: async (id: string, data: GraphData): Promise<void> => {
-    await api.put(`/graphs/${id}`, { data });
+  // Copy a graph, or one of its versions, into a new graph with fresh ids
+  cloneGraph: async (
+    id: string,
+    options: Partial<GraphMetadata> & { name?: string; version?: number; author?: string } = {}
+  ): Promise<Graph> => {
+    const response = await api.post(`/graphs/${id}/clone`, options);
+    return response.data;
+  },
+
+  // Preview merging graphs without creating anything
+  previewMerge: async (graphIds: string[]): Promise<GraphMergeReport & { data: GraphData }> => {
+    const response = await api.post('/graphs/merge', { graphIds, dryRun: true });
+    return response.data;
+  },
+
+  // Merge graphs into a new graph, unifying services with the same label
+  mergeGraphs: async (
+    graphIds: string[],
+    details: Partial<GraphMetadata> & { name: string; author?: string }
+  ): Promise<GraphMergeReport & { graph: Graph }> => {
+    const response = await api.post('/graphs/merge', { graphIds, ...details });
+    return response.data;
+  },
+
+  // Parse uploaded files into a graph without creating anything
+  previewImport: async (
+    format: ImportFormat,
+    files: ImportFile[]
+  ): Promise<{ data: GraphData; warnings: ImportWarning[] }> => {
+    const response = await api.post(`/graphs/import/${format}`, { files, dryRun: true });
+    return response.data;
+  },
+
+  // Create a graph from uploaded files, laid out by dependency
+  importGraph: async (
+    format: ImportFormat,
+    files: ImportFile[],
+    details: Partial<GraphMetadata> & { name: string; author?: string }
+  ): Promise<{ graph: Graph; warnings: ImportWarning[] }> => {
+    const response = await api.post(`/graphs/import/${format}`, { files, ...details });
+    return response.data;
+  },
+
+  // Rename a graph or change its description, tags or owner team
+  updateGraphDetails: async (id: string, changes: Partial<GraphMetadata> & { name?: string }): Promise<Graph> => {
+    const response = await api.patch(`/graphs/${id}`, changes);
+    return response.data;
+  },
+
+  // Update a graph if it is still at `revision`, recording the save as a new version
+  updateGraph: async (
+    id: string,
+    data: GraphData,
+    revision: number,
+    author?: string,
+    message?: string
+  ): Promise<{ version: number; revision: number }> => {
+    try {
+      const response = await api.put(
+        `/graphs/${id}`,
+        { data, author, message },
+        { headers: { 'If-Match': `"${revision}"` } }
+      );
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 409) {
+        throw new GraphConflictError(error.response.data);
+      }
+      if (axios.isAxiosError(error) && error.response?.status === 422) {
+        throw new GraphValidationError(error.response.data.violations, error.response.data.violationCount);
+      }
+      throw error;
+    }
+  },
+
+  // Check graph data against the schema without saving it; without data, check the stored graph
+  validateGraph: async (id: string, data?: GraphData): Promise<GraphValidation> => {
+    const response = await api.post(`/graphs/${id}/validate`, { data });
+    return response.data;
   },
 
   // Delete a graph
@@ -98,21 +600,154 @@ export const graphApi = {
     await api.delete(`/graphs/${id}`);
   },
 
+  // Saved versions of a graph, newest first
+  getVersions: async (id: string): Promise<GraphVersionSummary[]> => {
+    const response = await api.get(`/graphs/${id}/versions`);
+    return response.data;
+  },
+
+  // One version of a graph with its snapshot
+  getVersion: async (id: string, version: number): Promise<GraphVersion> => {
+    const response = await api.get(`/graphs/${id}/versions/${version}`);
+    return response.data;
+  },
+
+  // What changed between two versions, or between a version and the current graph
+  diffVersions: async (id: string, from: number, to?: number): Promise<GraphDiff> => {
+    const response = await api.get(`/graphs/${id}/diff`, { params: { from, to } });
+    return response.data;
+  },
+
+  // Restore a version by saving it as a new version
+  restoreVersion: async (id: string, version: number, author?: string): Promise<{ version: number; revision: number }> => {
+    const response = await api.post(`/graphs/${id}/versions/${version}/restore`, { author });
+    return response.data;
+  },
+
   // Analyze a graph
-  analyzeGraph: async (id: string): Promise<AnalysisResult> => {
-    const response = await api.post(`/graphs/${id}/analyze`);
+  analyzeGraph: async (id: string, filter?: EdgeFilter): Promise<AnalysisResult> => {
+    const response = await api.post(`/graphs/${id}/analyze`, { ...filter });
+    return response.data;
+  },
+
+  // Analyze a hypothetical change without saving it
+  simulate: async (id: string, patch: GraphPatch, filter?: EdgeFilter): Promise<Simulation> => {
+    const response = await api.post(`/graphs/${id}/simulate`, { patch, ...filter });
+    return response.data;
+  },
+
+  // Per-service centrality and coupling metrics
+  getServiceMetrics: async (id: string, filter?: EdgeFilter): Promise<ServiceMetricsReport> => {
+    const response = await api.post(`/graphs/${id}/service-metrics`, { ...filter });
+    return response.data;
+  },
+
+  // Candidate bounded contexts from community detection
+  getCommunities: async (id: string, resolution?: number, filter?: EdgeFilter): Promise<CommunityReport> => {
+    const response = await api.post(`/graphs/${id}/communities`, { resolution, ...filter });
     return response.data;
   },
 
-  // Find elementary cycles in a component
-  findCycles: async (id: string, componentNodes: string[]): Promise<{ cycles: Cycle[] }> => {
-    const response = await api.post(`/graphs/${id}/find-cycles`, { componentNodes });
+  // Articulation points, bridges and dominators from the entry points
+  getSinglePointsOfFailure: async (
+    id: string,
+    entryPoints?: string[],
+    filter?: EdgeFilter
+  ): Promise<SinglePointsOfFailure> => {
+    const response = await api.post(`/graphs/${id}/single-points-of-failure`, { entryPoints, ...filter });
+    return response.data;
+  },
+
+  // Blast radius of a service: what depends on it and what it depends on
+  getImpact: async (id: string, nodeId: string, filter?: EdgeFilter): Promise<ImpactAnalysis> => {
+    const params = filter
+      ? { edgeKinds: filter.edgeKinds.join(','), includeUntyped: filter.includeUntyped }
+      : undefined;
+    const response = await api.get(`/graphs/${id}/impact/${encodeURIComponent(nodeId)}`, { params });
+    return response.data;
+  },
+
+  // Find the shortest and alternative dependency paths from one service to another
+  getDependencyPaths: async (
+    id: string,
+    from: string,
+    to: string,
+    maxPaths?: number,
+    filter?: EdgeFilter
+  ): Promise<DependencyPaths> => {
+    const params = {
+      from,
+      to,
+      maxPaths,
+      ...(filter && { edgeKinds: filter.edgeKinds.join(','), includeUntyped: filter.includeUntyped }),
+    };
+    const response = await api.get(`/graphs/${id}/paths`, { params });
+    return response.data;
+  },
+
+  // Find elementary cycles in a component, one page at a time
+  findCycles: async (
+    id: string,
+    componentNodes: string[],
+    params: CycleSearchParams = {},
+    filter?: EdgeFilter
+  ): Promise<CyclePage & { run: AnalysisRunInfo }> => {
+    const response = await api.post(`/graphs/${id}/find-cycles`, { componentNodes, ...params, ...filter });
+    return response.data;
+  },
+
+  // Find every simple cycle of up to maxLength services in a component
+  findBoundedCycles: async (
+    id: string,
+    componentNodes: string[],
+    maxLength: number,
+    filter?: EdgeFilter
+  ): Promise<BoundedCycles> => {
+    const response = await api.post(`/graphs/${id}/bounded-cycles`, { componentNodes, maxLength, ...filter });
+    return response.data;
+  },
+
+  // Rank the edges and nodes of a component by the cycles passing through them
+  getCycleCriticality: async (
+    id: string,
+    componentNodes: string[],
+    filter?: EdgeFilter
+  ): Promise<CycleCriticality> => {
+    const response = await api.post(`/graphs/${id}/cycle-criticality`, { componentNodes, ...filter });
+    return response.data;
+  },
+
+  // Collapse cycles into super-nodes and order the services into release waves
+  getCondensation: async (id: string, filter?: EdgeFilter): Promise<Condensation> => {
+    const response = await api.post(`/graphs/${id}/condensation`, { ...filter });
+    return response.data;
+  },
+
+  // Compute the minimum set of dependencies to cut to make the graph acyclic
+  getFeedbackArcSet: async (id: string, filter?: EdgeFilter): Promise<FeedbackArcSet> => {
+    const response = await api.post(`/graphs/${id}/feedback-arc-set`, { ...filter });
     return response.data;
   },
 
   // Detect tiny cycles in a component
-  detectTinyCycles: async (id: string, componentNodes: string[]): Promise<{ tinyCycles: TinyCycle[] }> => {
-    const response = await api.post(`/graphs/${id}/detect-tiny-cycles`, { componentNodes });
+  detectTinyCycles: async (
+    id: string,
+    componentNodes: string[],
+    filter?: EdgeFilter
+  ): Promise<{ tinyCycles: TinyCycle[]; run: AnalysisRunInfo }> => {
+    const response = await api.post(`/graphs/${id}/detect-tiny-cycles`, { componentNodes, ...filter });
+    return response.data;
+  },
+
+  // Past analysis runs, newest first, without their results
+  getAnalysisRuns: async (id: string, kind?: AnalysisKind, limit?: number): Promise<AnalysisRunSummary[]> => {
+    const response = await api.get(`/graphs/${id}/analysis-runs`, { params: { kind, limit } });
+    return response.data;
+  },
+
+  // One analysis run with its result
+  getAnalysisRun: async (id: string, runId: string): Promise<AnalysisRun> => {
+    const response = await api.get(`/graphs/${id}/analysis-runs/${runId}`);
     return response.data;
   },
 
@@ -0,0 +1,125 @@
+interface MergeNode {
+  id: string;
+  position?: { x: number; y: number };
+  data?: { label?: string };
+}
+
+interface MergeEdge {
+  id: string;
+  source: string;
+  target: string;
+  label?: unknown;
+  kind?: string;
+}
+
+export interface GraphMerge<N extends MergeNode, E extends MergeEdge> {
+  nodes: N[];
+  edges: E[];
+  // Services and dependencies both sides changed; our version was kept
+  overlaps: string[];
+}
+
+// Only what is saved and shown counts as a change, not ReactFlow's selection or measurements
+const nodeSignature = (node: MergeNode) => JSON.stringify([node.data?.label, node.position?.x, node.position?.y]);
+const edgeSignature = (edge: MergeEdge) => JSON.stringify([edge.source, edge.target, edge.label, edge.kind]);
+
+const mergeById = <T extends { id: string }>(
+  base: T[],
+  theirs: T[],
+  ours: T[],
+  signature: (item: T) => string,
+  describe: (item: T) => string,
+  overlaps: string[]
+): T[] => {
+  const baseById = new Map(base.map(item => [item.id, item]));
+  const theirsById = new Map(theirs.map(item => [item.id, item]));
+  const oursById = new Map(ours.map(item => [item.id, item]));
+  const changed = (a?: T, b?: T) => (a ? signature(a) : null) !== (b ? signature(b) : null);
+
+  // Start from their graph and replay what we changed since the common base
+  const merged = new Map(theirsById);
+  const ids = Array.from(new Set(base.map(item => item.id).concat(ours.map(item => item.id))));
+  for (const id of ids) {
+    const [before, mine, theirsItem] = [baseById.get(id), oursById.get(id), theirsById.get(id)];
+    if (!changed(before, mine)) continue;
+
+    if (changed(before, theirsItem) && changed(mine, theirsItem)) {
+      overlaps.push(describe((mine ?? theirsItem ?? before)!));
+    }
+    if (mine) {
+      merged.set(id, mine);
+    } else {
+      merged.delete(id);
+    }
+  }
+
+  return Array.from(merged.values());
+};
+
+/**
+ * Three-way merge of a graph: `base` is what we loaded, `theirs` what was
+ * saved since, `ours` the editor state. Changes are matched by id; when both
+ * sides changed the same service or dependency, ours wins and it is listed
+ * in `overlaps`.
+ */
+export const mergeGraphs = <N extends MergeNode, E extends MergeEdge>(
+  base: { nodes: N[]; edges: E[] },
+  theirs: { nodes: N[]; edges: E[] },
+  ours: { nodes: N[]; edges: E[] }
+): GraphMerge<N, E> => {
+  const baseNodeIds = new Set(base.nodes.map(node => node.id));
+  const theirNodeIds = new Set(theirs.nodes.map(node => node.id));
+
+  // Both editors number new services from the same counter, so give ours fresh ids on a clash
+  // A reduce rather than spreading into Math.max, which overflows the call stack on large graphs
+  let nextNodeNumber = 1 + theirs.nodes.concat(ours.nodes).reduce(
+    (max, node) => Math.max(max, Number(node.id.match(/^node_(\d+)$/)?.[1] ?? 0)),
+    0
+  );
+  const renamed = new Map<string, string>();
+  ours.nodes.forEach(node => {
+    if (!baseNodeIds.has(node.id) && theirNodeIds.has(node.id)) {
+      renamed.set(node.id, `node_${nextNodeNumber++}`);
+    }
+  });
+  const ourNodes: N[] = ours.nodes.map(node => (renamed.has(node.id) ? { ...node, id: renamed.get(node.id)! } : node));
+  const ourEdges: E[] = ours.edges.map(edge =>
+    renamed.has(edge.source) || renamed.has(edge.target)
+      ? { ...edge, source: renamed.get(edge.source) ?? edge.source, target: renamed.get(edge.target) ?? edge.target }
+      : edge
+  );
+
+  const overlaps: string[] = [];
+  const nodes = mergeById<N>(base.nodes, theirs.nodes, ourNodes, nodeSignature, node => node.data?.label || node.id, overlaps);
+  const labels = new Map(nodes.map(node => [node.id, node.data?.label || node.id]));
+  const edges = mergeById<E>(
+    base.edges,
+    theirs.edges,
+    ourEdges,
+    edgeSignature,
+    edge => `${labels.get(edge.source) ?? edge.source} → ${labels.get(edge.target) ?? edge.target}`,
+    overlaps
+  );
+
+  // A dependency survives only if both of its services did
+  const nodeIds = new Set(nodes.map(node => node.id));
+  return {
+    nodes,
+    edges: edges.filter(edge => nodeIds.has(edge.source) && nodeIds.has(edge.target)),
+    overlaps,
+  };
+};
+
+const sameItems = <T extends { id: string }>(base: T[], ours: T[], signature: (item: T) => string) => {
+  const baseById = new Map(base.map(item => [item.id, signature(item)]));
+  return base.length === ours.length && ours.every(item => baseById.get(item.id) === signature(item));
+};
+
+/**
+ * Whether the editor state `ours` differs from `base` in anything that is
+ * saved and shown, by the same comparison the merge uses
+ */
+export const hasGraphChanges = (
+  base: { nodes: MergeNode[]; edges: MergeEdge[] },
+  ours: { nodes: MergeNode[]; edges: MergeEdge[] }
+): boolean => !sameItems(base.nodes, ours.nodes, nodeSignature) || !sameItems(base.edges, ours.edges, edgeSignature);